@@ -0,0 +1,444 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import { fileURLToPath } from 'node:url'
+import { z } from 'zod'
+
+import { createLocalRepository } from '../src/features/todos/api/repositories/localRepository'
+import {
+  ChecklistItemNotFoundError,
+  CommentNotFoundError,
+  InvalidCommentError,
+  InvalidCursorError,
+  ListConflictError,
+  ListNotFoundError,
+  ReorderConflictError,
+  SavedViewConflictError,
+  SavedViewNotFoundError,
+  SearchSyntaxError,
+  TagConflictError,
+  TagNotFoundError,
+  TodoNotFoundError,
+} from '../src/features/todos/api/errors'
+import { createJsonFileStore } from './jsonFileStore'
+import {
+  bulkDeleteTodosSchema,
+  bulkRestoreTodosSchema,
+  bulkUpdateTodosSchema,
+  completionQuerySchema,
+  createCommentSchema,
+  createListSchema,
+  createTodoSchema,
+  createViewSchema,
+  listCommentsQuerySchema,
+  listTodosQuerySchema,
+  mergeTagsSchema,
+  reorderTodoSchema,
+  updateCommentSchema,
+  updateListSchema,
+  updateTagSchema,
+  updateTodoSchema,
+  updateViewSchema,
+} from './validation'
+
+const PORT = Number(process.env.PORT ?? 4000)
+const DB_PATH = process.env.MOCK_DB_PATH ?? fileURLToPath(new URL('./data/todos.json', import.meta.url))
+const FAILURE_RATE = Number(process.env.MOCK_FAILURE_RATE ?? 0)
+const MAX_BODY_BYTES = 1024 * 64
+
+const parseLatency = (value: string | undefined) => {
+  if (!value) return { min: 0, max: 0 }
+  const [min, max = min] = value.split('-').map((part) => Number(part.trim()))
+  return { min: Number.isFinite(min) ? min : 0, max: Number.isFinite(max) ? max : 0 }
+}
+
+// The repository runs one read-change-write at a time, so concurrent requests cannot lose each other's updates.
+const repository = createLocalRepository(createJsonFileStore(DB_PATH), {
+  latency: parseLatency(process.env.MOCK_LATENCY_MS),
+  trashRetentionDays: process.env.MOCK_TRASH_RETENTION_DAYS ? Number(process.env.MOCK_TRASH_RETENTION_DAYS) : undefined,
+})
+
+class HttpError extends Error {
+  readonly status: number
+  readonly code: string
+
+  constructor(status: number, code: string, message: string) {
+    super(message)
+    this.status = status
+    this.code = code
+  }
+}
+
+type RouteContext = {
+  params: Record<string, string>
+  query: URLSearchParams
+  body: () => Promise<unknown>
+}
+
+type Route = {
+  method: string
+  pattern: RegExp
+  handler: (context: RouteContext) => Promise<{ status: number; body?: unknown }>
+}
+
+const readBody = (request: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'payload_too_large', 'Request body is too large'))
+        request.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    request.on('end', () => {
+      if (chunks.length === 0) {
+        resolve(undefined)
+        return
+      }
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')))
+      } catch {
+        reject(new HttpError(400, 'invalid_json', 'Request body must be valid JSON'))
+      }
+    })
+    request.on('error', reject)
+  })
+
+const decodeParam = (value: string) => {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    throw new HttpError(400, 'invalid_path', `Malformed escape in path segment "${value}"`)
+  }
+}
+
+const parseWith = <T,>(schema: z.ZodType<T>, value: unknown): T => {
+  const result = schema.safeParse(value ?? {})
+  if (!result.success) {
+    const message = result.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ')
+    throw new HttpError(400, 'validation_failed', message)
+  }
+  return result.data
+}
+
+const routes: Route[] = [
+  {
+    method: 'GET',
+    pattern: /^\/todos$/,
+    handler: async ({ query }) => ({
+      status: 200,
+      body: await repository.list(
+        parseWith(listTodosQuerySchema, { ...Object.fromEntries(query), tags: query.getAll('tag') }),
+      ),
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/todos$/,
+    handler: async ({ body }) => ({ status: 201, body: await repository.create(parseWith(createTodoSchema, await body())) }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/todos\/bulk-update$/,
+    handler: async ({ query, body }) => {
+      const { ids, change } = parseWith(bulkUpdateTodosSchema, await body())
+      return {
+        status: 200,
+        body: await repository.bulkUpdate(ids, change, parseWith(completionQuerySchema, Object.fromEntries(query))),
+      }
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/todos\/bulk-delete$/,
+    handler: async ({ body }) => {
+      const { ids } = parseWith(bulkDeleteTodosSchema, await body())
+      return { status: 200, body: await repository.bulkDelete(ids) }
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/todos\/bulk-restore$/,
+    handler: async ({ body }) => {
+      const { ids } = parseWith(bulkRestoreTodosSchema, await body())
+      return { status: 200, body: await repository.bulkRestore(ids) }
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/todos\/(?<id>[^/]+)$/,
+    handler: async ({ params }) => ({ status: 200, body: await repository.get(params.id) }),
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/todos\/(?<id>[^/]+)$/,
+    handler: async ({ params, query, body }) => ({
+      status: 200,
+      body: await repository.update(
+        params.id,
+        parseWith(updateTodoSchema, await body()),
+        parseWith(completionQuerySchema, Object.fromEntries(query)),
+      ),
+    }),
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/todos\/(?<id>[^/]+)$/,
+    handler: async ({ params }) => ({ status: 200, body: await repository.delete(params.id) }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/todos\/(?<id>[^/]+)\/toggle$/,
+    handler: async ({ params, query }) => ({
+      status: 200,
+      body: await repository.toggleCompletion(params.id, parseWith(completionQuerySchema, Object.fromEntries(query))),
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/todos\/(?<id>[^/]+)\/reorder$/,
+    handler: async ({ params, body }) => ({
+      status: 200,
+      body: await repository.reorder(params.id, parseWith(reorderTodoSchema, await body())),
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/todos\/(?<id>[^/]+)\/checklist\/(?<itemId>[^/]+)\/toggle$/,
+    handler: async ({ params, query }) => ({
+      status: 200,
+      body: await repository.toggleChecklistItem(
+        params.id,
+        params.itemId,
+        parseWith(completionQuerySchema, Object.fromEntries(query)),
+      ),
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/todos\/(?<id>[^/]+)\/history$/,
+    handler: async ({ params }) => ({ status: 200, body: await repository.history(params.id) }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/todos\/(?<id>[^/]+)\/comments$/,
+    handler: async ({ params, body }) => ({
+      status: 201,
+      body: await repository.comments.add(params.id, parseWith(createCommentSchema, await body())),
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/todos\/(?<id>[^/]+)\/restore$/,
+    handler: async ({ params }) => ({ status: 200, body: await repository.restore(params.id) }),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/tags$/,
+    handler: async () => ({ status: 200, body: await repository.tags.list() }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/tags\/merge$/,
+    handler: async ({ body }) => {
+      const { sources, target } = parseWith(mergeTagsSchema, await body())
+      return { status: 200, body: await repository.tags.merge(sources, target) }
+    },
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/tags\/(?<name>[^/]+)$/,
+    handler: async ({ params, body }) => ({
+      status: 200,
+      body: await repository.tags.update(params.name, parseWith(updateTagSchema, await body())),
+    }),
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/tags\/(?<name>[^/]+)$/,
+    handler: async ({ params }) => {
+      await repository.tags.delete(params.name)
+      return { status: 204 }
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/lists$/,
+    handler: async () => ({ status: 200, body: await repository.lists.list() }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/lists$/,
+    handler: async ({ body }) => ({
+      status: 201,
+      body: await repository.lists.create(parseWith(createListSchema, await body())),
+    }),
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/lists\/(?<id>[^/]+)$/,
+    handler: async ({ params, body }) => ({
+      status: 200,
+      body: await repository.lists.update(params.id, parseWith(updateListSchema, await body())),
+    }),
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/lists\/(?<id>[^/]+)$/,
+    handler: async ({ params }) => {
+      await repository.lists.delete(params.id)
+      return { status: 204 }
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/views$/,
+    handler: async () => ({ status: 200, body: await repository.views.list() }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/views$/,
+    handler: async ({ body }) => ({
+      status: 201,
+      body: await repository.views.create(parseWith(createViewSchema, await body())),
+    }),
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/views\/(?<id>[^/]+)$/,
+    handler: async ({ params, body }) => ({
+      status: 200,
+      body: await repository.views.update(params.id, parseWith(updateViewSchema, await body())),
+    }),
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/views\/(?<id>[^/]+)$/,
+    handler: async ({ params }) => {
+      await repository.views.delete(params.id)
+      return { status: 204 }
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/comments$/,
+    handler: async ({ query }) => {
+      const { todoId } = parseWith(listCommentsQuerySchema, Object.fromEntries(query))
+      return { status: 200, body: await repository.comments.list(todoId) }
+    },
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/comments\/(?<id>[^/]+)$/,
+    handler: async ({ params, body }) => ({
+      status: 200,
+      body: await repository.comments.edit(params.id, parseWith(updateCommentSchema, await body())),
+    }),
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/comments\/(?<id>[^/]+)$/,
+    handler: async ({ params }) => {
+      await repository.comments.delete(params.id)
+      return { status: 204 }
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/trash$/,
+    handler: async () => ({ status: 200, body: await repository.listTrash() }),
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/trash\/(?<id>[^/]+)$/,
+    handler: async ({ params }) => {
+      await repository.purge(params.id)
+      return { status: 204 }
+    },
+  },
+]
+
+const send = (response: ServerResponse, status: number, body?: unknown) => {
+  response.statusCode = status
+  if (body === undefined) {
+    response.end()
+    return
+  }
+  response.setHeader('Content-Type', 'application/json; charset=utf-8')
+  response.end(JSON.stringify(body))
+}
+
+const server = createServer(async (request, response) => {
+  response.setHeader('Access-Control-Allow-Origin', '*')
+  response.setHeader('Access-Control-Allow-Methods', 'GET,POST,PATCH,DELETE,OPTIONS')
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept')
+
+  if (request.method === 'OPTIONS') {
+    send(response, 204)
+    return
+  }
+
+  const { pathname, searchParams } = new URL(request.url ?? '/', `http://${request.headers.host ?? 'localhost'}`)
+  const started = Date.now()
+
+  try {
+    if (FAILURE_RATE > 0 && Math.random() < FAILURE_RATE) {
+      throw new HttpError(503, 'simulated_failure', 'Simulated server failure')
+    }
+
+    const pathMatches = routes.filter((route) => route.pattern.test(pathname))
+    const route = pathMatches.find((candidate) => candidate.method === request.method)
+    if (!route) {
+      throw pathMatches.length > 0
+        ? new HttpError(405, 'method_not_allowed', `${request.method} is not supported for ${pathname}`)
+        : new HttpError(404, 'route_not_found', `No route for ${pathname}`)
+    }
+
+    const params = Object.fromEntries(
+      Object.entries(route.pattern.exec(pathname)?.groups ?? {}).map(([key, value]) => [key, decodeParam(value)]),
+    )
+    const result = await route.handler({ params, query: searchParams, body: () => readBody(request) })
+    send(response, result.status, result.body)
+  } catch (error) {
+    if (error instanceof HttpError) {
+      send(response, error.status, { code: error.code, message: error.message })
+    } else if (error instanceof TodoNotFoundError) {
+      send(response, 404, { code: 'todo_not_found', message: error.message })
+    } else if (error instanceof ChecklistItemNotFoundError) {
+      send(response, 404, { code: 'checklist_item_not_found', message: error.message })
+    } else if (error instanceof TagNotFoundError) {
+      send(response, 404, { code: 'tag_not_found', message: error.message })
+    } else if (error instanceof TagConflictError) {
+      send(response, 409, { code: 'tag_conflict', message: error.message })
+    } else if (error instanceof ListNotFoundError) {
+      send(response, 404, { code: 'list_not_found', message: error.message })
+    } else if (error instanceof ListConflictError) {
+      send(response, 409, { code: 'list_conflict', message: error.message })
+    } else if (error instanceof SavedViewNotFoundError) {
+      send(response, 404, { code: 'view_not_found', message: error.message })
+    } else if (error instanceof SavedViewConflictError) {
+      send(response, 409, { code: 'view_conflict', message: error.message })
+    } else if (error instanceof CommentNotFoundError) {
+      send(response, 404, { code: 'comment_not_found', message: error.message })
+    } else if (error instanceof InvalidCommentError) {
+      send(response, 400, { code: 'invalid_comment', message: error.message })
+    } else if (error instanceof InvalidCursorError) {
+      send(response, 400, { code: 'invalid_cursor', message: error.message })
+    } else if (error instanceof SearchSyntaxError) {
+      send(response, 400, { code: 'invalid_search', message: error.message })
+    } else if (error instanceof ReorderConflictError) {
+      send(response, 409, { code: 'reorder_conflict', message: error.message })
+    } else {
+      console.error('[mock-server] Unhandled error', error)
+      send(response, 500, { code: 'internal_error', message: 'Internal server error' })
+    }
+  } finally {
+    console.log(`${request.method} ${pathname} → ${response.statusCode} (${Date.now() - started}ms)`)
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`[mock-server] Serving todos from ${DB_PATH} on http://localhost:${PORT}`)
+})
@@ -0,0 +1,78 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+
+import type { TodoStore } from '../src/features/todos/api/repository'
+import {
+  decodeSerialized,
+  encodeEnvelope,
+  type PersistedState,
+  type QuarantineEntry,
+} from '../src/features/todos/api/schema'
+import { clone } from '../src/utils/clone'
+
+const readIfExists = async (filePath: string): Promise<string | null> => {
+  try {
+    return await readFile(filePath, 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
+const writeAtomically = async (filePath: string, value: unknown) => {
+  await mkdir(dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.tmp`
+  await writeFile(tempPath, `${JSON.stringify(value, null, 2)}\n`, 'utf8')
+  await rename(tempPath, filePath)
+}
+
+export const createJsonFileStore = (filePath: string): TodoStore => {
+  const quarantinePath = filePath.replace(/(\.json)?$/, '.quarantine.json')
+  let pendingWrite: Promise<void> = Promise.resolve()
+  // The server owns the file while it runs, so it is decoded once and the state kept in memory after that.
+  let cached: PersistedState | null = null
+
+  const enqueue = (task: () => Promise<void>) => {
+    pendingWrite = pendingWrite.then(task, task)
+    return pendingWrite
+  }
+
+  const readQuarantine = async (): Promise<QuarantineEntry[]> => {
+    const raw = await readIfExists(quarantinePath)
+    return raw ? JSON.parse(raw) : []
+  }
+
+  return {
+    async read() {
+      if (cached) {
+        return clone(cached)
+      }
+
+      await pendingWrite
+      const raw = await readIfExists(filePath)
+      if (raw === null) {
+        return null
+      }
+
+      const { state, quarantined, needsRewrite } = decodeSerialized(raw)
+      if (quarantined.length > 0) {
+        console.warn(`[mock-server] Quarantined ${quarantined.length} unreadable record(s) to ${quarantinePath}`)
+        await enqueue(async () => writeAtomically(quarantinePath, [...(await readQuarantine()), ...quarantined]))
+      }
+      if (needsRewrite) {
+        await enqueue(() => writeAtomically(filePath, encodeEnvelope(state)))
+      }
+      cached = clone(state)
+      return state
+    },
+
+    async write(state) {
+      cached = clone(state)
+      return enqueue(() => writeAtomically(filePath, encodeEnvelope(state)))
+    },
+
+    readQuarantine,
+  }
+}
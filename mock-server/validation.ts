@@ -0,0 +1,190 @@
+import { z } from 'zod'
+
+import { TAG_COLORS, TODO_PRIORITIES } from '../src/features/todos/types'
+import { DUE_FILTERS, PRIORITY_FILTERS, SORT_VALUES, STATUS_FILTERS } from '../src/features/todos/todoQuery'
+import { isCalendarDate, isTimeOfDay, isValidTimeZone } from '../src/utils/date'
+
+const title = z.string().trim().min(3).max(120)
+const description = z.string().max(1000)
+const dueDate = z.string().refine(isCalendarDate, 'dueDate must be a yyyy-MM-dd calendar date').nullable()
+const dueTime = z.string().refine(isTimeOfDay, 'dueTime must be a HH:mm time of day').nullable()
+const dueTimeZone = z.string().refine(isValidTimeZone, 'dueTimeZone must be an IANA time zone').nullable()
+
+const checklist = z
+  .array(
+    z.object({
+      id: z.string().min(1).optional(),
+      title: z.string().trim().min(1).max(200),
+      completed: z.boolean().optional(),
+    }),
+  )
+  .max(50)
+
+const recurrence = z
+  .discriminatedUnion('type', [
+    z.object({ type: z.literal('daily') }),
+    z.object({ type: z.literal('weekly'), weekdays: z.array(z.number().int().min(0).max(6)).min(1).max(7) }),
+    z.object({ type: z.literal('monthly'), dayOfMonth: z.number().int().min(1).max(31) }),
+    z.object({ type: z.literal('after-completion'), days: z.number().int().min(1).max(365) }),
+  ])
+  .nullable()
+
+const reminders = z
+  .array(
+    z.discriminatedUnion('type', [
+      z.object({ type: z.literal('before-due'), minutes: z.number().int().min(0).max(60 * 24 * 7) }),
+      z.object({ type: z.literal('morning-of') }),
+    ]),
+  )
+  .max(5)
+
+const tags = z.array(z.string().trim().min(1).max(32)).max(20)
+
+const listId = z.string().min(1)
+
+const timeZone = z.string().refine(isValidTimeZone, 'timeZone must be an IANA time zone')
+
+export const listTodosQuerySchema = z.object({
+  listId: listId.optional(),
+  status: z.enum(STATUS_FILTERS).optional(),
+  due: z.enum(DUE_FILTERS).optional(),
+  priority: z.enum(PRIORITY_FILTERS).optional(),
+  tags: z.array(z.string().trim().min(1).max(32)).optional(),
+  search: z.string().max(200).optional(),
+  sort: z.enum(SORT_VALUES).optional(),
+  timeZone: timeZone.optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+})
+
+export const completionQuerySchema = z.object({
+  timeZone: timeZone.optional(),
+})
+
+export const createTodoSchema = z.object({
+  title,
+  listId: listId.optional(),
+  description: description.optional(),
+  dueDate: dueDate.optional(),
+  dueTime: dueTime.optional(),
+  dueTimeZone: dueTimeZone.optional(),
+  completed: z.boolean().optional(),
+  priority: z.enum(TODO_PRIORITIES).optional(),
+  checklist: checklist.optional(),
+  autoCompleteChecklist: z.boolean().optional(),
+  tags: tags.optional(),
+  recurrence: recurrence.optional(),
+  reminders: reminders.optional(),
+  calendarUid: z.string().trim().min(1).max(255).nullable().optional(),
+})
+
+export const updateTodoSchema = z
+  .object({
+    title: title.optional(),
+    listId: listId.optional(),
+    description: description.optional(),
+    dueDate: dueDate.optional(),
+    dueTime: dueTime.optional(),
+    dueTimeZone: dueTimeZone.optional(),
+    completed: z.boolean().optional(),
+    priority: z.enum(TODO_PRIORITIES).optional(),
+    checklist: checklist.optional(),
+    autoCompleteChecklist: z.boolean().optional(),
+    tags: tags.optional(),
+    recurrence: recurrence.optional(),
+    reminders: reminders.optional(),
+  })
+  .strict()
+
+export const reorderTodoSchema = z.object({
+  previousId: z.string().min(1).nullable(),
+  nextId: z.string().min(1).nullable(),
+})
+
+const bulkIds = z.array(z.string().min(1)).min(1).max(500)
+
+export const bulkUpdateTodosSchema = z.object({
+  ids: bulkIds,
+  change: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('complete') }),
+    z.object({ type: z.literal('reopen') }),
+    z.object({ type: z.literal('set-due-date'), dueDate }),
+    z.object({ type: z.literal('shift-due-date'), days: z.number().int().min(-365).max(365) }),
+  ]),
+})
+
+export const bulkDeleteTodosSchema = z.object({
+  ids: bulkIds,
+})
+
+export const bulkRestoreTodosSchema = z.object({
+  ids: bulkIds,
+})
+
+export const updateTagSchema = z
+  .object({
+    name: z.string().trim().min(1).max(32).optional(),
+    color: z.enum(TAG_COLORS).optional(),
+  })
+  .strict()
+
+export const mergeTagsSchema = z.object({
+  sources: z.array(z.string().min(1)).min(1),
+  target: z.string().min(1),
+})
+
+const listName = z.string().trim().min(1).max(40)
+
+export const createListSchema = z.object({
+  name: listName,
+  color: z.enum(TAG_COLORS).optional(),
+})
+
+export const updateListSchema = z
+  .object({
+    name: listName.optional(),
+    color: z.enum(TAG_COLORS).optional(),
+  })
+  .strict()
+
+const commentBody = z.string().trim().min(1).max(2000)
+
+export const listCommentsQuerySchema = z.object({
+  todoId: z.string().min(1).optional(),
+})
+
+export const createCommentSchema = z.object({
+  author: z.string().trim().min(1).max(60),
+  body: commentBody,
+})
+
+export const updateCommentSchema = z.object({ body: commentBody }).strict()
+
+const viewName = z.string().trim().min(1).max(40)
+
+const viewFilters = z.object({
+  status: z.enum(STATUS_FILTERS),
+  sort: z.enum(SORT_VALUES),
+  search: z.string().max(200),
+  due: z.enum(DUE_FILTERS),
+  priority: z.enum(PRIORITY_FILTERS),
+  tags: z.array(z.string().trim().min(1).max(32)).max(20),
+})
+
+export const createViewSchema = z.object({
+  name: viewName,
+  listId,
+  filters: viewFilters,
+  pinned: z.boolean().optional(),
+  isDefault: z.boolean().optional(),
+})
+
+export const updateViewSchema = z
+  .object({
+    name: viewName.optional(),
+    listId: listId.optional(),
+    filters: viewFilters.optional(),
+    pinned: z.boolean().optional(),
+    isDefault: z.boolean().optional(),
+  })
+  .strict()
@@ -2,16 +2,19 @@ import './App.css'
 
 import { QueryProvider } from './providers/QueryProvider'
 import { ToastProvider } from './components/toast/ToastProvider'
+import { PreferencesProvider } from './components/preferences/PreferencesProvider'
 import { TodoPage } from './features/todos/components/TodoPage'
 
 function App() {
   return (
     <QueryProvider>
-      <ToastProvider>
-        <div className="app-shell">
-          <TodoPage />
-        </div>
-      </ToastProvider>
+      <PreferencesProvider>
+        <ToastProvider>
+          <div className="app-shell">
+            <TodoPage />
+          </div>
+        </ToastProvider>
+      </PreferencesProvider>
     </QueryProvider>
   )
 }
@@ -0,0 +1,40 @@
+import { useCallback, useMemo, useState, type ReactNode } from 'react'
+
+import { getLocalTimeZone, isValidTimeZone } from '../../utils/date'
+import { PreferencesContext, type Preferences } from './preferencesContext'
+
+const PREFERENCES_KEY = 'production-grade-todo::preferences'
+
+const readPreferences = (): Preferences => {
+  const defaults: Preferences = { timeZone: getLocalTimeZone(), displayName: '' }
+  try {
+    const raw = window.localStorage.getItem(PREFERENCES_KEY)
+    const stored = raw ? (JSON.parse(raw) as Partial<Preferences>) : {}
+    return {
+      timeZone: stored.timeZone && isValidTimeZone(stored.timeZone) ? stored.timeZone : defaults.timeZone,
+      displayName: typeof stored.displayName === 'string' ? stored.displayName : defaults.displayName,
+    }
+  } catch {
+    return defaults
+  }
+}
+
+export const PreferencesProvider = ({ children }: { children: ReactNode }) => {
+  const [preferences, setPreferences] = useState(readPreferences)
+
+  const update = useCallback((patch: Partial<Preferences>) => {
+    setPreferences((current) => {
+      const next = { ...current, ...patch }
+      try {
+        window.localStorage.setItem(PREFERENCES_KEY, JSON.stringify(next))
+      } catch {
+        // Preferences still apply for this session when storage is unavailable.
+      }
+      return next
+    })
+  }, [])
+
+  const value = useMemo(() => ({ ...preferences, update }), [preferences, update])
+
+  return <PreferencesContext.Provider value={value}>{children}</PreferencesContext.Provider>
+}
@@ -0,0 +1,29 @@
+import { useMemo, type ChangeEvent } from 'react'
+
+import { listTimeZones } from '../../utils/date'
+import { usePreferences } from './preferencesContext'
+
+export const TimeZoneSelect = () => {
+  const { timeZone, update } = usePreferences()
+  const options = useMemo(() => {
+    const zones = listTimeZones()
+    return zones.includes(timeZone) ? zones : [timeZone, ...zones]
+  }, [timeZone])
+
+  const handleChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    update({ timeZone: event.target.value })
+  }
+
+  return (
+    <label className="select-field">
+      <span className="select-field__label">Time zone</span>
+      <select value={timeZone} onChange={handleChange}>
+        {options.map((zone) => (
+          <option key={zone} value={zone}>
+            {zone.replace(/_/g, ' ')}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react'
+
+export type Preferences = {
+  timeZone: string
+  /** Signs comments; empty until the user first comments. */
+  displayName: string
+}
+
+export type PreferencesContextValue = Preferences & {
+  update: (patch: Partial<Preferences>) => void
+}
+
+export const PreferencesContext = createContext<PreferencesContextValue | undefined>(undefined)
+
+export const usePreferences = () => {
+  const context = useContext(PreferencesContext)
+  if (!context) {
+    throw new Error('usePreferences must be used within a PreferencesProvider')
+  }
+  return context
+}
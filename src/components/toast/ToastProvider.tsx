@@ -8,11 +8,16 @@ import {
   useState,
   type ReactNode,
 } from 'react'
-import { AlertTriangle, CheckCircle2, Info, X, XCircle } from 'lucide-react'
+import { AlertTriangle, CheckCircle2, Info, Loader2, X, XCircle } from 'lucide-react'
 import { nanoid } from 'nanoid'
 import clsx from 'clsx'
 
-type ToastIntent = 'success' | 'info' | 'warning' | 'error'
+type ToastIntent = 'success' | 'info' | 'warning' | 'error' | 'loading'
+
+type ToastAction = {
+  label: string
+  onClick: () => void
+}
 
 type ToastRecord = {
   id: string
@@ -20,65 +25,169 @@ type ToastRecord = {
   description?: string
   intent: ToastIntent
   duration?: number
+  actions?: ToastAction[]
 }
 
 type ToastOptions = Omit<ToastRecord, 'id'> & { id?: string }
 
+type ToastContent = Pick<ToastRecord, 'title' | 'description' | 'actions' | 'duration'>
+
+type PromiseToastOptions<T> = {
+  loading: ToastContent
+  success: ToastContent | ((value: T) => ToastContent)
+  error: ToastContent | ((error: unknown) => ToastContent)
+}
+
 type ToastContextValue = {
   push: (options: ToastOptions) => string
   dismiss: (id: string) => void
+  promise: <T>(promise: Promise<T>, options: PromiseToastOptions<T>) => string
+}
+
+type ToastTimer = {
+  timeoutId: ReturnType<typeof setTimeout> | null
+  remaining: number
+  startedAt: number
 }
 
 const ToastContext = createContext<ToastContextValue | undefined>(undefined)
 
 const DEFAULT_DURATION = 5000
+const ACTION_DURATION = 8000
+const MAX_VISIBLE = 3
+
+const resolveDuration = (toast: ToastRecord) => {
+  if (toast.duration !== undefined) return toast.duration
+  if (toast.intent === 'loading') return Infinity
+  return toast.actions?.length ? ACTION_DURATION : DEFAULT_DURATION
+}
 
 export const ToastProvider = ({ children }: { children: ReactNode }) => {
   const [toasts, setToasts] = useState<ToastRecord[]>([])
-  const timers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map())
-
-  const dropToast = useCallback((id: string) => {
-    setToasts((prev) => prev.filter((toast) => toast.id !== id))
-    const timeoutId = timers.current.get(id)
-    if (timeoutId) {
-      clearTimeout(timeoutId)
-      timers.current.delete(id)
+  const timers = useRef<Map<string, ToastTimer>>(new Map())
+
+  const clearTimer = useCallback((id: string) => {
+    const timer = timers.current.get(id)
+    if (timer?.timeoutId) {
+      clearTimeout(timer.timeoutId)
     }
+    timers.current.delete(id)
   }, [])
 
+  const dropToast = useCallback(
+    (id: string) => {
+      setToasts((prev) => prev.filter((toast) => toast.id !== id))
+      clearTimer(id)
+    },
+    [clearTimer],
+  )
+
+  const startTimer = useCallback(
+    (id: string, duration: number) => {
+      if (!Number.isFinite(duration) || duration <= 0) return
+      timers.current.set(id, {
+        timeoutId: setTimeout(() => dropToast(id), duration),
+        remaining: duration,
+        startedAt: Date.now(),
+      })
+    },
+    [dropToast],
+  )
+
+  const pause = useCallback((id: string) => {
+    const timer = timers.current.get(id)
+    if (!timer?.timeoutId) return
+    clearTimeout(timer.timeoutId)
+    timers.current.set(id, {
+      timeoutId: null,
+      remaining: Math.max(0, timer.remaining - (Date.now() - timer.startedAt)),
+      startedAt: timer.startedAt,
+    })
+  }, [])
+
+  const resume = useCallback(
+    (id: string) => {
+      const timer = timers.current.get(id)
+      if (!timer || timer.timeoutId) return
+      startTimer(id, timer.remaining)
+    },
+    [startTimer],
+  )
+
   const push = useCallback(
     (options: ToastOptions) => {
       const id = options.id ?? nanoid()
+      // Replacing a toast (e.g. a promise settling) restarts its timer with the new duration.
+      clearTimer(id)
       setToasts((prev) => {
-        const next = prev.filter((toast) => toast.id !== id)
-        next.push({ ...options, id })
+        const record = { ...options, id }
+        const index = prev.findIndex((toast) => toast.id === id)
+        if (index === -1) {
+          return [...prev, record]
+        }
+        const next = [...prev]
+        next[index] = record
         return next
       })
+      return id
+    },
+    [clearTimer],
+  )
 
-      const duration = options.duration ?? DEFAULT_DURATION
-      if (Number.isFinite(duration) && duration > 0) {
-        const timeoutId = setTimeout(() => dropToast(id), duration)
-        timers.current.set(id, timeoutId)
-      }
-
+  const promise = useCallback(
+    <T,>(pending: Promise<T>, options: PromiseToastOptions<T>) => {
+      const id = push({ ...options.loading, intent: 'loading' })
+      pending.then(
+        (value) => {
+          const content = typeof options.success === 'function' ? options.success(value) : options.success
+          push({ ...content, id, intent: 'success' })
+        },
+        (error: unknown) => {
+          const content = typeof options.error === 'function' ? options.error(error) : options.error
+          push({ ...content, id, intent: 'error' })
+        },
+      )
       return id
     },
-    [dropToast],
+    [push],
   )
 
+  const visibleToasts = useMemo(() => toasts.slice(0, MAX_VISIBLE), [toasts])
+
+  // Queued toasts only start counting down once they become visible.
+  useEffect(() => {
+    visibleToasts.forEach((toast) => {
+      if (!timers.current.has(toast.id)) {
+        startTimer(toast.id, resolveDuration(toast))
+      }
+    })
+  }, [startTimer, visibleToasts])
+
   useEffect(() => {
+    const activeTimers = timers.current
     return () => {
-      timers.current.forEach((timeoutId) => clearTimeout(timeoutId))
-      timers.current.clear()
+      activeTimers.forEach((timer) => {
+        if (timer.timeoutId) clearTimeout(timer.timeoutId)
+      })
+      activeTimers.clear()
     }
   }, [])
 
-  const value = useMemo<ToastContextValue>(() => ({ push, dismiss: dropToast }), [dropToast, push])
+  const value = useMemo<ToastContextValue>(
+    () => ({ push, dismiss: dropToast, promise }),
+    [dropToast, promise, push],
+  )
 
   return (
     <ToastContext.Provider value={value}>
       {children}
-      <ToastViewport toasts={toasts} onDismiss={dropToast} />
+      <ToastViewport
+        toasts={visibleToasts}
+        queuedCount={toasts.length - visibleToasts.length}
+        onDismiss={dropToast}
+        onPause={pause}
+        onResume={resume}
+      />
     </ToastContext.Provider>
   )
 }
@@ -93,7 +202,10 @@ export const useToast = () => {
 
 type ToastViewportProps = {
   toasts: ToastRecord[]
+  queuedCount: number
   onDismiss: (id: string) => void
+  onPause: (id: string) => void
+  onResume: (id: string) => void
 }
 
 const intentIconMap: Record<ToastIntent, ReactNode> = {
@@ -101,9 +213,10 @@ const intentIconMap: Record<ToastIntent, ReactNode> = {
   info: <Info aria-hidden="true" />,
   warning: <AlertTriangle aria-hidden="true" />,
   error: <XCircle aria-hidden="true" />,
+  loading: <Loader2 aria-hidden="true" className="spin" />,
 }
 
-const ToastViewport = ({ toasts, onDismiss }: ToastViewportProps) => {
+const ToastViewport = ({ toasts, queuedCount, onDismiss, onPause, onResume }: ToastViewportProps) => {
   if (toasts.length === 0) return null
 
   return (
@@ -115,6 +228,10 @@ const ToastViewport = ({ toasts, onDismiss }: ToastViewportProps) => {
           aria-live="polite"
           aria-atomic="true"
           className={clsx('toast', `toast--${toast.intent}`)}
+          onMouseEnter={() => onPause(toast.id)}
+          onMouseLeave={() => onResume(toast.id)}
+          onFocus={() => onPause(toast.id)}
+          onBlur={() => onResume(toast.id)}
         >
           <div className="toast__icon" aria-hidden="true">
             {intentIconMap[toast.intent]}
@@ -122,6 +239,23 @@ const ToastViewport = ({ toasts, onDismiss }: ToastViewportProps) => {
           <div className="toast__content">
             <p className="toast__title">{toast.title}</p>
             {toast.description ? <p className="toast__description">{toast.description}</p> : null}
+            {toast.actions?.length ? (
+              <div className="toast__actions">
+                {toast.actions.map((action) => (
+                  <button
+                    key={action.label}
+                    type="button"
+                    className="toast__action"
+                    onClick={() => {
+                      onDismiss(toast.id)
+                      action.onClick()
+                    }}
+                  >
+                    {action.label}
+                  </button>
+                ))}
+              </div>
+            ) : null}
           </div>
           <button
             type="button"
@@ -133,6 +267,7 @@ const ToastViewport = ({ toasts, onDismiss }: ToastViewportProps) => {
           </button>
         </div>
       ))}
+      {queuedCount > 0 ? <p className="toast-viewport__queued">+{queuedCount} more</p> : null}
     </div>
   )
 }
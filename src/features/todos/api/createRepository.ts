@@ -0,0 +1,55 @@
+import type { AttachmentRepository, OutboxStore, StorageAdapter, TodoRepository } from './repository'
+import { createAttachmentRepository } from './repositories/attachmentRepository'
+import { createHttpRepository } from './repositories/httpRepository'
+import { createLocalRepository, DEFAULT_TRASH_RETENTION_DAYS } from './repositories/localRepository'
+import { createIndexedDbAttachmentStore } from './stores/indexedDbAttachmentStore'
+import { createIndexedDbStore } from './stores/indexedDbStore'
+import { createLocalStorageOutboxStore } from './stores/localStorageOutboxStore'
+import { createLocalStorageStore } from './stores/localStorageStore'
+import { createMemoryAttachmentStore } from './stores/memoryAttachmentStore'
+import { createMemoryOutboxStore } from './stores/memoryOutboxStore'
+import { createMemoryStore } from './stores/memoryStore'
+
+const DEFAULT_API_URL = 'http://localhost:4000'
+
+const parseRetentionDays = (value: string | undefined) => {
+  const parsed = Number(value)
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+export const trashRetentionDays = parseRetentionDays(import.meta.env.VITE_TRASH_RETENTION_DAYS)
+
+export const createRepository = (adapter: StorageAdapter): TodoRepository => {
+  switch (adapter) {
+    case 'memory':
+      return createLocalRepository(createMemoryStore(), { trashRetentionDays })
+    case 'indexeddb':
+      return createLocalRepository(createIndexedDbStore(), { trashRetentionDays })
+    case 'http':
+      return createHttpRepository({
+        baseUrl: import.meta.env.VITE_TODO_API_URL ?? DEFAULT_API_URL,
+        timeoutMs: import.meta.env.VITE_TODO_API_TIMEOUT_MS ? Number(import.meta.env.VITE_TODO_API_TIMEOUT_MS) : undefined,
+      })
+    case 'local':
+    default:
+      return createLocalRepository(createLocalStorageStore(), { trashRetentionDays })
+  }
+}
+
+/** Attachments live in IndexedDB whatever the todo storage, except with the in-memory adapter. */
+export const createAttachmentRepositoryFor = (adapter: StorageAdapter): AttachmentRepository =>
+  createAttachmentRepository(adapter === 'memory' ? createMemoryAttachmentStore() : createIndexedDbAttachmentStore())
+
+/** Only the HTTP adapter ever queues changes, but every adapter gets an outbox so the facade treats them alike. */
+export const createOutboxStoreFor = (adapter: StorageAdapter): OutboxStore =>
+  adapter === 'memory' ? createMemoryOutboxStore() : createLocalStorageOutboxStore()
+
+const isStorageAdapter = (value: unknown): value is StorageAdapter =>
+  value === 'local' || value === 'memory' || value === 'indexeddb' || value === 'http'
+
+export const resolveStorageAdapter = (value: string | undefined): StorageAdapter => {
+  if (!value) return 'local'
+  if (isStorageAdapter(value)) return value
+  console.warn(`[todoApi] Unknown storage adapter "${value}", falling back to localStorage`)
+  return 'local'
+}
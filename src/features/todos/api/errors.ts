@@ -0,0 +1,177 @@
+export class TodoNotFoundError extends Error {
+  readonly id: string
+
+  constructor(id: string) {
+    super('Todo not found')
+    this.name = 'TodoNotFoundError'
+    this.id = id
+  }
+}
+
+export class ChecklistItemNotFoundError extends Error {
+  readonly todoId: string
+  readonly itemId: string
+
+  constructor(todoId: string, itemId: string) {
+    super('Checklist item not found')
+    this.name = 'ChecklistItemNotFoundError'
+    this.todoId = todoId
+    this.itemId = itemId
+  }
+}
+
+export class TagNotFoundError extends Error {
+  readonly tag: string
+
+  constructor(tag: string) {
+    super(`Tag "${tag}" not found`)
+    this.name = 'TagNotFoundError'
+    this.tag = tag
+  }
+}
+
+export class TagConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TagConflictError'
+  }
+}
+
+export class ListNotFoundError extends Error {
+  readonly listId: string
+
+  constructor(listId: string) {
+    super('List not found')
+    this.name = 'ListNotFoundError'
+    this.listId = listId
+  }
+}
+
+export class ListConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ListConflictError'
+  }
+}
+
+export class SavedViewNotFoundError extends Error {
+  readonly viewId: string
+
+  constructor(viewId: string) {
+    super('Saved view not found')
+    this.name = 'SavedViewNotFoundError'
+    this.viewId = viewId
+  }
+}
+
+export class SavedViewConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SavedViewConflictError'
+  }
+}
+
+export class AttachmentNotFoundError extends Error {
+  readonly attachmentId: string
+
+  constructor(attachmentId: string) {
+    super('Attachment not found')
+    this.name = 'AttachmentNotFoundError'
+    this.attachmentId = attachmentId
+  }
+}
+
+export class AttachmentQuotaError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AttachmentQuotaError'
+  }
+}
+
+export class CommentNotFoundError extends Error {
+  readonly commentId: string
+
+  constructor(commentId: string) {
+    super('Comment not found')
+    this.name = 'CommentNotFoundError'
+    this.commentId = commentId
+  }
+}
+
+export class InvalidCommentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidCommentError'
+  }
+}
+
+export class InvalidCursorError extends Error {
+  readonly cursor: string
+
+  constructor(cursor: string) {
+    super('The page cursor is invalid or has expired')
+    this.name = 'InvalidCursorError'
+    this.cursor = cursor
+  }
+}
+
+export class SearchSyntaxError extends Error {
+  /** Zero-based offset of the token that could not be parsed. */
+  readonly position: number
+
+  constructor(message: string, position: number) {
+    super(message)
+    this.name = 'SearchSyntaxError'
+    this.position = position
+  }
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportFormatError'
+  }
+}
+
+export class ReorderConflictError extends Error {
+  constructor(message = 'The order changed in the meantime. Refresh and try again.') {
+    super(message)
+    this.name = 'ReorderConflictError'
+  }
+}
+
+export class OutboxPendingError extends Error {
+  constructor(message = 'Earlier changes are still waiting to sync. Try again once they have been sent.') {
+    super(message)
+    this.name = 'OutboxPendingError'
+  }
+}
+
+export class ApiError extends Error {
+  readonly status: number
+  readonly code?: string
+
+  constructor(message: string, status: number, code?: string) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.code = code
+  }
+}
+
+export class NetworkError extends Error {
+  readonly cause?: unknown
+
+  constructor(message: string, cause?: unknown) {
+    super(message)
+    this.name = 'NetworkError'
+    this.cause = cause
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor(timeoutMs: number) {
+    super(`The server did not respond within ${Math.round(timeoutMs / 1000)} seconds.`)
+    this.name = 'TimeoutError'
+  }
+}
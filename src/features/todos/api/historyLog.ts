@@ -0,0 +1,68 @@
+import { nanoid } from 'nanoid'
+
+import {
+  TODO_HISTORY_FIELDS,
+  type Todo,
+  type TodoFieldChange,
+  type TodoHistoryAction,
+  type TodoHistoryActor,
+  type TodoHistoryEntry,
+} from '../types'
+
+/** Older entries of a todo are dropped beyond this, so a long-lived todo cannot fill the storage quota. */
+export const MAX_HISTORY_PER_TODO = 100
+
+const diffFields = (before: Todo, after: Todo): TodoFieldChange[] =>
+  TODO_HISTORY_FIELDS.flatMap((field) =>
+    before[field] === after[field] ? [] : [{ field, from: before[field], to: after[field] } as TodoFieldChange],
+  )
+
+/**
+ * Appends an entry for every todo that `next` creates, changes, trashes or restores compared to `previous`, and
+ * drops the entries of todos that are gone. A todo that appears as another's next occurrence is attributed to the
+ * recurrence rather than to `actor`.
+ */
+export const recordHistory = (
+  history: TodoHistoryEntry[],
+  previous: Todo[],
+  next: Todo[],
+  actor: TodoHistoryActor,
+  at = new Date().toISOString(),
+): TodoHistoryEntry[] => {
+  const before = new Map(previous.map((todo) => [todo.id, todo]))
+  const spawned = new Set(next.map((todo) => todo.nextOccurrenceId))
+  const entries: TodoHistoryEntry[] = []
+  const append = (todoId: string, action: TodoHistoryAction, changes: TodoFieldChange[], by = actor) =>
+    entries.push({ id: nanoid(), todoId, action, actor: by, changes, at })
+
+  next.forEach((todo) => {
+    const existing = before.get(todo.id)
+    if (!existing) {
+      append(todo.id, 'created', [], spawned.has(todo.id) ? 'recurrence' : actor)
+      return
+    }
+    if (existing === todo) return
+    if (!existing.deletedAt && todo.deletedAt) append(todo.id, 'deleted', [])
+    if (existing.deletedAt && !todo.deletedAt) append(todo.id, 'restored', [])
+    const changes = diffFields(existing, todo)
+    if (changes.length > 0) append(todo.id, 'updated', changes)
+  })
+
+  if (entries.length === 0 && next.length === previous.length) return history
+  return pruneHistory([...history, ...entries], next)
+}
+
+/** Keeps the entries of todos in `todos`, at most `MAX_HISTORY_PER_TODO` of the latest for each. */
+export const pruneHistory = (history: TodoHistoryEntry[], todos: Todo[]) => {
+  const ids = new Set(todos.map((todo) => todo.id))
+  const counts = new Map<string, number>()
+  return history
+    .filter((entry) => ids.has(entry.todoId))
+    .reverse()
+    .filter((entry) => {
+      const count = (counts.get(entry.todoId) ?? 0) + 1
+      counts.set(entry.todoId, count)
+      return count <= MAX_HISTORY_PER_TODO
+    })
+    .reverse()
+}
@@ -0,0 +1,178 @@
+import { nanoid } from 'nanoid'
+
+import type { Todo } from '../types'
+import type { OutboxEntry, OutboxOperation, OutboxStore, TodoRepository } from './repository'
+import { ApiError, NetworkError, TimeoutError } from './errors'
+
+const PROVISIONAL_ID_PREFIX = 'pending-'
+const LOCK_NAME = 'production-grade-todo::outbox'
+
+const BASE_RETRY_DELAY_MS = 2_000
+const MAX_RETRY_DELAY_MS = 5 * 60_000
+
+/** Todos created while the backend was unreachable carry a provisional id until their create is replayed. */
+export const createProvisionalId = () => `${PROVISIONAL_ID_PREFIX}${nanoid()}`
+
+export const isProvisionalId = (id: string) => id.startsWith(PROVISIONAL_ID_PREFIX)
+
+/**
+ * Whether a change failed without reaching the backend, so it is safe to send again later. Timeouts are
+ * excluded: the server may have applied the change before the response was lost.
+ */
+export const isUnreachable = (error: unknown) =>
+  (error instanceof NetworkError && !(error instanceof TimeoutError)) ||
+  (error instanceof ApiError && [502, 503, 504].includes(error.status))
+
+/** 2s, 4s, 8s… up to five minutes between attempts. */
+export const retryDelay = (attempts: number) =>
+  Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1))
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error')
+
+const send = (repository: TodoRepository, operation: OutboxOperation): Promise<Todo> => {
+  switch (operation.type) {
+    case 'create':
+      return repository.create(operation.input)
+    case 'update':
+      return repository.update(operation.todoId, operation.input, operation.options)
+    case 'toggle':
+      return repository.toggleCompletion(operation.todoId, operation.options)
+    case 'delete':
+      return repository.delete(operation.todoId)
+  }
+}
+
+// Every open tab replays the same stored outbox; where the browser has Web Locks only one does so at a time.
+const withReplayLock = async <T,>(run: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks ? await navigator.locks.request(LOCK_NAME, run) : run()
+
+export type Outbox = ReturnType<typeof createOutbox>
+
+export const createOutbox = (store: OutboxStore) => {
+  let snapshot: OutboxEntry[] = []
+  let loaded = false
+  const listeners = new Set<() => void>()
+
+  const publish = (entries: OutboxEntry[]) => {
+    snapshot = entries
+    listeners.forEach((listener) => listener())
+  }
+
+  const load = async () => {
+    const entries = await store.read()
+    loaded = true
+    publish(entries)
+    return entries
+  }
+
+  const save = async (entries: OutboxEntry[]) => {
+    await store.write(entries)
+    publish(entries)
+  }
+
+  const update = async (mutate: (entries: OutboxEntry[]) => OutboxEntry[]) => save(mutate(await store.read()))
+
+  store.watch(() => {
+    void load()
+  })
+
+  return {
+    /** The entries as last read, oldest first; stable between changes, as `useSyncExternalStore` expects. */
+    getSnapshot: () => snapshot,
+
+    subscribe(listener: () => void) {
+      listeners.add(listener)
+      if (!loaded) void load()
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+
+    /** Whether changes are waiting to be sent; later changes queue behind them to keep their order. */
+    async hasPending() {
+      const entries = loaded ? snapshot : await load()
+      return entries.some((entry) => entry.status === 'pending')
+    },
+
+    /** Queues a change. Pass the error when it was just tried and failed, so the retry waits its turn. */
+    async enqueue(operation: OutboxOperation, title: string, error?: unknown) {
+      const now = Date.now()
+      const entry: OutboxEntry = {
+        id: nanoid(),
+        operation,
+        title,
+        status: 'pending',
+        attempts: error ? 1 : 0,
+        lastError: error ? describeError(error) : null,
+        nextAttemptAt: error ? new Date(now + retryDelay(1)).toISOString() : null,
+        queuedAt: new Date(now).toISOString(),
+      }
+      await update((entries) => [...entries, entry])
+      return entry
+    },
+
+    /**
+     * Sends the pending entries in the order they were queued, resolving to the todos the backend stored.
+     * Stops at the first entry the backend cannot be reached for and schedules its next attempt; an entry the
+     * backend rejects is marked `failed` and the rest carry on. Provisional ids are swapped for real ones as
+     * their creates go through.
+     */
+    replay(repository: TodoRepository) {
+      return withReplayLock(async () => {
+        const stored: Todo[] = []
+
+        for (const { id: entryId } of await store.read()) {
+          // Read afresh each time: changes are queued while the replay runs, and an earlier create may have
+          // given this entry its todo's real id.
+          const entry = (await store.read()).find(({ id }) => id === entryId)
+          if (!entry || entry.status !== 'pending') continue
+          try {
+            const todo = await send(repository, entry.operation)
+            stored.push(todo)
+            const provisionalId = entry.operation.type === 'create' ? entry.operation.todoId : null
+            await update((entries) =>
+              entries
+                .filter(({ id }) => id !== entry.id)
+                .map((queued) =>
+                  queued.operation.todoId === provisionalId
+                    ? { ...queued, operation: { ...queued.operation, todoId: todo.id } }
+                    : queued,
+                ),
+            )
+          } catch (error) {
+            const attempts = entry.attempts + 1
+            const unreachable = isUnreachable(error)
+            await update((entries) =>
+              entries.map((queued) =>
+                queued.id === entry.id
+                  ? {
+                      ...queued,
+                      attempts,
+                      status: unreachable ? 'pending' : 'failed',
+                      lastError: describeError(error),
+                      nextAttemptAt: unreachable ? new Date(Date.now() + retryDelay(attempts)).toISOString() : null,
+                    }
+                  : queued,
+              ),
+            )
+            if (unreachable) break
+          }
+        }
+        return stored
+      })
+    },
+
+    /** Puts a failed entry back in the queue to be sent on the next replay. */
+    async retry(id: string) {
+      await update((entries) =>
+        entries.map((entry) =>
+          entry.id === id ? { ...entry, status: 'pending', attempts: 0, nextAttemptAt: null } : entry,
+        ),
+      )
+    },
+
+    async discard(id: string) {
+      await update((entries) => entries.filter((entry) => entry.id !== id))
+    },
+  }
+}
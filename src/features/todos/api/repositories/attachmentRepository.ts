@@ -0,0 +1,116 @@
+import { nanoid } from 'nanoid'
+
+import type { Attachment } from '../../types'
+import type { AttachmentRepository, AttachmentStore } from '../repository'
+import { AttachmentNotFoundError, AttachmentQuotaError } from '../errors'
+import { formatFileSize } from '../../../../utils/fileSize'
+
+const MB = 1024 * 1024
+
+export type AttachmentLimits = {
+  maxFileBytes: number
+  maxFilesPerTodo: number
+  maxTodoBytes: number
+  /** Across every todo; the browser's own storage quota is checked as well where it reports one. */
+  maxTotalBytes: number
+}
+
+export const DEFAULT_ATTACHMENT_LIMITS: AttachmentLimits = {
+  maxFileBytes: 10 * MB,
+  maxFilesPerTodo: 10,
+  maxTodoBytes: 25 * MB,
+  maxTotalBytes: 200 * MB,
+}
+
+const totalSize = (attachments: Attachment[]) => attachments.reduce((sum, attachment) => sum + attachment.size, 0)
+
+const estimateFreeBytes = async () => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+  try {
+    const { quota, usage } = await navigator.storage.estimate()
+    return quota === undefined ? null : quota - (usage ?? 0)
+  } catch {
+    return null
+  }
+}
+
+export const createAttachmentRepository = (
+  store: AttachmentStore,
+  limits: AttachmentLimits = DEFAULT_ATTACHMENT_LIMITS,
+): AttachmentRepository => {
+  const assertFits = async (todoId: string, file: File) => {
+    if (file.size > limits.maxFileBytes) {
+      throw new AttachmentQuotaError(`"${file.name}" is larger than the ${formatFileSize(limits.maxFileBytes)} limit`)
+    }
+    const attachments = await store.list()
+    const ofTodo = attachments.filter((attachment) => attachment.todoId === todoId)
+    if (ofTodo.length >= limits.maxFilesPerTodo) {
+      throw new AttachmentQuotaError(`A todo can have at most ${limits.maxFilesPerTodo} attachments`)
+    }
+    if (totalSize(ofTodo) + file.size > limits.maxTodoBytes) {
+      throw new AttachmentQuotaError(
+        `"${file.name}" would take this todo's attachments over ${formatFileSize(limits.maxTodoBytes)}`,
+      )
+    }
+    if (totalSize(attachments) + file.size > limits.maxTotalBytes) {
+      throw new AttachmentQuotaError(
+        `Attachments are limited to ${formatFileSize(limits.maxTotalBytes)} in total; remove some to make room`,
+      )
+    }
+    const free = await estimateFreeBytes()
+    if (free !== null && file.size > free) {
+      throw new AttachmentQuotaError('The browser has no storage left for this file')
+    }
+  }
+
+  return {
+    async list() {
+      const attachments = await store.list()
+      return attachments.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    },
+
+    async getContent(id) {
+      const content = await store.read(id)
+      if (!content) {
+        throw new AttachmentNotFoundError(id)
+      }
+      return content
+    },
+
+    async add(todoId, file) {
+      await assertFits(todoId, file)
+      const attachment: Attachment = {
+        id: nanoid(),
+        todoId,
+        name: file.name || 'Untitled',
+        type: file.type || 'application/octet-stream',
+        size: file.size,
+        createdAt: new Date().toISOString(),
+      }
+      await store.write(attachment, file)
+      return attachment
+    },
+
+    async delete(id) {
+      const attachments = await store.list()
+      if (!attachments.some((attachment) => attachment.id === id)) {
+        throw new AttachmentNotFoundError(id)
+      }
+      await store.delete([id])
+    },
+
+    async deleteForTodos(todoIds) {
+      const purged = new Set(todoIds)
+      const attachments = await store.list()
+      await store.delete(attachments.filter((attachment) => purged.has(attachment.todoId)).map(({ id }) => id))
+    },
+
+    async prune(existingTodoIds) {
+      const existing = new Set(existingTodoIds)
+      const attachments = await store.list()
+      const orphans = attachments.filter((attachment) => !existing.has(attachment.todoId)).map(({ id }) => id)
+      await store.delete(orphans)
+      return orphans.length
+    },
+  }
+}
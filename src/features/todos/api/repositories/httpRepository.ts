@@ -0,0 +1,187 @@
+import type {
+  BulkTodoChange,
+  CreateCommentInput,
+  CreateSavedViewInput,
+  CreateTodoInput,
+  CreateTodoListInput,
+  SavedView,
+  Tag,
+  TagSummary,
+  Todo,
+  TodoComment,
+  TodoHistoryEntry,
+  TodoList,
+  TodoListSummary,
+  UpdateCommentInput,
+  UpdateSavedViewInput,
+  UpdateTagInput,
+  UpdateTodoInput,
+  UpdateTodoListInput,
+} from '../../types'
+import type { CompletionOptions, PaginatedTodos, RequestOptions, TodoQuery, TodoRepository } from '../repository'
+import { ApiError, NetworkError, TimeoutError } from '../errors'
+
+type HttpRepositoryOptions = {
+  baseUrl: string
+  timeoutMs?: number
+}
+
+type RequestInitWithSignal = Omit<RequestInit, 'signal'> & RequestOptions
+
+const DEFAULT_TIMEOUT_MS = 10_000
+
+const readErrorBody = async (response: Response): Promise<{ message?: string; code?: string }> => {
+  try {
+    const body = await response.json()
+    return {
+      message: typeof body?.message === 'string' ? body.message : undefined,
+      code: typeof body?.code === 'string' ? body.code : undefined,
+    }
+  } catch {
+    return {}
+  }
+}
+
+export const createHttpRepository = ({
+  baseUrl,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+}: HttpRepositoryOptions): TodoRepository => {
+  const root = baseUrl.replace(/\/+$/, '')
+
+  const request = async <T,>(path: string, { signal, ...init }: RequestInitWithSignal = {}): Promise<T> => {
+    const controller = new AbortController()
+    let timedOut = false
+    const timeoutId = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeoutMs)
+
+    const forwardAbort = () => controller.abort()
+    if (signal?.aborted) {
+      controller.abort()
+    } else {
+      signal?.addEventListener('abort', forwardAbort, { once: true })
+    }
+
+    try {
+      let response: Response
+      try {
+        response = await fetch(`${root}${path}`, {
+          ...init,
+          signal: controller.signal,
+          headers: {
+            Accept: 'application/json',
+            ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+            ...init.headers,
+          },
+        })
+      } catch (error) {
+        if (timedOut) {
+          throw new TimeoutError(timeoutMs)
+        }
+        if (signal?.aborted) {
+          throw signal.reason ?? error
+        }
+        throw new NetworkError('Unable to reach the todo server. Check your connection and try again.', error)
+      }
+
+      if (!response.ok) {
+        const { message, code } = await readErrorBody(response)
+        throw new ApiError(message ?? `Request failed with status ${response.status}`, response.status, code)
+      }
+
+      if (response.status === 204) {
+        return undefined as T
+      }
+      return (await response.json()) as T
+    } finally {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', forwardAbort)
+    }
+  }
+
+  // Tags are repeated as `tag` parameters; unset and empty values are left out of the query string.
+  const toSearchParams = ({ tags = [], ...query }: TodoQuery) => {
+    const params = new URLSearchParams()
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') params.set(key, String(value))
+    })
+    tags.forEach((tag) => params.append('tag', tag))
+    return params.toString()
+  }
+
+  // Like a list's due-date filters, a completion is dated in the user's zone rather than the server's.
+  const withTimeZone = (path: string, { timeZone }: CompletionOptions = {}) =>
+    timeZone ? `${path}?timeZone=${encodeURIComponent(timeZone)}` : path
+
+  const todoPath = (id: string) => `/todos/${encodeURIComponent(id)}`
+  const tagPath = (name: string) => `/tags/${encodeURIComponent(name)}`
+  const listPath = (id: string) => `/lists/${encodeURIComponent(id)}`
+  const viewPath = (id: string) => `/views/${encodeURIComponent(id)}`
+  const commentPath = (id: string) => `/comments/${encodeURIComponent(id)}`
+
+  return {
+    list: (query = {}, options) => {
+      const search = toSearchParams(query)
+      return request<PaginatedTodos>(search ? `/todos?${search}` : '/todos', options)
+    },
+    get: (id, options) => request<Todo>(todoPath(id), options),
+    create: (input: CreateTodoInput) => request<Todo>('/todos', { method: 'POST', body: JSON.stringify(input) }),
+    update: (id, input: UpdateTodoInput, options) =>
+      request<Todo>(withTimeZone(todoPath(id), options), { method: 'PATCH', body: JSON.stringify(input) }),
+    toggleCompletion: (id, options) =>
+      request<Todo>(withTimeZone(`${todoPath(id)}/toggle`, options), { method: 'POST' }),
+    reorder: (id, input) => request<Todo>(`${todoPath(id)}/reorder`, { method: 'POST', body: JSON.stringify(input) }),
+    toggleChecklistItem: (id, itemId, options) =>
+      request<Todo>(withTimeZone(`${todoPath(id)}/checklist/${encodeURIComponent(itemId)}/toggle`, options), {
+        method: 'POST',
+      }),
+    bulkUpdate: (ids, change: BulkTodoChange, options) =>
+      request<Todo[]>(withTimeZone('/todos/bulk-update', options), {
+        method: 'POST',
+        body: JSON.stringify({ ids, change }),
+      }),
+    delete: (id) => request<Todo>(todoPath(id), { method: 'DELETE' }),
+    bulkDelete: (ids) => request<Todo[]>('/todos/bulk-delete', { method: 'POST', body: JSON.stringify({ ids }) }),
+    listTrash: (options) => request<Todo[]>('/trash', options),
+    restore: (id) => request<Todo>(`${todoPath(id)}/restore`, { method: 'POST' }),
+    bulkRestore: (ids) => request<Todo[]>('/todos/bulk-restore', { method: 'POST', body: JSON.stringify({ ids }) }),
+    purge: (id) => request<void>(`/trash/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+    history: (id, options) => request<TodoHistoryEntry[]>(`${todoPath(id)}/history`, options),
+    // The server owns its storage and quarantines unreadable data on its side.
+    listQuarantine: async () => [],
+    tags: {
+      list: (options) => request<TagSummary[]>('/tags', options),
+      update: (name, input: UpdateTagInput) =>
+        request<Tag>(tagPath(name), { method: 'PATCH', body: JSON.stringify(input) }),
+      merge: (sources, target) =>
+        request<Tag>('/tags/merge', { method: 'POST', body: JSON.stringify({ sources, target }) }),
+      delete: (name) => request<void>(tagPath(name), { method: 'DELETE' }),
+    },
+    lists: {
+      list: (options) => request<TodoListSummary[]>('/lists', options),
+      create: (input: CreateTodoListInput) =>
+        request<TodoList>('/lists', { method: 'POST', body: JSON.stringify(input) }),
+      update: (id, input: UpdateTodoListInput) =>
+        request<TodoList>(listPath(id), { method: 'PATCH', body: JSON.stringify(input) }),
+      delete: (id) => request<void>(listPath(id), { method: 'DELETE' }),
+    },
+    views: {
+      list: (options) => request<SavedView[]>('/views', options),
+      create: (input: CreateSavedViewInput) =>
+        request<SavedView>('/views', { method: 'POST', body: JSON.stringify(input) }),
+      update: (id, input: UpdateSavedViewInput) =>
+        request<SavedView>(viewPath(id), { method: 'PATCH', body: JSON.stringify(input) }),
+      delete: (id) => request<void>(viewPath(id), { method: 'DELETE' }),
+    },
+    comments: {
+      list: (todoId, options) =>
+        request<TodoComment[]>(todoId ? `/comments?todoId=${encodeURIComponent(todoId)}` : '/comments', options),
+      add: (todoId, input: CreateCommentInput) =>
+        request<TodoComment>(`${todoPath(todoId)}/comments`, { method: 'POST', body: JSON.stringify(input) }),
+      edit: (id, input: UpdateCommentInput) =>
+        request<TodoComment>(commentPath(id), { method: 'PATCH', body: JSON.stringify(input) }),
+      delete: (id) => request<void>(commentPath(id), { method: 'DELETE' }),
+    },
+  }
+}
@@ -0,0 +1,773 @@
+import { nanoid } from 'nanoid'
+
+import {
+  INBOX_LIST_ID,
+  type ChecklistItem,
+  type ChecklistItemInput,
+  type RecurrenceRule,
+  type SavedView,
+  type Todo,
+  type TodoComment,
+  type TodoHistoryActor,
+  type UpdateTodoInput,
+} from '../../types'
+import type { PaginatedTodos, TodoRepository, TodoStore } from '../repository'
+import { createEmptyState, type PersistedState } from '../schema'
+import {
+  ChecklistItemNotFoundError,
+  CommentNotFoundError,
+  InvalidCommentError,
+  InvalidCursorError,
+  ListConflictError,
+  ListNotFoundError,
+  ReorderConflictError,
+  SavedViewConflictError,
+  SavedViewNotFoundError,
+  TagConflictError,
+  TagNotFoundError,
+  TodoNotFoundError,
+} from '../errors'
+import { createSeedState } from '../seed'
+import { isSameTag, normalizeTagName, replaceTagOnTodos, resolveTags } from '../tagRegistry'
+import { pruneHistory, recordHistory } from '../historyLog'
+import { getNextDueDate } from '../../recurrence'
+import { applyBulkChange } from '../../bulk'
+import { rankBeforeAll, rankBetween } from '../../rank'
+import { DEFAULT_TODO_FILTERS, filterTodos } from '../../todoQuery'
+import { commentAuthorRule, commentBodyRule } from '../../todoRules'
+import { isCalendarDate, toCalendarDate } from '../../../../utils/date'
+import { clone } from '../../../../utils/clone'
+
+type LocalRepositoryOptions = {
+  latency?: { min: number; max: number }
+  seed?: boolean
+  trashRetentionDays?: number
+}
+
+const DEFAULT_LATENCY = { min: 120, max: 420 }
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+const DAY_IN_MS = 1000 * 60 * 60 * 24
+
+const sortByCreatedAtDesc = (todos: Todo[]) =>
+  [...todos].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+
+// Cursors are opaque to callers; they carry the offset of the next page into the sorted matches.
+const encodeCursor = (offset: number) => btoa(`offset:${offset}`)
+
+const decodeCursor = (cursor: string) => {
+  let decoded: string
+  try {
+    decoded = atob(cursor)
+  } catch {
+    throw new InvalidCursorError(cursor)
+  }
+  const match = /^offset:(\d+)$/.exec(decoded)
+  if (!match) {
+    throw new InvalidCursorError(cursor)
+  }
+  return Number(match[1])
+}
+
+const paginate = (todos: Todo[], cursor?: string | null, limit?: number): PaginatedTodos => {
+  const offset = cursor ? decodeCursor(cursor) : 0
+  const end = limit === undefined ? todos.length : offset + limit
+  return {
+    items: todos.slice(offset, end),
+    nextCursor: end < todos.length ? encodeCursor(end) : null,
+    totalCount: todos.length,
+  }
+}
+
+const normalizeChecklist = (items: ChecklistItemInput[]): ChecklistItem[] =>
+  items
+    .map((item) => ({ id: item.id ?? nanoid(), title: item.title.trim(), completed: item.completed ?? false }))
+    .filter((item) => item.title.length > 0)
+
+// Full timestamps are accepted for compatibility and reduced to their UTC calendar date.
+const normalizeDueDate = (value: string | null | undefined) => {
+  if (!value) return null
+  return isCalendarDate(value) ? value : toCalendarDate(new Date(value), 'UTC')
+}
+
+/** A due time only means something alongside a due date and the zone it was entered in. */
+const normalizeDueTime = (todo: Todo): Todo =>
+  todo.dueDate && todo.dueTime
+    ? { ...todo, dueTimeZone: todo.dueTimeZone ?? 'UTC' }
+    : { ...todo, dueTime: null, dueTimeZone: null }
+
+const parseCommentField = (rule: typeof commentBodyRule, value: string) => {
+  const result = rule.safeParse(value)
+  if (!result.success) {
+    throw new InvalidCommentError(result.error.issues[0]?.message ?? 'Invalid comment')
+  }
+  return result.data
+}
+
+// Purging a todo, by hand or once its trash retention runs out, deletes its comments with it. No other change
+// removes a todo, so comments on a missing todo can only come from damaged storage and are quarantined on load.
+const keepCommentsOf = (comments: TodoComment[], todos: Todo[]) => {
+  const ids = new Set(todos.map((todo) => todo.id))
+  return comments.filter((comment) => ids.has(comment.todoId))
+}
+
+const applyChecklistAutoCompletion = (todo: Todo): Todo => {
+  const allDone = todo.checklist.length > 0 && todo.checklist.every((item) => item.completed)
+  return todo.autoCompleteChecklist && allDone && !todo.completed ? { ...todo, completed: true } : todo
+}
+
+const applyUpdate = (existing: Todo, input: UpdateTodoInput): Todo =>
+  applyChecklistAutoCompletion(
+    normalizeDueTime({
+      ...existing,
+      ...(input.listId !== undefined ? { listId: input.listId } : {}),
+      ...('title' in input && input.title !== undefined ? { title: input.title.trim() } : {}),
+      ...('description' in input && input.description !== undefined
+        ? { description: input.description.trim() }
+        : {}),
+      ...('dueDate' in input ? { dueDate: normalizeDueDate(input.dueDate) } : {}),
+      ...('dueTime' in input ? { dueTime: input.dueTime || null, dueTimeZone: input.dueTimeZone ?? null } : {}),
+      ...('completed' in input && input.completed !== undefined ? { completed: input.completed } : {}),
+      ...(input.priority !== undefined ? { priority: input.priority } : {}),
+      ...(input.checklist !== undefined ? { checklist: normalizeChecklist(input.checklist) } : {}),
+      ...(input.autoCompleteChecklist !== undefined ? { autoCompleteChecklist: input.autoCompleteChecklist } : {}),
+      ...('recurrence' in input ? { recurrence: input.recurrence ?? null } : {}),
+      ...(input.reminders !== undefined ? { reminders: input.reminders } : {}),
+      updatedAt: new Date().toISOString(),
+    }),
+  )
+
+// The highest rank below `rank`, so a new todo can be slotted in directly above the one holding `rank`.
+const findRankAbove = (todos: Todo[], rank: string) =>
+  todos.reduce<string | null>(
+    (closest, todo) => (todo.rank < rank && (closest === null || todo.rank > closest) ? todo.rank : closest),
+    null,
+  )
+
+const createNextOccurrence = (
+  rule: RecurrenceRule,
+  todo: Todo,
+  completedAt: Date,
+  rank: string,
+  timeZone: string,
+): Todo => {
+  const now = completedAt.toISOString()
+  return {
+    ...todo,
+    id: nanoid(),
+    rank,
+    completed: false,
+    dueDate: getNextDueDate(rule, todo.dueDate, completedAt, timeZone),
+    checklist: todo.checklist.map((item) => ({ ...item, id: nanoid(), completed: false })),
+    nextOccurrenceId: null,
+    calendarUid: null,
+    createdAt: now,
+    updatedAt: now,
+    deletedAt: null,
+  }
+}
+
+/**
+ * Completing a recurring todo spawns its next occurrence, due relative to the completion day in `timeZone`.
+ * Reopening it retracts that occurrence again while it is still untouched (never edited or commented on), so
+ * an accidental tick (or Undo) does not leave a duplicate behind.
+ */
+const applyRecurrence = (
+  todos: Todo[],
+  comments: TodoComment[],
+  before: Todo,
+  after: Todo,
+  timeZone: string,
+): { todos: Todo[]; todo: Todo } => {
+  const replace = (todo: Todo, list = todos) => list.map((candidate) => (candidate.id === todo.id ? todo : candidate))
+
+  if (!before.completed && after.completed && after.recurrence && !after.nextOccurrenceId) {
+    const rank = rankBetween(findRankAbove(todos, after.rank), after.rank)
+    const next = createNextOccurrence(after.recurrence, after, new Date(), rank, timeZone)
+    const todo = { ...after, nextOccurrenceId: next.id }
+    return { todos: [next, ...replace(todo)], todo }
+  }
+
+  if (before.completed && !after.completed && after.nextOccurrenceId) {
+    const spawned = todos.find((candidate) => candidate.id === after.nextOccurrenceId)
+    const untouched =
+      spawned &&
+      !spawned.completed &&
+      !spawned.deletedAt &&
+      spawned.updatedAt === spawned.createdAt &&
+      !comments.some((comment) => comment.todoId === spawned.id)
+    if (!spawned || spawned.deletedAt || untouched) {
+      const todo = { ...after, nextOccurrenceId: null }
+      const remaining = untouched ? todos.filter((candidate) => candidate.id !== spawned.id) : todos
+      return { todos: replace(todo, remaining), todo }
+    }
+  }
+
+  return { todos: replace(after), todo: after }
+}
+
+export const createLocalRepository = (
+  store: TodoStore,
+  { latency = DEFAULT_LATENCY, seed = true, trashRetentionDays = DEFAULT_TRASH_RETENTION_DAYS }: LocalRepositoryOptions = {},
+): TodoRepository => {
+  const delay = async <T,>(value: T): Promise<T> => {
+    const wait = Math.floor(Math.random() * (latency.max - latency.min + 1)) + latency.min
+    if (wait <= 0) return value
+    return new Promise<T>((resolve) => {
+      setTimeout(() => resolve(value), wait)
+    })
+  }
+
+  const purgeExpiredTrash = async (state: PersistedState): Promise<PersistedState> => {
+    const cutoff = Date.now() - trashRetentionDays * DAY_IN_MS
+    const todos = state.todos.filter((todo) => !todo.deletedAt || new Date(todo.deletedAt).getTime() > cutoff)
+    if (todos.length === state.todos.length) {
+      return state
+    }
+
+    const next = {
+      ...state,
+      todos,
+      history: pruneHistory(state.history, todos),
+      comments: keepCommentsOf(state.comments, todos),
+    }
+    await store.write(next)
+    return next
+  }
+
+  // Reads and writes are async, so they take turns: two mutations reading the same state would otherwise each
+  // write back their own copy, and the later write would drop the earlier one's change.
+  let queue: Promise<unknown> = Promise.resolve()
+  const serialized = <T,>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task)
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  const loadState = async (): Promise<PersistedState> => {
+    const state = await store.read()
+    if (state) {
+      return purgeExpiredTrash(state)
+    }
+
+    const initial: PersistedState = seed ? createSeedState() : createEmptyState()
+    await store.write(initial)
+    return clone(initial)
+  }
+
+  const readState = () => serialized(loadState)
+
+  const findIndexOrThrow = (todos: Todo[], id: string) => {
+    const index = todos.findIndex((todo) => todo.id === id)
+    if (index === -1) {
+      throw new TodoNotFoundError(id)
+    }
+    return index
+  }
+
+  // Every write goes through here, so the history records each change whichever operation made it.
+  const mutateState = <T,>(
+    mutate: (state: PersistedState) => { state: PersistedState; result: T },
+    actor: TodoHistoryActor = 'user',
+  ) =>
+    serialized(async () => {
+      const previous = await loadState()
+      const { state, result } = mutate(previous)
+      await store.write({
+        ...state,
+        history: recordHistory(state.history, previous.todos, state.todos, actor),
+      })
+      return result
+    })
+
+  // Every id is resolved inside one state mutation, so a missing todo aborts the batch before anything is written.
+  const patchTodos = (ids: string[], patch: (existing: Todo) => Todo, timeZone = 'UTC'): Promise<Todo[]> =>
+    mutateState((state) => {
+      let todos = state.todos
+      const results = [...new Set(ids)].map((id) => {
+        const existing = todos[findIndexOrThrow(todos, id)]
+        const outcome = applyRecurrence(todos, state.comments, existing, patch(existing), timeZone)
+        todos = outcome.todos
+        return outcome.todo
+      })
+      return { state: { ...state, todos }, result: results }
+    })
+
+  const patchTodo = (
+    id: string,
+    patch: (existing: Todo, state: PersistedState) => Todo,
+    { tagNames, actor, timeZone = 'UTC' }: { tagNames?: string[]; actor?: TodoHistoryActor; timeZone?: string } = {},
+  ): Promise<Todo> =>
+    mutateState((state) => {
+      const index = findIndexOrThrow(state.todos, id)
+      const resolved = tagNames ? resolveTags(state.tags, tagNames) : null
+      const existing = state.todos[index]
+      const patched = patch(resolved ? { ...existing, tags: resolved.names } : existing, state)
+      const { todos, todo: updated } = applyRecurrence(state.todos, state.comments, existing, patched, timeZone)
+      return { state: { ...state, todos, tags: resolved?.registry ?? state.tags }, result: updated }
+    }, actor)
+
+  const findTagOrThrow = (state: PersistedState, name: string) => {
+    const match = state.tags.find((tag) => isSameTag(tag.name, name))
+    if (!match) {
+      throw new TagNotFoundError(name)
+    }
+    return match
+  }
+
+  const findListOrThrow = (state: PersistedState, id: string) => {
+    const match = state.lists.find((list) => list.id === id)
+    if (!match) {
+      throw new ListNotFoundError(id)
+    }
+    return match
+  }
+
+  const assertUniqueListName = (state: PersistedState, name: string, exceptId?: string) => {
+    if (!name) {
+      throw new ListConflictError('List names cannot be empty')
+    }
+    const taken = state.lists.some(
+      (list) => list.id !== exceptId && list.name.toLowerCase() === name.toLowerCase(),
+    )
+    if (taken) {
+      throw new ListConflictError(`A list named "${name}" already exists`)
+    }
+  }
+
+  const findCommentOrThrow = (state: PersistedState, id: string) => {
+    const match = state.comments.find((comment) => comment.id === id)
+    if (!match) {
+      throw new CommentNotFoundError(id)
+    }
+    return match
+  }
+
+  const findViewOrThrow = (state: PersistedState, id: string) => {
+    const match = state.views.find((view) => view.id === id)
+    if (!match) {
+      throw new SavedViewNotFoundError(id)
+    }
+    return match
+  }
+
+  const assertUniqueViewName = (state: PersistedState, name: string, exceptId?: string) => {
+    if (!name) {
+      throw new SavedViewConflictError('View names cannot be empty')
+    }
+    const taken = state.views.some(
+      (view) => view.id !== exceptId && view.name.toLowerCase() === name.toLowerCase(),
+    )
+    if (taken) {
+      throw new SavedViewConflictError(`A view named "${name}" already exists`)
+    }
+  }
+
+  // At most one view is the default, so saving a new default clears the flag everywhere else.
+  const replaceView = (views: SavedView[], next: SavedView) =>
+    views.map((view) =>
+      view.id === next.id ? next : next.isDefault && view.isDefault ? { ...view, isDefault: false } : view,
+    )
+
+  return {
+    async list({ listId, timeZone = 'UTC', cursor, limit, ...filters } = {}) {
+      const { todos, comments } = await readState()
+      const visible = todos.filter((todo) => !todo.deletedAt && (!listId || todo.listId === listId))
+      const matches = filterTodos(visible, { ...DEFAULT_TODO_FILTERS, ...filters }, timeZone, comments)
+      return delay(paginate(matches, cursor, limit))
+    },
+
+    async listTrash() {
+      const { todos } = await readState()
+      const trashed = todos.filter((todo): todo is Todo & { deletedAt: string } => Boolean(todo.deletedAt))
+      return delay(trashed.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime()))
+    },
+
+    async get(id) {
+      const { todos } = await readState()
+      const match = todos[findIndexOrThrow(todos, id)]
+      return delay(clone(match))
+    },
+
+    async create(input) {
+      const now = new Date().toISOString()
+      const todo = applyChecklistAutoCompletion(
+        normalizeDueTime({
+          id: nanoid(),
+          listId: input.listId ?? INBOX_LIST_ID,
+          title: input.title.trim(),
+          description: input.description?.trim() ?? '',
+          dueDate: normalizeDueDate(input.dueDate),
+          dueTime: input.dueTime ?? null,
+          dueTimeZone: input.dueTimeZone ?? null,
+          completed: input.completed ?? false,
+          priority: input.priority ?? 'none',
+          checklist: normalizeChecklist(input.checklist ?? []),
+          autoCompleteChecklist: input.autoCompleteChecklist ?? false,
+          tags: [],
+          recurrence: input.recurrence ?? null,
+          nextOccurrenceId: null,
+          reminders: input.reminders ?? [],
+          calendarUid: input.calendarUid ?? null,
+          rank: '',
+          createdAt: now,
+          updatedAt: now,
+          deletedAt: null,
+        }),
+      )
+
+      const created = await mutateState((state) => {
+        findListOrThrow(state, todo.listId)
+        const { names, registry } = resolveTags(state.tags, input.tags ?? [])
+        const withTags = { ...todo, tags: names, rank: rankBeforeAll(state.todos.map((existing) => existing.rank)) }
+        return {
+          state: { ...state, todos: sortByCreatedAtDesc([withTags, ...state.todos]), tags: registry },
+          result: withTags,
+        }
+      })
+      return delay(clone(created))
+    },
+
+    async update(id, input, { timeZone } = {}) {
+      const updated = await patchTodo(
+        id,
+        (existing, state) => {
+          if (input.listId !== undefined) {
+            findListOrThrow(state, input.listId)
+          }
+          return applyUpdate(existing, input)
+        },
+        { tagNames: input.tags, timeZone },
+      )
+      return delay(clone(updated))
+    },
+
+    async reorder(id, { previousId, nextId }) {
+      const reordered = await patchTodo(id, (existing, state) => {
+        if (previousId === id || nextId === id) {
+          throw new ReorderConflictError('A todo cannot be placed next to itself')
+        }
+        const rankOf = (neighbourId: string | null) =>
+          neighbourId === null ? null : state.todos[findIndexOrThrow(state.todos, neighbourId)].rank
+        const previousRank = rankOf(previousId)
+        const nextRank = rankOf(nextId)
+        if (previousRank !== null && nextRank !== null && previousRank >= nextRank) {
+          throw new ReorderConflictError()
+        }
+        return { ...existing, rank: rankBetween(previousRank, nextRank), updatedAt: new Date().toISOString() }
+      })
+      return delay(clone(reordered))
+    },
+
+    // Ticking an item changes no tracked field by itself, so any change it records is the auto-completion.
+    async toggleChecklistItem(id, itemId, { timeZone } = {}) {
+      const updated = await patchTodo(
+        id,
+        (existing) => {
+          if (!existing.checklist.some((item) => item.id === itemId)) {
+            throw new ChecklistItemNotFoundError(id, itemId)
+          }
+          return applyChecklistAutoCompletion({
+            ...existing,
+            checklist: existing.checklist.map((item) =>
+              item.id === itemId ? { ...item, completed: !item.completed } : item,
+            ),
+            updatedAt: new Date().toISOString(),
+          })
+        },
+        { actor: 'checklist', timeZone },
+      )
+      return delay(clone(updated))
+    },
+
+    async toggleCompletion(id, { timeZone } = {}) {
+      const updated = await patchTodo(
+        id,
+        (existing) => ({ ...existing, completed: !existing.completed, updatedAt: new Date().toISOString() }),
+        { timeZone },
+      )
+      return delay(clone(updated))
+    },
+
+    async bulkUpdate(ids, change, { timeZone } = {}) {
+      const now = new Date().toISOString()
+      const updated = await patchTodos(ids, (existing) => applyBulkChange(existing, change, now), timeZone)
+      return delay(clone(updated))
+    },
+
+    async delete(id) {
+      const now = new Date().toISOString()
+      const trashed = await patchTodo(id, (existing) => ({ ...existing, deletedAt: now, updatedAt: now }))
+      return delay(clone(trashed))
+    },
+
+    async bulkDelete(ids) {
+      const now = new Date().toISOString()
+      const trashed = await patchTodos(ids, (existing) => ({ ...existing, deletedAt: now, updatedAt: now }))
+      return delay(clone(trashed))
+    },
+
+    async restore(id) {
+      const restored = await patchTodo(id, (existing) => ({
+        ...existing,
+        deletedAt: null,
+        updatedAt: new Date().toISOString(),
+      }))
+      return delay(clone(restored))
+    },
+
+    async bulkRestore(ids) {
+      const now = new Date().toISOString()
+      const restored = await patchTodos(ids, (existing) => ({ ...existing, deletedAt: null, updatedAt: now }))
+      return delay(clone(restored))
+    },
+
+    async history(id) {
+      const { todos, history } = await readState()
+      findIndexOrThrow(todos, id)
+      return delay(clone(history.filter((entry) => entry.todoId === id).reverse()))
+    },
+
+    async purge(id) {
+      await mutateState((state) => {
+        findIndexOrThrow(state.todos, id)
+        const todos = state.todos.filter((todo) => todo.id !== id)
+        return { state: { ...state, todos, comments: keepCommentsOf(state.comments, todos) }, result: undefined }
+      })
+      await delay(undefined)
+    },
+
+    tags: {
+      async list() {
+        const { todos, tags } = await readState()
+        const active = todos.filter((todo) => !todo.deletedAt)
+        const summaries = tags.map((tag) => ({
+          ...tag,
+          count: active.filter((todo) => todo.tags.some((name) => isSameTag(name, tag.name))).length,
+        }))
+        return delay(summaries.sort((a, b) => a.name.localeCompare(b.name)))
+      },
+
+      async update(name, input) {
+        const updated = await mutateState((state) => {
+          const existing = findTagOrThrow(state, name)
+          const nextName = input.name !== undefined ? normalizeTagName(input.name) : existing.name
+          if (!nextName) {
+            throw new TagConflictError('Tag names cannot be empty')
+          }
+          if (!isSameTag(nextName, existing.name) && state.tags.some((tag) => isSameTag(tag.name, nextName))) {
+            throw new TagConflictError(`A tag named "${nextName}" already exists. Merge the tags instead.`)
+          }
+
+          const tag = { name: nextName, color: input.color ?? existing.color }
+          const todos =
+            nextName !== existing.name
+              ? replaceTagOnTodos(state.todos, [existing.name], nextName, new Date().toISOString())
+              : state.todos
+          return {
+            state: { ...state, tags: state.tags.map((candidate) => (candidate === existing ? tag : candidate)), todos },
+            result: tag,
+          }
+        })
+        return delay(clone(updated))
+      },
+
+      async merge(sources, target) {
+        const merged = await mutateState((state) => {
+          const targetTag = findTagOrThrow(state, target)
+          const sourceNames = sources
+            .map((source) => findTagOrThrow(state, source).name)
+            .filter((source) => !isSameTag(source, targetTag.name))
+          return {
+            state: {
+              ...state,
+              tags: state.tags.filter((tag) => !sourceNames.some((source) => isSameTag(source, tag.name))),
+              todos: replaceTagOnTodos(state.todos, sourceNames, targetTag.name, new Date().toISOString()),
+            },
+            result: targetTag,
+          }
+        })
+        return delay(clone(merged))
+      },
+
+      async delete(name) {
+        await mutateState((state) => {
+          const existing = findTagOrThrow(state, name)
+          return {
+            state: {
+              ...state,
+              tags: state.tags.filter((tag) => tag !== existing),
+              todos: replaceTagOnTodos(state.todos, [existing.name], null, new Date().toISOString()),
+            },
+            result: undefined,
+          }
+        })
+        await delay(undefined)
+      },
+    },
+
+    lists: {
+      async list() {
+        const { todos, lists } = await readState()
+        const summaries = lists.map((list) => {
+          const own = todos.filter((todo) => todo.listId === list.id && !todo.deletedAt)
+          const completedCount = own.filter((todo) => todo.completed).length
+          return { ...list, activeCount: own.length - completedCount, completedCount }
+        })
+        return delay(summaries)
+      },
+
+      async create(input) {
+        const created = await mutateState((state) => {
+          const name = input.name.trim()
+          assertUniqueListName(state, name)
+          const list = { id: nanoid(), name, color: input.color ?? 'slate', createdAt: new Date().toISOString() }
+          return { state: { ...state, lists: [...state.lists, list] }, result: list }
+        })
+        return delay(clone(created))
+      },
+
+      async update(id, input) {
+        const updated = await mutateState((state) => {
+          const existing = findListOrThrow(state, id)
+          const name = input.name !== undefined ? input.name.trim() : existing.name
+          assertUniqueListName(state, name, id)
+          const list = { ...existing, name, color: input.color ?? existing.color }
+          return {
+            state: { ...state, lists: state.lists.map((candidate) => (candidate.id === id ? list : candidate)) },
+            result: list,
+          }
+        })
+        return delay(clone(updated))
+      },
+
+      async delete(id) {
+        await mutateState((state) => {
+          findListOrThrow(state, id)
+          if (id === INBOX_LIST_ID) {
+            throw new ListConflictError('The inbox cannot be deleted')
+          }
+          const now = new Date().toISOString()
+          return {
+            state: {
+              ...state,
+              lists: state.lists.filter((list) => list.id !== id),
+              todos: state.todos.map((todo) =>
+                todo.listId === id ? { ...todo, listId: INBOX_LIST_ID, updatedAt: now } : todo,
+              ),
+              views: state.views.map((view) => (view.listId === id ? { ...view, listId: INBOX_LIST_ID } : view)),
+            },
+            result: undefined,
+          }
+        })
+        await delay(undefined)
+      },
+    },
+
+    views: {
+      async list() {
+        const { views } = await readState()
+        return delay(clone(views))
+      },
+
+      async create(input) {
+        const created = await mutateState((state) => {
+          const name = input.name.trim()
+          assertUniqueViewName(state, name)
+          findListOrThrow(state, input.listId)
+          const view: SavedView = {
+            id: nanoid(),
+            name,
+            listId: input.listId,
+            filters: clone(input.filters),
+            pinned: input.pinned ?? false,
+            isDefault: input.isDefault ?? false,
+            createdAt: new Date().toISOString(),
+          }
+          return { state: { ...state, views: replaceView([...state.views, view], view) }, result: view }
+        })
+        return delay(clone(created))
+      },
+
+      async update(id, input) {
+        const updated = await mutateState((state) => {
+          const existing = findViewOrThrow(state, id)
+          const name = input.name !== undefined ? input.name.trim() : existing.name
+          assertUniqueViewName(state, name, id)
+          if (input.listId !== undefined) findListOrThrow(state, input.listId)
+          const view: SavedView = {
+            ...existing,
+            name,
+            listId: input.listId ?? existing.listId,
+            filters: input.filters ? clone(input.filters) : existing.filters,
+            pinned: input.pinned ?? existing.pinned,
+            isDefault: input.isDefault ?? existing.isDefault,
+          }
+          return { state: { ...state, views: replaceView(state.views, view) }, result: view }
+        })
+        return delay(clone(updated))
+      },
+
+      async delete(id) {
+        await mutateState((state) => {
+          const existing = findViewOrThrow(state, id)
+          return { state: { ...state, views: state.views.filter((view) => view !== existing) }, result: undefined }
+        })
+        await delay(undefined)
+      },
+    },
+
+    comments: {
+      async list(todoId) {
+        const { comments } = await readState()
+        const matches = todoId ? comments.filter((comment) => comment.todoId === todoId) : comments
+        return delay(clone(matches))
+      },
+
+      async add(todoId, input) {
+        const created = await mutateState((state) => {
+          findIndexOrThrow(state.todos, todoId)
+          const now = new Date().toISOString()
+          const comment: TodoComment = {
+            id: nanoid(),
+            todoId,
+            author: parseCommentField(commentAuthorRule, input.author),
+            body: parseCommentField(commentBodyRule, input.body),
+            createdAt: now,
+            updatedAt: now,
+          }
+          return { state: { ...state, comments: [...state.comments, comment] }, result: comment }
+        })
+        return delay(clone(created))
+      },
+
+      async edit(id, input) {
+        const updated = await mutateState((state) => {
+          const existing = findCommentOrThrow(state, id)
+          const comment = {
+            ...existing,
+            body: parseCommentField(commentBodyRule, input.body),
+            updatedAt: new Date().toISOString(),
+          }
+          const comments = state.comments.map((candidate) => (candidate === existing ? comment : candidate))
+          return { state: { ...state, comments }, result: comment }
+        })
+        return delay(clone(updated))
+      },
+
+      async delete(id) {
+        await mutateState((state) => {
+          const existing = findCommentOrThrow(state, id)
+          return {
+            state: { ...state, comments: state.comments.filter((comment) => comment !== existing) },
+            result: undefined,
+          }
+        })
+        await delay(undefined)
+      },
+    },
+
+    async listQuarantine() {
+      return store.readQuarantine()
+    },
+  }
+}
@@ -0,0 +1,176 @@
+import { nanoid } from 'nanoid'
+
+import type { ChecklistItemInput, CreateTodoInput, Todo, UpdateTodoInput } from '../../types'
+import { INBOX_LIST_ID } from '../../types'
+import type { OutboxOperation, TodoRepository } from '../repository'
+import { createProvisionalId, isUnreachable, type Outbox } from '../outbox'
+import { OutboxPendingError } from '../errors'
+
+const toChecklist = (items: ChecklistItemInput[]) =>
+  items.map((item) => ({ id: item.id ?? nanoid(), title: item.title.trim(), completed: item.completed ?? false }))
+
+// Provisional todos only have to look right until the backend's own copy replaces them after the replay.
+const provisionalCreate = (id: string, input: CreateTodoInput, now: string): Todo => ({
+  id,
+  listId: input.listId ?? INBOX_LIST_ID,
+  title: input.title.trim(),
+  description: input.description?.trim() ?? '',
+  dueDate: input.dueDate ?? null,
+  dueTime: input.dueTime ?? null,
+  dueTimeZone: input.dueTimeZone ?? null,
+  completed: input.completed ?? false,
+  priority: input.priority ?? 'none',
+  checklist: toChecklist(input.checklist ?? []),
+  autoCompleteChecklist: input.autoCompleteChecklist ?? false,
+  tags: input.tags ?? [],
+  recurrence: input.recurrence ?? null,
+  nextOccurrenceId: null,
+  reminders: input.reminders ?? [],
+  calendarUid: input.calendarUid ?? null,
+  rank: '',
+  createdAt: now,
+  updatedAt: now,
+  deletedAt: null,
+})
+
+const provisionalUpdate = (todo: Todo, { checklist, ...input }: UpdateTodoInput, now: string): Todo => ({
+  ...todo,
+  ...Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)),
+  ...(checklist ? { checklist: toChecklist(checklist) } : {}),
+  updatedAt: now,
+})
+
+/**
+ * Sends todo creates, updates, toggles and deletes through `repository`, queueing them in `outbox` when the
+ * backend cannot be reached and resolving to a provisional todo instead. While changes are queued, later ones
+ * queue behind them so the backend receives them in order. A change to a todo this tab has not loaded cannot
+ * be shown provisionally and fails as before. Every other change that touches todos (bulk changes, reorders,
+ * checklist toggles, restores, purges, tag changes, list deletes and comments) is never queued; while changes
+ * are waiting it fails with `OutboxPendingError` rather than overtake them. Saved views and list names and
+ * colours hold no todo data, so they are sent straight away.
+ */
+export const createOutboxRepository = (repository: TodoRepository, outbox: Outbox): TodoRepository => {
+  const known = new Map<string, Todo>()
+
+  const remember = <T extends Todo | Todo[]>(result: T): T => {
+    const todos: Todo[] = Array.isArray(result) ? result : [result]
+    todos.forEach((todo) => known.set(todo.id, todo))
+    return result
+  }
+
+  const queue = async (
+    operation: OutboxOperation,
+    sendNow: () => Promise<Todo>,
+    toProvisional: (now: string) => Todo | undefined,
+  ) => {
+    let failure: unknown
+    if (!(await outbox.hasPending())) {
+      try {
+        return remember(await sendNow())
+      } catch (error) {
+        if (!isUnreachable(error)) throw error
+        failure = error
+      }
+    }
+    const provisional = toProvisional(new Date().toISOString())
+    if (!provisional) {
+      throw failure ?? new Error('This todo is not loaded yet; wait for pending changes to sync and try again.')
+    }
+    await outbox.enqueue(operation, provisional.title, failure)
+    return remember(provisional)
+  }
+
+  const whenDrained = async <T,>(sendNow: () => Promise<T>) => {
+    if (await outbox.hasPending()) throw new OutboxPendingError()
+    return sendNow()
+  }
+
+  return {
+    ...repository,
+
+    list: async (query, options) => {
+      const page = await repository.list(query, options)
+      remember(page.items)
+      return page
+    },
+
+    get: async (id, options) => remember(await repository.get(id, options)),
+
+    create: (input) => {
+      const todoId = createProvisionalId()
+      return queue(
+        { type: 'create', todoId, input },
+        () => repository.create(input),
+        (now) => provisionalCreate(todoId, input, now),
+      )
+    },
+
+    update: (id, input, options) =>
+      queue(
+        { type: 'update', todoId: id, input, options },
+        () => repository.update(id, input, options),
+        (now) => {
+          const todo = known.get(id)
+          return todo && provisionalUpdate(todo, input, now)
+        },
+      ),
+
+    toggleCompletion: (id, options) =>
+      queue(
+        { type: 'toggle', todoId: id, options },
+        () => repository.toggleCompletion(id, options),
+        (now) => {
+          const todo = known.get(id)
+          return todo && { ...todo, completed: !todo.completed, updatedAt: now }
+        },
+      ),
+
+    reorder: (id, input) => whenDrained(() => repository.reorder(id, input)).then(remember),
+
+    toggleChecklistItem: (id, itemId, options) =>
+      whenDrained(() => repository.toggleChecklistItem(id, itemId, options)).then(remember),
+
+    bulkUpdate: (ids, change, options) =>
+      whenDrained(() => repository.bulkUpdate(ids, change, options)).then(remember),
+
+    delete: (id) =>
+      queue(
+        { type: 'delete', todoId: id },
+        () => repository.delete(id),
+        (now) => {
+          const todo = known.get(id)
+          return todo && { ...todo, deletedAt: now, updatedAt: now }
+        },
+      ),
+
+    bulkDelete: (ids) => whenDrained(() => repository.bulkDelete(ids)).then(remember),
+
+    restore: (id) => whenDrained(() => repository.restore(id)).then(remember),
+
+    bulkRestore: (ids) => whenDrained(() => repository.bulkRestore(ids)).then(remember),
+
+    purge: async (id) => {
+      await whenDrained(() => repository.purge(id))
+      known.delete(id)
+    },
+
+    tags: {
+      ...repository.tags,
+      update: (name, input) => whenDrained(() => repository.tags.update(name, input)),
+      merge: (sources, target) => whenDrained(() => repository.tags.merge(sources, target)),
+      delete: (name) => whenDrained(() => repository.tags.delete(name)),
+    },
+
+    lists: {
+      ...repository.lists,
+      delete: (id) => whenDrained(() => repository.lists.delete(id)),
+    },
+
+    comments: {
+      ...repository.comments,
+      add: (todoId, input) => whenDrained(() => repository.comments.add(todoId, input)),
+      edit: (id, input) => whenDrained(() => repository.comments.edit(id, input)),
+      delete: (id) => whenDrained(() => repository.comments.delete(id)),
+    },
+  }
+}
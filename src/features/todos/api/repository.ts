@@ -0,0 +1,173 @@
+import type {
+  Attachment,
+  BulkTodoChange,
+  CreateCommentInput,
+  CreateSavedViewInput,
+  CreateTodoInput,
+  CreateTodoListInput,
+  ReorderTodoInput,
+  SavedView,
+  Tag,
+  TagSummary,
+  Todo,
+  TodoComment,
+  TodoHistoryEntry,
+  TodoList,
+  TodoListSummary,
+  UpdateCommentInput,
+  UpdateSavedViewInput,
+  UpdateTagInput,
+  UpdateTodoInput,
+  UpdateTodoListInput,
+} from '../types'
+import type { TodoFilters } from '../todoQuery'
+import type { PersistedState, QuarantineEntry } from './schema'
+
+export type RequestOptions = {
+  signal?: AbortSignal
+}
+
+/** For changes that may complete a recurring todo, whose next occurrence is due relative to the completion day. */
+export type CompletionOptions = {
+  /** The zone the completion day is taken in; defaults to UTC. */
+  timeZone?: string
+}
+
+export type TodoQuery = Partial<TodoFilters> & {
+  /** Limits the result to one list; every list is returned when omitted. */
+  listId?: string
+  /** The zone due-date filters and sorts are evaluated in; defaults to UTC. */
+  timeZone?: string
+  /** `nextCursor` from the previous page; omit it for the first page. */
+  cursor?: string | null
+  /** Page size; every match comes back in a single page when omitted. */
+  limit?: number
+}
+
+export type PaginatedTodos = {
+  items: Todo[]
+  /** Opaque; `null` once the last page has been returned. */
+  nextCursor: string | null
+  /** Number of todos matching the query across every page. */
+  totalCount: number
+}
+
+export type TodoRepository = {
+  list: (query?: TodoQuery, options?: RequestOptions) => Promise<PaginatedTodos>
+  get: (id: string, options?: RequestOptions) => Promise<Todo>
+  create: (input: CreateTodoInput) => Promise<Todo>
+  update: (id: string, input: UpdateTodoInput, options?: CompletionOptions) => Promise<Todo>
+  toggleCompletion: (id: string, options?: CompletionOptions) => Promise<Todo>
+  /** Moves the todo between two neighbours in the manual order by giving it a rank between theirs. */
+  reorder: (id: string, input: ReorderTodoInput) => Promise<Todo>
+  toggleChecklistItem: (id: string, itemId: string, options?: CompletionOptions) => Promise<Todo>
+  /** Applies one change to every todo in `ids`; if any of them is missing, none is changed. */
+  bulkUpdate: (ids: string[], change: BulkTodoChange, options?: CompletionOptions) => Promise<Todo[]>
+  /** Moves the todo to the trash; it is purged automatically once the retention period lapses. */
+  delete: (id: string) => Promise<Todo>
+  /** Moves every todo in `ids` to the trash, or none of them if any is missing. */
+  bulkDelete: (ids: string[]) => Promise<Todo[]>
+  listTrash: (options?: RequestOptions) => Promise<Todo[]>
+  restore: (id: string) => Promise<Todo>
+  /** Takes every todo in `ids` out of the trash, or none of them if any is missing. */
+  bulkRestore: (ids: string[]) => Promise<Todo[]>
+  purge: (id: string) => Promise<void>
+  /** The todo's change log, newest first; also available for todos in the trash. */
+  history: (id: string, options?: RequestOptions) => Promise<TodoHistoryEntry[]>
+  listQuarantine: () => Promise<QuarantineEntry[]>
+  tags: TagRepository
+  lists: ListRepository
+  views: SavedViewRepository
+  comments: CommentRepository
+}
+
+export type TagRepository = {
+  list: (options?: RequestOptions) => Promise<TagSummary[]>
+  /** Renames and/or recolours a tag; a rename is applied to every todo carrying the tag. */
+  update: (name: string, input: UpdateTagInput) => Promise<Tag>
+  merge: (sources: string[], target: string) => Promise<Tag>
+  delete: (name: string) => Promise<void>
+}
+
+export type ListRepository = {
+  list: (options?: RequestOptions) => Promise<TodoListSummary[]>
+  create: (input: CreateTodoListInput) => Promise<TodoList>
+  update: (id: string, input: UpdateTodoListInput) => Promise<TodoList>
+  /** Deletes the list and moves its todos to the inbox, which itself cannot be deleted. */
+  delete: (id: string) => Promise<void>
+}
+
+export type SavedViewRepository = {
+  list: (options?: RequestOptions) => Promise<SavedView[]>
+  create: (input: CreateSavedViewInput) => Promise<SavedView>
+  /** Making a view the default takes the flag away from the previous default. */
+  update: (id: string, input: UpdateSavedViewInput) => Promise<SavedView>
+  delete: (id: string) => Promise<void>
+}
+
+/** Comments go with their todo: they stay while it is in the trash and are removed when it is purged. */
+export type CommentRepository = {
+  /** Oldest first; every todo's comments when `todoId` is omitted. */
+  list: (todoId?: string, options?: RequestOptions) => Promise<TodoComment[]>
+  add: (todoId: string, input: CreateCommentInput) => Promise<TodoComment>
+  edit: (id: string, input: UpdateCommentInput) => Promise<TodoComment>
+  delete: (id: string) => Promise<void>
+}
+
+export type AttachmentRepository = {
+  list: (options?: RequestOptions) => Promise<Attachment[]>
+  getContent: (id: string) => Promise<Blob>
+  /** Throws `AttachmentQuotaError` when the file is too large or would exceed the todo's or the overall quota. */
+  add: (todoId: string, file: File) => Promise<Attachment>
+  delete: (id: string) => Promise<void>
+  /** Removes the attachments of todos that have been purged for good. */
+  deleteForTodos: (todoIds: string[]) => Promise<void>
+  /** Removes attachments whose todo no longer exists, and resolves to how many were removed. */
+  prune: (existingTodoIds: string[]) => Promise<number>
+}
+
+export type TodoStore = {
+  /** Resolves to `null` when nothing has been persisted yet, so the repository knows it may seed. */
+  read: () => Promise<PersistedState | null>
+  write: (state: PersistedState) => Promise<void>
+  readQuarantine: () => Promise<QuarantineEntry[]>
+}
+
+/** Attachment metadata and content are stored apart, so listing attachments never loads their content. */
+export type AttachmentStore = {
+  list: () => Promise<Attachment[]>
+  /** Resolves to `null` when there is no content stored under `id`. */
+  read: (id: string) => Promise<Blob | null>
+  write: (attachment: Attachment, content: Blob) => Promise<void>
+  delete: (ids: string[]) => Promise<void>
+}
+
+/** A todo change that could not reach the backend. `todoId` may be the provisional id of a queued create. */
+export type OutboxOperation =
+  | { type: 'create'; todoId: string; input: CreateTodoInput }
+  | { type: 'update'; todoId: string; input: UpdateTodoInput; options?: CompletionOptions }
+  | { type: 'toggle'; todoId: string; options?: CompletionOptions }
+  | { type: 'delete'; todoId: string }
+
+export type OutboxEntry = {
+  id: string
+  operation: OutboxOperation
+  /** The todo's title when the change was queued, so the change can be named once the todo is gone. */
+  title: string
+  /** `failed` entries were rejected by the backend and wait for the user to retry or discard them. */
+  status: 'pending' | 'failed'
+  attempts: number
+  lastError: string | null
+  /** `null` when the entry may be sent straight away. */
+  nextAttemptAt: string | null
+  queuedAt: string
+}
+
+export type OutboxStore = {
+  read: () => Promise<OutboxEntry[]>
+  write: (entries: OutboxEntry[]) => Promise<void>
+  /** Calls `listener` when another tab changes the stored entries; returns the unsubscribe function. */
+  watch: (listener: () => void) => () => void
+}
+
+export type StorageAdapter = 'local' | 'memory' | 'indexeddb' | 'http'
@@ -0,0 +1,462 @@
+import { nanoid } from 'nanoid'
+import { z } from 'zod'
+
+import {
+  INBOX_LIST_ID,
+  TAG_COLORS,
+  TODO_HISTORY_ACTIONS,
+  TODO_HISTORY_ACTORS,
+  TODO_PRIORITIES,
+  type SavedView,
+  type Tag,
+  type Todo,
+  type TodoComment,
+  type TodoHistoryEntry,
+  type TodoList,
+} from '../types'
+import { RANK_PATTERN, createRankSequence } from '../rank'
+import { DEFAULT_TODO_FILTERS, DUE_FILTERS, PRIORITY_FILTERS, SORT_VALUES, STATUS_FILTERS } from '../todoQuery'
+import { isCalendarDate, isTimeOfDay, isValidTimeZone } from '../../../utils/date'
+
+export const SCHEMA_VERSION = 14
+
+export type PersistedState = {
+  todos: Todo[]
+  tags: Tag[]
+  lists: TodoList[]
+  views: SavedView[]
+  history: TodoHistoryEntry[]
+  comments: TodoComment[]
+}
+
+export type PersistedEnvelope = {
+  version: number
+  savedAt: string
+  state: PersistedState
+}
+
+export type QuarantineEntry = {
+  id: string
+  quarantinedAt: string
+  reason: string
+  payload: unknown
+}
+
+export type DecodeResult = {
+  state: PersistedState
+  quarantined: QuarantineEntry[]
+  needsRewrite: boolean
+}
+
+type Migration = {
+  version: number
+  migrate: (state: unknown) => unknown
+}
+
+type LooseRecord = Record<string, unknown>
+
+const mapTodos = (state: unknown, transform: (todo: LooseRecord) => LooseRecord) => {
+  const current = (state ?? {}) as { todos?: unknown }
+  const todos = Array.isArray(current.todos) ? current.todos : []
+  return {
+    ...current,
+    todos: todos.map((todo) => (todo && typeof todo === 'object' ? transform(todo as LooseRecord) : todo)),
+  }
+}
+
+const createdTime = (todo: unknown) => {
+  const value = todo && typeof todo === 'object' ? (todo as LooseRecord).createdAt : null
+  const time = typeof value === 'string' ? Date.parse(value) : Number.NaN
+  return Number.isNaN(time) ? 0 : time
+}
+
+/**
+ * Each migration upgrades the persisted state from `version - 1` to `version`.
+ * Version 0 is the legacy format: a bare `Todo[]` without an envelope.
+ */
+const migrations: Migration[] = [
+  {
+    version: 1,
+    migrate: (state) => ({ todos: Array.isArray(state) ? state : [] }),
+  },
+  {
+    version: 2,
+    migrate: (state) => mapTodos(state, (todo) => ({ ...todo, deletedAt: todo.deletedAt ?? null })),
+  },
+  {
+    version: 3,
+    migrate: (state) =>
+      mapTodos(state, (todo) => ({
+        ...todo,
+        checklist: todo.checklist ?? [],
+        autoCompleteChecklist: todo.autoCompleteChecklist ?? false,
+      })),
+  },
+  {
+    version: 4,
+    migrate: (state) => ({
+      ...mapTodos(state, (todo) => ({ ...todo, tags: todo.tags ?? [] })),
+      tags: (state as { tags?: unknown })?.tags ?? [],
+    }),
+  },
+  {
+    version: 5,
+    migrate: (state) => mapTodos(state, (todo) => ({ ...todo, priority: todo.priority ?? 'none' })),
+  },
+  {
+    version: 6,
+    migrate: (state) =>
+      mapTodos(state, (todo) => ({
+        ...todo,
+        recurrence: todo.recurrence ?? null,
+        nextOccurrenceId: todo.nextOccurrenceId ?? null,
+      })),
+  },
+  {
+    // Date-only due dates used to be stored as UTC midnight, so the UTC calendar date is the one the user picked.
+    version: 7,
+    migrate: (state) =>
+      mapTodos(state, (todo) => {
+        const parsed = typeof todo.dueDate === 'string' ? new Date(todo.dueDate) : null
+        return {
+          ...todo,
+          dueDate: parsed && !Number.isNaN(parsed.getTime()) ? parsed.toISOString().slice(0, 10) : null,
+          dueTime: null,
+          dueTimeZone: null,
+        }
+      }),
+  },
+  {
+    version: 8,
+    migrate: (state) => mapTodos(state, (todo) => ({ ...todo, reminders: todo.reminders ?? [] })),
+  },
+  {
+    version: 9,
+    migrate: (state) => ({
+      ...mapTodos(state, (todo) => ({ ...todo, listId: todo.listId ?? INBOX_LIST_ID })),
+      lists: (state as { lists?: unknown })?.lists ?? [createInboxList()],
+    }),
+  },
+  {
+    // The manual order starts out as the previous default order, newest first.
+    version: 10,
+    migrate: (state) => {
+      const todos = (state as { todos?: unknown })?.todos
+      const records: unknown[] = Array.isArray(todos) ? [...todos] : []
+      const ranks = createRankSequence(records.length)
+      const order = new Map(
+        records.sort((a, b) => createdTime(b) - createdTime(a)).map((record, index) => [record, ranks[index]]),
+      )
+      return mapTodos(state, (todo) => ({ ...todo, rank: todo.rank ?? order.get(todo) }))
+    },
+  },
+  {
+    version: 11,
+    migrate: (state) => ({ ...(state as LooseRecord), views: (state as { views?: unknown })?.views ?? [] }),
+  },
+  {
+    version: 12,
+    migrate: (state) => mapTodos(state, (todo) => ({ ...todo, calendarUid: todo.calendarUid ?? null })),
+  },
+  {
+    // Changes made before the log existed are not known, so every todo starts with an empty history.
+    version: 13,
+    migrate: (state) => ({ ...(state as LooseRecord), history: (state as { history?: unknown })?.history ?? [] }),
+  },
+  {
+    version: 14,
+    migrate: (state) => ({ ...(state as LooseRecord), comments: (state as { comments?: unknown })?.comments ?? [] }),
+  },
+]
+
+const isoDateString = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid ISO date')
+
+const checklistItemSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  completed: z.boolean().default(false),
+})
+
+export const recurrenceRuleSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('daily') }),
+  z.object({ type: z.literal('weekly'), weekdays: z.array(z.number().int().min(0).max(6)).min(1) }),
+  z.object({ type: z.literal('monthly'), dayOfMonth: z.number().int().min(1).max(31) }),
+  z.object({ type: z.literal('after-completion'), days: z.number().int().min(1) }),
+])
+
+export const reminderRuleSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('before-due'), minutes: z.number().int().nonnegative() }),
+  z.object({ type: z.literal('morning-of') }),
+])
+
+export const todoRecordSchema = z.object({
+  id: z.string().min(1),
+  listId: z.string().min(1).default(INBOX_LIST_ID),
+  title: z.string(),
+  description: z.string().default(''),
+  dueDate: z.string().refine(isCalendarDate, 'Invalid calendar date').nullable().default(null),
+  dueTime: z.string().refine(isTimeOfDay, 'Invalid time of day').nullable().default(null),
+  dueTimeZone: z.string().refine(isValidTimeZone, 'Unknown time zone').nullable().default(null),
+  completed: z.boolean().default(false),
+  priority: z.enum(TODO_PRIORITIES).default('none'),
+  checklist: z.array(checklistItemSchema).default([]),
+  autoCompleteChecklist: z.boolean().default(false),
+  tags: z.array(z.string().min(1)).default([]),
+  recurrence: recurrenceRuleSchema.nullable().default(null),
+  nextOccurrenceId: z.string().nullable().default(null),
+  reminders: z.array(reminderRuleSchema).default([]),
+  calendarUid: z.string().min(1).nullable().default(null),
+  rank: z.string().regex(RANK_PATTERN, 'Invalid rank'),
+  createdAt: isoDateString,
+  updatedAt: isoDateString,
+  deletedAt: isoDateString.nullable().default(null),
+})
+
+const tagRecordSchema = z.object({
+  name: z.string().min(1),
+  color: z.enum(TAG_COLORS).catch('slate'),
+})
+
+const listRecordSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  color: z.enum(TAG_COLORS).catch('slate'),
+  createdAt: isoDateString,
+})
+
+// A filter value that is no longer supported falls back to its default instead of discarding the whole view.
+const savedViewFiltersSchema = z.object({
+  status: z.enum(STATUS_FILTERS).catch(DEFAULT_TODO_FILTERS.status),
+  sort: z.enum(SORT_VALUES).catch(DEFAULT_TODO_FILTERS.sort),
+  search: z.string().catch(DEFAULT_TODO_FILTERS.search),
+  due: z.enum(DUE_FILTERS).catch(DEFAULT_TODO_FILTERS.due),
+  priority: z.enum(PRIORITY_FILTERS).catch(DEFAULT_TODO_FILTERS.priority),
+  tags: z.array(z.string().min(1)).catch([]),
+})
+
+const savedViewRecordSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  listId: z.string().min(1).default(INBOX_LIST_ID),
+  filters: savedViewFiltersSchema,
+  pinned: z.boolean().default(false),
+  isDefault: z.boolean().default(false),
+  createdAt: isoDateString,
+})
+
+const historyEntrySchema = z.object({
+  id: z.string().min(1),
+  todoId: z.string().min(1),
+  action: z.enum(TODO_HISTORY_ACTIONS),
+  actor: z.enum(TODO_HISTORY_ACTORS).catch('user'),
+  changes: z.array(
+    z.discriminatedUnion('field', [
+      z.object({ field: z.literal('title'), from: z.string(), to: z.string() }),
+      z.object({ field: z.literal('description'), from: z.string(), to: z.string() }),
+      z.object({ field: z.literal('dueDate'), from: z.string().nullable(), to: z.string().nullable() }),
+      z.object({ field: z.literal('completed'), from: z.boolean(), to: z.boolean() }),
+    ]),
+  ),
+  at: isoDateString,
+})
+
+const commentRecordSchema = z.object({
+  id: z.string().min(1),
+  todoId: z.string().min(1),
+  author: z.string().min(1),
+  body: z.string().min(1),
+  createdAt: isoDateString,
+  updatedAt: isoDateString,
+})
+
+const envelopeSchema = z.object({
+  version: z.number().int().nonnegative(),
+  state: z.unknown(),
+})
+
+const quarantine = (reason: string, payload: unknown): QuarantineEntry => ({
+  id: nanoid(),
+  quarantinedAt: new Date().toISOString(),
+  reason,
+  payload,
+})
+
+export const createInboxList = (createdAt = new Date().toISOString()): TodoList => ({
+  id: INBOX_LIST_ID,
+  name: 'Inbox',
+  color: 'slate',
+  createdAt,
+})
+
+export const createEmptyState = (): PersistedState => ({
+  todos: [],
+  tags: [],
+  lists: [createInboxList()],
+  views: [],
+  history: [],
+  comments: [],
+})
+
+export const encodeEnvelope = (state: PersistedState): PersistedEnvelope => ({
+  version: SCHEMA_VERSION,
+  savedAt: new Date().toISOString(),
+  state,
+})
+
+export const decodeEnvelope = (payload: unknown): DecodeResult => {
+  let version: number
+  let state: unknown
+
+  if (Array.isArray(payload)) {
+    version = 0
+    state = payload
+  } else {
+    const envelope = envelopeSchema.safeParse(payload)
+    if (!envelope.success) {
+      return {
+        state: createEmptyState(),
+        quarantined: [quarantine('Stored data is not a recognised todo envelope', payload)],
+        needsRewrite: true,
+      }
+    }
+    version = envelope.data.version
+    state = envelope.data.state
+  }
+
+  if (version > SCHEMA_VERSION) {
+    return {
+      state: createEmptyState(),
+      quarantined: [quarantine(`Stored data uses schema version ${version}, newer than ${SCHEMA_VERSION}`, payload)],
+      needsRewrite: true,
+    }
+  }
+
+  try {
+    for (const migration of migrations) {
+      if (migration.version > version) {
+        state = migration.migrate(state)
+      }
+    }
+  } catch (error) {
+    return {
+      state: createEmptyState(),
+      quarantined: [
+        quarantine(`Migration from schema version ${version} failed: ${error instanceof Error ? error.message : error}`, payload),
+      ],
+      needsRewrite: true,
+    }
+  }
+
+  const rawTodos = (state as { todos?: unknown })?.todos
+  const records: unknown[] = Array.isArray(rawTodos) ? rawTodos : []
+  const quarantined: QuarantineEntry[] = []
+  const todos: Todo[] = []
+
+  const rawTags = (state as { tags?: unknown })?.tags
+  const tagRecords: unknown[] = Array.isArray(rawTags) ? rawTags : []
+  const tags: Tag[] = []
+  tagRecords.forEach((record) => {
+    const result = tagRecordSchema.safeParse(record)
+    if (result.success) {
+      tags.push(result.data)
+    } else {
+      quarantined.push(quarantine('Invalid tag record', record))
+    }
+  })
+
+  const rawLists = (state as { lists?: unknown })?.lists
+  const listRecords: unknown[] = Array.isArray(rawLists) ? rawLists : []
+  const lists: TodoList[] = []
+  listRecords.forEach((record) => {
+    const result = listRecordSchema.safeParse(record)
+    if (result.success) {
+      lists.push(result.data)
+    } else {
+      quarantined.push(quarantine('Invalid list record', record))
+    }
+  })
+  // The inbox must always exist: it is where todos land when their own list is missing.
+  if (!lists.some((list) => list.id === INBOX_LIST_ID)) {
+    lists.unshift(createInboxList())
+  }
+  const listIds = new Set(lists.map((list) => list.id))
+
+  const rawViews = (state as { views?: unknown })?.views
+  const viewRecords: unknown[] = Array.isArray(rawViews) ? rawViews : []
+  const views: SavedView[] = []
+  viewRecords.forEach((record) => {
+    const result = savedViewRecordSchema.safeParse(record)
+    if (!result.success) {
+      quarantined.push(quarantine('Invalid saved view record', record))
+      return
+    }
+    const listExists = listIds.has(result.data.listId)
+    const hasDefault = views.some((view) => view.isDefault)
+    views.push({
+      ...result.data,
+      listId: listExists ? result.data.listId : INBOX_LIST_ID,
+      isDefault: result.data.isDefault && !hasDefault,
+    })
+  })
+
+  records.forEach((record) => {
+    const result = todoRecordSchema.safeParse(record)
+    if (result.success) {
+      const listExists = listIds.has(result.data.listId)
+      todos.push(listExists ? result.data : { ...result.data, listId: INBOX_LIST_ID })
+    } else {
+      const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+      quarantined.push(quarantine(`Invalid todo record (${issues})`, record))
+    }
+  })
+
+  const todoIds = new Set(todos.map((todo) => todo.id))
+
+  // Entries of todos that no longer exist are dropped along with them.
+  const rawHistory = (state as { history?: unknown })?.history
+  const historyRecords: unknown[] = Array.isArray(rawHistory) ? rawHistory : []
+  const history: TodoHistoryEntry[] = []
+  historyRecords.forEach((record) => {
+    const result = historyEntrySchema.safeParse(record)
+    if (!result.success) {
+      quarantined.push(quarantine('Invalid history entry', record))
+    } else if (todoIds.has(result.data.todoId)) {
+      history.push(result.data)
+    }
+  })
+
+  const rawComments = (state as { comments?: unknown })?.comments
+  const commentRecords: unknown[] = Array.isArray(rawComments) ? rawComments : []
+  const comments: TodoComment[] = []
+  commentRecords.forEach((record) => {
+    const result = commentRecordSchema.safeParse(record)
+    if (!result.success) {
+      quarantined.push(quarantine('Invalid comment record', record))
+    } else if (todoIds.has(result.data.todoId)) {
+      comments.push(result.data)
+    } else {
+      // Unlike history, a comment holds something a person wrote, so it is kept aside rather than dropped.
+      quarantined.push(quarantine('Comment on a todo that no longer exists', record))
+    }
+  })
+
+  return {
+    state: { todos, tags, lists, views, history, comments },
+    quarantined,
+    needsRewrite: version !== SCHEMA_VERSION || quarantined.length > 0,
+  }
+}
+
+export const decodeSerialized = (raw: string): DecodeResult => {
+  let payload: unknown
+  try {
+    payload = JSON.parse(raw)
+  } catch {
+    return {
+      state: createEmptyState(),
+      quarantined: [quarantine('Stored data is not valid JSON', raw)],
+      needsRewrite: true,
+    }
+  }
+  return decodeEnvelope(payload)
+}
@@ -0,0 +1,109 @@
+import { nanoid } from 'nanoid'
+
+import { INBOX_LIST_ID, type Tag, type Todo, type TodoList } from '../types'
+import { createInboxList, type PersistedState } from './schema'
+import { createRankSequence } from '../rank'
+import { getLocalTimeZone, toCalendarDate } from '../../../utils/date'
+
+const ENGINEERING_LIST_ID = 'engineering'
+
+const createSeedTodos = (now: Date): Todo[] => {
+  const tomorrow = new Date(now)
+  tomorrow.setDate(now.getDate() + 1)
+  const nextWeek = new Date(now)
+  nextWeek.setDate(now.getDate() + 7)
+  const ranks = createRankSequence(3)
+
+  return [
+    {
+      id: nanoid(),
+      listId: INBOX_LIST_ID,
+      title: 'Plan weekly sprint',
+      description: 'Collect feature requests, draft priorities, and sync with the team for next week\'s roadmap.',
+      completed: false,
+      priority: 'high',
+      dueDate: toCalendarDate(tomorrow),
+      dueTime: '10:00',
+      dueTimeZone: getLocalTimeZone(),
+      checklist: [
+        { id: nanoid(), title: 'Collect feature requests', completed: true },
+        { id: nanoid(), title: 'Draft sprint priorities', completed: false },
+        { id: nanoid(), title: 'Sync with the team', completed: false },
+      ],
+      autoCompleteChecklist: true,
+      tags: ['planning'],
+      recurrence: { type: 'weekly', weekdays: [1] },
+      nextOccurrenceId: null,
+      reminders: [{ type: 'before-due', minutes: 60 }],
+      calendarUid: null,
+      rank: ranks[0],
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      deletedAt: null,
+    },
+    {
+      id: nanoid(),
+      listId: ENGINEERING_LIST_ID,
+      title: 'Refactor authentication module',
+      description: 'Simplify provider logic and add integration tests for the refresh token flow.',
+      completed: false,
+      priority: 'medium',
+      dueDate: toCalendarDate(nextWeek),
+      dueTime: null,
+      dueTimeZone: null,
+      checklist: [],
+      autoCompleteChecklist: false,
+      tags: ['backend'],
+      recurrence: null,
+      nextOccurrenceId: null,
+      reminders: [],
+      calendarUid: null,
+      rank: ranks[1],
+      createdAt: new Date(now.getTime() - 1000 * 60 * 60 * 24 * 2).toISOString(),
+      updatedAt: new Date(now.getTime() - 1000 * 60 * 60 * 24 * 2).toISOString(),
+      deletedAt: null,
+    },
+    {
+      id: nanoid(),
+      listId: ENGINEERING_LIST_ID,
+      title: 'Archive stale feature flags',
+      description: 'Audit LaunchDarkly dashboard and shut down flags that shipped last quarter.',
+      completed: true,
+      priority: 'low',
+      dueDate: null,
+      dueTime: null,
+      dueTimeZone: null,
+      checklist: [],
+      autoCompleteChecklist: false,
+      tags: ['cleanup'],
+      recurrence: null,
+      nextOccurrenceId: null,
+      reminders: [],
+      calendarUid: null,
+      rank: ranks[2],
+      createdAt: new Date(now.getTime() - 1000 * 60 * 60 * 24 * 7).toISOString(),
+      updatedAt: new Date(now.getTime() - 1000 * 60 * 60 * 24 * 5).toISOString(),
+      deletedAt: null,
+    },
+  ]
+}
+
+const seedTags: Tag[] = [
+  { name: 'planning', color: 'blue' },
+  { name: 'backend', color: 'purple' },
+  { name: 'cleanup', color: 'teal' },
+]
+
+const createSeedLists = (now: Date): TodoList[] => [
+  createInboxList(now.toISOString()),
+  { id: ENGINEERING_LIST_ID, name: 'Engineering', color: 'purple', createdAt: now.toISOString() },
+]
+
+export const createSeedState = (now = new Date()): PersistedState => ({
+  todos: createSeedTodos(now),
+  tags: seedTags.map((tag) => ({ ...tag })),
+  lists: createSeedLists(now),
+  views: [],
+  history: [],
+  comments: [],
+})
@@ -0,0 +1,75 @@
+import type { Attachment } from '../../types'
+import type { AttachmentStore } from '../repository'
+import { promisifyRequest, promisifyTransaction } from './indexedDb'
+
+// Kept apart from the todo database, so attachments work with every storage adapter, the HTTP one included.
+const DATABASE_NAME = 'production-grade-todo-attachments'
+const DATABASE_VERSION = 1
+const METADATA_STORE = 'attachments'
+const CONTENT_STORE = 'contents'
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'))
+  }
+
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+  request.onupgradeneeded = () => {
+    const database = request.result
+    if (!database.objectStoreNames.contains(METADATA_STORE)) {
+      database.createObjectStore(METADATA_STORE, { keyPath: 'id' })
+    }
+    if (!database.objectStoreNames.contains(CONTENT_STORE)) {
+      database.createObjectStore(CONTENT_STORE)
+    }
+  }
+  return promisifyRequest(request)
+}
+
+export const createIndexedDbAttachmentStore = (): AttachmentStore => {
+  let connection: Promise<IDBDatabase> | null = null
+
+  const getDatabase = () => {
+    if (!connection) {
+      connection = openDatabase().catch((error) => {
+        connection = null
+        throw error
+      })
+    }
+    return connection
+  }
+
+  return {
+    async list() {
+      const database = await getDatabase()
+      const transaction = database.transaction(METADATA_STORE, 'readonly')
+      return promisifyRequest<Attachment[]>(transaction.objectStore(METADATA_STORE).getAll())
+    },
+
+    async read(id) {
+      const database = await getDatabase()
+      const transaction = database.transaction(CONTENT_STORE, 'readonly')
+      const content = await promisifyRequest<Blob | undefined>(transaction.objectStore(CONTENT_STORE).get(id))
+      return content ?? null
+    },
+
+    async write(attachment, content) {
+      const database = await getDatabase()
+      const transaction = database.transaction([METADATA_STORE, CONTENT_STORE], 'readwrite')
+      transaction.objectStore(METADATA_STORE).put(attachment)
+      transaction.objectStore(CONTENT_STORE).put(content, attachment.id)
+      await promisifyTransaction(transaction)
+    },
+
+    async delete(ids) {
+      if (ids.length === 0) return
+      const database = await getDatabase()
+      const transaction = database.transaction([METADATA_STORE, CONTENT_STORE], 'readwrite')
+      ids.forEach((id) => {
+        transaction.objectStore(METADATA_STORE).delete(id)
+        transaction.objectStore(CONTENT_STORE).delete(id)
+      })
+      await promisifyTransaction(transaction)
+    },
+  }
+}
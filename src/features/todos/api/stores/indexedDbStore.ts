@@ -0,0 +1,108 @@
+import { nanoid } from 'nanoid'
+
+import type { TodoStore } from '../repository'
+import { decodeEnvelope, encodeEnvelope, type PersistedState, type QuarantineEntry } from '../schema'
+import { promisifyRequest, promisifyTransaction } from './indexedDb'
+import { clone } from '../../../../utils/clone'
+
+const DATABASE_NAME = 'production-grade-todo'
+const DATABASE_VERSION = 2
+const STATE_STORE = 'state'
+const QUARANTINE_STORE = 'quarantine'
+const LEGACY_TODO_STORE = 'todos'
+const STATE_KEY = 'current'
+const REVISION_KEY = 'revision'
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'))
+  }
+
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+  request.onupgradeneeded = () => {
+    const database = request.result
+    const upgrade = request.transaction
+    if (!database.objectStoreNames.contains(STATE_STORE)) {
+      database.createObjectStore(STATE_STORE)
+    }
+    if (!database.objectStoreNames.contains(QUARANTINE_STORE)) {
+      database.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' })
+    }
+    if (upgrade && database.objectStoreNames.contains(LEGACY_TODO_STORE)) {
+      // Version 1 kept one record per todo; carry them over as a legacy (unversioned) payload.
+      const legacyRequest = upgrade.objectStore(LEGACY_TODO_STORE).getAll()
+      legacyRequest.onsuccess = () => {
+        if (legacyRequest.result.length > 0) {
+          upgrade.objectStore(STATE_STORE).put(legacyRequest.result, STATE_KEY)
+        }
+        database.deleteObjectStore(LEGACY_TODO_STORE)
+      }
+    }
+  }
+  return promisifyRequest(request)
+}
+
+export const createIndexedDbStore = (): TodoStore => {
+  let connection: Promise<IDBDatabase> | null = null
+  // Every write stores a new revision next to the state. While it matches the one cached here, nothing (this tab
+  // or another) has written since, so the decoded state is reused instead of being validated and migrated again.
+  let cached: { revision: unknown; state: PersistedState } | null = null
+
+  const getDatabase = () => {
+    if (!connection) {
+      connection = openDatabase().catch((error) => {
+        connection = null
+        throw error
+      })
+    }
+    return connection
+  }
+
+  return {
+    async read() {
+      const database = await getDatabase()
+      const transaction = database.transaction([STATE_STORE, QUARANTINE_STORE], 'readwrite')
+      const stateStore = transaction.objectStore(STATE_STORE)
+      const revision = await promisifyRequest(stateStore.get(REVISION_KEY))
+      if (cached && cached.revision === revision) {
+        return clone(cached.state)
+      }
+
+      const payload = await promisifyRequest(stateStore.get(STATE_KEY))
+      if (payload === undefined) {
+        return null
+      }
+
+      const { state, quarantined, needsRewrite } = decodeEnvelope(payload)
+      if (quarantined.length > 0) {
+        console.warn(`[todoApi] Quarantined ${quarantined.length} unreadable stored record(s) in IndexedDB`)
+        const quarantineStore = transaction.objectStore(QUARANTINE_STORE)
+        quarantined.forEach((entry) => quarantineStore.put(entry))
+      }
+      const nextRevision = needsRewrite ? nanoid() : revision
+      if (needsRewrite) {
+        stateStore.put(encodeEnvelope(state), STATE_KEY)
+        stateStore.put(nextRevision, REVISION_KEY)
+      }
+      await promisifyTransaction(transaction)
+      cached = { revision: nextRevision, state: clone(state) }
+      return state
+    },
+
+    async write(state) {
+      const database = await getDatabase()
+      const transaction = database.transaction(STATE_STORE, 'readwrite')
+      const revision = nanoid()
+      transaction.objectStore(STATE_STORE).put(encodeEnvelope(state), STATE_KEY)
+      transaction.objectStore(STATE_STORE).put(revision, REVISION_KEY)
+      await promisifyTransaction(transaction)
+      cached = { revision, state: clone(state) }
+    },
+
+    async readQuarantine() {
+      const database = await getDatabase()
+      const transaction = database.transaction(QUARANTINE_STORE, 'readonly')
+      return promisifyRequest<QuarantineEntry[]>(transaction.objectStore(QUARANTINE_STORE).getAll())
+    },
+  }
+}
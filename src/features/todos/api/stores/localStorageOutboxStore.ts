@@ -0,0 +1,56 @@
+import type { OutboxEntry, OutboxStore } from '../repository'
+import { clone } from '../../../../utils/clone'
+
+export const OUTBOX_KEY = 'production-grade-todo::outbox'
+
+const OPERATION_TYPES = new Set(['create', 'update', 'toggle', 'delete'])
+
+const isBrowser = () => typeof window !== 'undefined' && typeof window.localStorage !== 'undefined'
+
+// Entries written by a newer or broken build are dropped rather than replayed half-understood.
+const isOutboxEntry = (value: unknown): value is OutboxEntry => {
+  if (typeof value !== 'object' || value === null) return false
+  const { id, operation } = value as Partial<OutboxEntry>
+  return (
+    typeof id === 'string' &&
+    typeof operation === 'object' &&
+    operation !== null &&
+    OPERATION_TYPES.has(operation.type) &&
+    typeof operation.todoId === 'string'
+  )
+}
+
+export const createLocalStorageOutboxStore = (key = OUTBOX_KEY): OutboxStore => {
+  let inMemoryEntries: OutboxEntry[] = []
+
+  return {
+    async read() {
+      if (!isBrowser()) return clone(inMemoryEntries)
+      try {
+        const parsed: unknown = JSON.parse(window.localStorage.getItem(key) ?? '[]')
+        return Array.isArray(parsed) ? parsed.filter(isOutboxEntry) : []
+      } catch {
+        return []
+      }
+    },
+
+    async write(entries) {
+      inMemoryEntries = clone(entries)
+      if (!isBrowser()) return
+      if (entries.length === 0) {
+        window.localStorage.removeItem(key)
+      } else {
+        window.localStorage.setItem(key, JSON.stringify(entries))
+      }
+    },
+
+    watch(listener) {
+      if (!isBrowser()) return () => undefined
+      const handle = (event: StorageEvent) => {
+        if (event.key === key || event.key === null) listener()
+      }
+      window.addEventListener('storage', handle)
+      return () => window.removeEventListener('storage', handle)
+    },
+  }
+}
@@ -0,0 +1,81 @@
+import type { TodoStore } from '../repository'
+import { decodeSerialized, encodeEnvelope, type PersistedState, type QuarantineEntry } from '../schema'
+import { clone } from '../../../../utils/clone'
+
+export const STORAGE_KEY = 'production-grade-todo::todos'
+export const QUARANTINE_KEY = 'production-grade-todo::quarantine'
+
+const isBrowser = () => typeof window !== 'undefined' && typeof window.localStorage !== 'undefined'
+
+const readQuarantineEntries = (key: string): QuarantineEntry[] => {
+  try {
+    const raw = window.localStorage.getItem(key)
+    const parsed = raw ? JSON.parse(raw) : []
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export const createLocalStorageStore = (key = STORAGE_KEY, quarantineKey = QUARANTINE_KEY): TodoStore => {
+  // The decoded state is kept between reads, so the stored envelope is only validated and migrated once.
+  let inMemoryStore: PersistedState | null = null
+
+  // Another tab wrote or cleared the key, so the copy held here may be stale; the next read goes back to storage.
+  if (isBrowser()) {
+    window.addEventListener('storage', (event) => {
+      if (event.key === key || event.key === null) {
+        inMemoryStore = null
+      }
+    })
+  }
+
+  const writeState = (state: PersistedState) => {
+    inMemoryStore = clone(state)
+    if (isBrowser()) {
+      window.localStorage.setItem(key, JSON.stringify(encodeEnvelope(state)))
+    }
+  }
+
+  return {
+    async read() {
+      if (inMemoryStore) {
+        return clone(inMemoryStore)
+      }
+
+      const raw = isBrowser() ? window.localStorage.getItem(key) : null
+      if (raw === null) {
+        return null
+      }
+
+      const { state, quarantined, needsRewrite } = decodeSerialized(raw)
+      if (quarantined.length > 0) {
+        console.warn(`[todoApi] Quarantined ${quarantined.length} unreadable stored record(s) under "${quarantineKey}"`)
+        try {
+          window.localStorage.setItem(
+            quarantineKey,
+            JSON.stringify([...readQuarantineEntries(quarantineKey), ...quarantined]),
+          )
+        } catch (error) {
+          // Never overwrite data we could not set aside.
+          console.error('[todoApi] Failed to quarantine stored todos', error)
+          throw new Error('Stored todos could not be read and could not be backed up safely.')
+        }
+      }
+      if (needsRewrite) {
+        writeState(state)
+      }
+
+      inMemoryStore = state
+      return clone(state)
+    },
+
+    async write(state) {
+      writeState(state)
+    },
+
+    async readQuarantine() {
+      return isBrowser() ? readQuarantineEntries(quarantineKey) : []
+    },
+  }
+}
@@ -0,0 +1,21 @@
+import type { Attachment } from '../../types'
+import type { AttachmentStore } from '../repository'
+
+export const createMemoryAttachmentStore = (): AttachmentStore => {
+  const attachments = new Map<string, { attachment: Attachment; content: Blob }>()
+
+  return {
+    async list() {
+      return [...attachments.values()].map(({ attachment }) => ({ ...attachment }))
+    },
+    async read(id) {
+      return attachments.get(id)?.content ?? null
+    },
+    async write(attachment, content) {
+      attachments.set(attachment.id, { attachment: { ...attachment }, content })
+    },
+    async delete(ids) {
+      ids.forEach((id) => attachments.delete(id))
+    },
+  }
+}
@@ -0,0 +1,18 @@
+import type { OutboxEntry, OutboxStore } from '../repository'
+import { clone } from '../../../../utils/clone'
+
+export const createMemoryOutboxStore = (): OutboxStore => {
+  let entries: OutboxEntry[] = []
+
+  return {
+    async read() {
+      return clone(entries)
+    },
+    async write(next) {
+      entries = clone(next)
+    },
+    watch() {
+      return () => undefined
+    },
+  }
+}
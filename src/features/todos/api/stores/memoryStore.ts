@@ -0,0 +1,19 @@
+import type { TodoStore } from '../repository'
+import type { PersistedState } from '../schema'
+import { clone } from '../../../../utils/clone'
+
+export const createMemoryStore = (initial: PersistedState | null = null): TodoStore => {
+  let state = initial ? clone(initial) : null
+
+  return {
+    async read() {
+      return state ? clone(state) : null
+    },
+    async write(next) {
+      state = clone(next)
+    },
+    async readQuarantine() {
+      return []
+    },
+  }
+}
@@ -0,0 +1,18 @@
+import type { Todo } from '../types'
+import type { StorageAdapter } from './repository'
+import { createTabChannel } from '../../../utils/tabChannel'
+
+const CHANNEL_NAME = 'production-grade-todo::sync'
+
+/** Caches other than the todos themselves that a change can leave stale. */
+export type TodoSyncScope = 'todos' | 'tags' | 'lists' | 'views' | 'comments' | 'attachments'
+
+/** Sent to the other open tabs once a change has been stored. */
+export type TodoSyncMessage =
+  | { type: 'todos-saved'; todos: Todo[] }
+  | { type: 'todos-purged'; ids: string[] }
+  | { type: 'changed'; scopes: TodoSyncScope[] }
+
+/** Tabs share nothing with the in-memory adapter, so each keeps to itself. */
+export const createTodoSyncChannel = (adapter: StorageAdapter) =>
+  adapter === 'memory' ? null : createTabChannel<TodoSyncMessage>(CHANNEL_NAME)
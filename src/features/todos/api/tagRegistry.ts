@@ -0,0 +1,41 @@
+import { TAG_COLORS, type Tag, type TagColor, type Todo } from '../types'
+
+export const MAX_TAG_LENGTH = 32
+
+export const normalizeTagName = (name: string) => name.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH)
+
+export const isSameTag = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+const nextColor = (registry: Tag[]): TagColor => TAG_COLORS[registry.length % TAG_COLORS.length]
+
+/**
+ * Maps free-form tag names onto the registry, reusing the casing of existing tags and
+ * registering unseen ones with the next palette colour.
+ */
+export const resolveTags = (registry: Tag[], names: string[]): { names: string[]; registry: Tag[] } => {
+  const nextRegistry = [...registry]
+  const resolved: string[] = []
+
+  names.map(normalizeTagName).forEach((name) => {
+    if (!name || resolved.some((existing) => isSameTag(existing, name))) return
+    const match = nextRegistry.find((tag) => isSameTag(tag.name, name))
+    if (match) {
+      resolved.push(match.name)
+    } else {
+      nextRegistry.push({ name, color: nextColor(nextRegistry) })
+      resolved.push(name)
+    }
+  })
+
+  return { names: resolved, registry: nextRegistry }
+}
+
+export const replaceTagOnTodos = (todos: Todo[], from: string[], to: string | null, updatedAt: string): Todo[] =>
+  todos.map((todo) => {
+    if (!todo.tags.some((tag) => from.some((source) => isSameTag(source, tag)))) {
+      return todo
+    }
+    const remaining = todo.tags.filter((tag) => !from.some((source) => isSameTag(source, tag)))
+    const tags = to && !remaining.some((tag) => isSameTag(tag, to)) ? [...remaining, to] : remaining
+    return { ...todo, tags, updatedAt }
+  })
@@ -1,184 +1,272 @@
-import { nanoid } from 'nanoid'
+import type {
+  Attachment,
+  BulkTodoChange,
+  CreateCommentInput,
+  CreateSavedViewInput,
+  CreateTodoInput,
+  CreateTodoListInput,
+  ReorderTodoInput,
+  SavedView,
+  Tag,
+  TagSummary,
+  Todo,
+  TodoComment,
+  TodoHistoryEntry,
+  TodoList,
+  TodoListSummary,
+  UpdateCommentInput,
+  UpdateSavedViewInput,
+  UpdateTagInput,
+  UpdateTodoInput,
+  UpdateTodoListInput,
+} from '../types'
+import type {
+  AttachmentRepository,
+  CompletionOptions,
+  OutboxEntry,
+  PaginatedTodos,
+  RequestOptions,
+  TodoQuery,
+  TodoRepository,
+} from './repository'
+import type { QuarantineEntry } from './schema'
+import {
+  createAttachmentRepositoryFor,
+  createOutboxStoreFor,
+  createRepository,
+  resolveStorageAdapter,
+} from './createRepository'
+import { createOutbox } from './outbox'
+import { createOutboxRepository } from './repositories/outboxRepository'
+import { createTodoSyncChannel, type TodoSyncMessage, type TodoSyncScope } from './tabSync'
 
-import type { CreateTodoInput, Todo, UpdateTodoInput } from '../types'
+const storageAdapter = resolveStorageAdapter(import.meta.env.VITE_TODO_STORAGE)
 
-const STORAGE_KEY = 'production-grade-todo::todos'
-const LATENCY_MIN = 120
-const LATENCY_MAX = 420
+const outbox = createOutbox(createOutboxStoreFor(storageAdapter))
 
-let inMemoryStore: Todo[] = []
+// Queued changes are replayed against the repository itself, not through the outbox that queued them.
+let directRepository: TodoRepository = createRepository(storageAdapter)
+let repository: TodoRepository = createOutboxRepository(directRepository, outbox)
+let attachmentRepository: AttachmentRepository = createAttachmentRepositoryFor(storageAdapter)
 
-const isBrowser = () => typeof window !== 'undefined' && typeof window.localStorage !== 'undefined'
+export const configureTodoRepository = (next: TodoRepository) => {
+  directRepository = next
+  repository = createOutboxRepository(next, outbox)
+}
 
-const delay = async <T,>(value: T): Promise<T> => {
-  const wait = Math.floor(Math.random() * (LATENCY_MAX - LATENCY_MIN + 1)) + LATENCY_MIN
-  return new Promise<T>((resolve) => {
-    setTimeout(() => resolve(value), wait)
-  })
+export const configureAttachmentRepository = (next: AttachmentRepository) => {
+  attachmentRepository = next
 }
 
-const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value))
+const syncChannel = createTodoSyncChannel(storageAdapter)
 
-const persist = (todos: Todo[]) => {
-  inMemoryStore = clone(todos)
-  if (isBrowser()) {
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(todos))
-  }
+// Other tabs only hear of a change once it has been stored, so a failed change is never broadcast.
+const announce = async <T,>(operation: Promise<T>, toMessage: (result: T) => TodoSyncMessage | null): Promise<T> => {
+  const result = await operation
+  const message = toMessage(result)
+  if (message) syncChannel?.post(message)
+  return result
 }
 
-const readStore = (): Todo[] => {
-  if (isBrowser()) {
-    const raw = window.localStorage.getItem(STORAGE_KEY)
-    if (raw) {
-      try {
-        const parsed: Todo[] = JSON.parse(raw)
-        inMemoryStore = parsed
-        return clone(parsed)
-      } catch (error) {
-        console.warn('[todoApi] Failed to parse stored todos', error)
-      }
-    }
-  }
-  return clone(inMemoryStore)
-}
+const saved = (todos: Todo | Todo[]): TodoSyncMessage => ({
+  type: 'todos-saved',
+  todos: Array.isArray(todos) ? todos : [todos],
+})
 
-const ensureSeedData = (todos: Todo[]): Todo[] => {
-  if (todos.length > 0) {
-    return todos
-  }
-
-  const now = new Date()
-  const tomorrow = new Date(now)
-  tomorrow.setDate(now.getDate() + 1)
-  const nextWeek = new Date(now)
-  nextWeek.setDate(now.getDate() + 7)
-
-  const seeded: Todo[] = [
-    {
-      id: nanoid(),
-      title: 'Plan weekly sprint',
-      description: 'Collect feature requests, draft priorities, and sync with the team for next week\'s roadmap.',
-      completed: false,
-      dueDate: tomorrow.toISOString(),
-      createdAt: now.toISOString(),
-      updatedAt: now.toISOString(),
-    },
-    {
-      id: nanoid(),
-      title: 'Refactor authentication module',
-      description: 'Simplify provider logic and add integration tests for the refresh token flow.',
-      completed: false,
-      dueDate: nextWeek.toISOString(),
-      createdAt: new Date(now.getTime() - 1000 * 60 * 60 * 24 * 2).toISOString(),
-      updatedAt: new Date(now.getTime() - 1000 * 60 * 60 * 24 * 2).toISOString(),
-    },
-    {
-      id: nanoid(),
-      title: 'Archive stale feature flags',
-      description: 'Audit LaunchDarkly dashboard and shut down flags that shipped last quarter.',
-      completed: true,
-      dueDate: null,
-      createdAt: new Date(now.getTime() - 1000 * 60 * 60 * 24 * 7).toISOString(),
-      updatedAt: new Date(now.getTime() - 1000 * 60 * 60 * 24 * 5).toISOString(),
-    },
-  ]
-
-  persist(seeded)
-  return clone(seeded)
-}
+// A queued change is not stored yet; other tabs hear of it once `outbox.replay` has sent it.
+const savedUnlessQueued = (todo: Todo) =>
+  outbox.getSnapshot().some(({ status, operation }) => status === 'pending' && operation.todoId === todo.id)
+    ? null
+    : saved(todo)
 
-const sortByCreatedAtDesc = (todos: Todo[]) =>
-  [...todos].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+const changed =
+  (...scopes: TodoSyncScope[]) =>
+  (): TodoSyncMessage => ({ type: 'changed', scopes })
+
+/** Listens for changes stored by the app's other open tabs; returns the unsubscribe function. */
+export const subscribeToOtherTabs = (listener: (message: TodoSyncMessage) => void) =>
+  syncChannel ? syncChannel.subscribe(listener) : () => undefined
 
 export const todoApi = {
-  async list(): Promise<Todo[]> {
-    const todos = ensureSeedData(readStore())
-    return delay(sortByCreatedAtDesc(todos))
+  async list(query?: TodoQuery, options?: RequestOptions): Promise<PaginatedTodos> {
+    return repository.list(query, options)
   },
 
-  async get(id: string): Promise<Todo> {
-    const todos = ensureSeedData(readStore())
-    const match = todos.find((todo) => todo.id === id)
-    if (!match) {
-      throw new Error('Todo not found')
-    }
-    return delay(clone(match))
+  async get(id: string, options?: RequestOptions): Promise<Todo> {
+    return repository.get(id, options)
   },
 
   async create(input: CreateTodoInput): Promise<Todo> {
-    const now = new Date().toISOString()
-    const todo: Todo = {
-      id: nanoid(),
-      title: input.title.trim(),
-      description: input.description?.trim() ?? '',
-      dueDate: input.dueDate ? new Date(input.dueDate).toISOString() : null,
-      completed: input.completed ?? false,
-      createdAt: now,
-      updatedAt: now,
-    }
-
-    const todos = ensureSeedData(readStore())
-    const next = sortByCreatedAtDesc([todo, ...todos])
-    persist(next)
-    return delay(clone(todo))
-  },
-
-  async update(id: string, input: UpdateTodoInput): Promise<Todo> {
-    const todos = ensureSeedData(readStore())
-    const index = todos.findIndex((todo) => todo.id === id)
-    if (index === -1) {
-      throw new Error('Todo not found')
-    }
-
-    const existing = todos[index]
-    const updated: Todo = {
-      ...existing,
-      ...('title' in input && input.title !== undefined ? { title: input.title.trim() } : {}),
-      ...('description' in input && input.description !== undefined
-        ? { description: input.description.trim() }
-        : {}),
-      ...('dueDate' in input
-        ? { dueDate: input.dueDate ? new Date(input.dueDate).toISOString() : null }
-        : {}),
-      ...('completed' in input && input.completed !== undefined ? { completed: input.completed } : {}),
-      updatedAt: new Date().toISOString(),
-    }
-
-    const next = [...todos]
-    next[index] = updated
-    persist(next)
-    return delay(clone(updated))
-  },
-
-  async toggleCompletion(id: string): Promise<Todo> {
-    const todos = ensureSeedData(readStore())
-    const index = todos.findIndex((todo) => todo.id === id)
-    if (index === -1) {
-      throw new Error('Todo not found')
-    }
-
-    const existing = todos[index]
-    const updated: Todo = {
-      ...existing,
-      completed: !existing.completed,
-      updatedAt: new Date().toISOString(),
-    }
-
-    const next = [...todos]
-    next[index] = updated
-    persist(next)
-    return delay(clone(updated))
-  },
-
-  async delete(id: string): Promise<void> {
-    const todos = ensureSeedData(readStore())
-    const index = todos.findIndex((todo) => todo.id === id)
-    if (index === -1) {
-      throw new Error('Todo not found')
-    }
-    const next = [...todos]
-    next.splice(index, 1)
-    persist(next)
-    await delay(undefined)
+    return announce(repository.create(input), savedUnlessQueued)
+  },
+
+  async update(id: string, input: UpdateTodoInput, options?: CompletionOptions): Promise<Todo> {
+    return announce(repository.update(id, input, options), savedUnlessQueued)
+  },
+
+  async toggleCompletion(id: string, options?: CompletionOptions): Promise<Todo> {
+    return announce(repository.toggleCompletion(id, options), savedUnlessQueued)
+  },
+
+  async reorder(id: string, input: ReorderTodoInput): Promise<Todo> {
+    return announce(repository.reorder(id, input), saved)
+  },
+
+  async toggleChecklistItem(id: string, itemId: string, options?: CompletionOptions): Promise<Todo> {
+    return announce(repository.toggleChecklistItem(id, itemId, options), saved)
+  },
+
+  async bulkUpdate(ids: string[], change: BulkTodoChange, options?: CompletionOptions): Promise<Todo[]> {
+    return announce(repository.bulkUpdate(ids, change, options), saved)
+  },
+
+  async delete(id: string): Promise<Todo> {
+    return announce(repository.delete(id), savedUnlessQueued)
+  },
+
+  async bulkDelete(ids: string[]): Promise<Todo[]> {
+    return announce(repository.bulkDelete(ids), saved)
+  },
+
+  async listTrash(options?: RequestOptions): Promise<Todo[]> {
+    return repository.listTrash(options)
+  },
+
+  async restore(id: string): Promise<Todo> {
+    return announce(repository.restore(id), saved)
+  },
+
+  async bulkRestore(ids: string[]): Promise<Todo[]> {
+    return announce(repository.bulkRestore(ids), saved)
+  },
+
+  async purge(id: string): Promise<void> {
+    return announce(repository.purge(id), () => ({ type: 'todos-purged', ids: [id] }))
+  },
+
+  async history(id: string, options?: RequestOptions): Promise<TodoHistoryEntry[]> {
+    return repository.history(id, options)
+  },
+
+  async listQuarantine(): Promise<QuarantineEntry[]> {
+    return repository.listQuarantine()
+  },
+
+  tags: {
+    async list(options?: RequestOptions): Promise<TagSummary[]> {
+      return repository.tags.list(options)
+    },
+
+    async update(name: string, input: UpdateTagInput): Promise<Tag> {
+      return announce(repository.tags.update(name, input), changed('tags', 'todos'))
+    },
+
+    async merge(sources: string[], target: string): Promise<Tag> {
+      return announce(repository.tags.merge(sources, target), changed('tags', 'todos'))
+    },
+
+    async delete(name: string): Promise<void> {
+      return announce(repository.tags.delete(name), changed('tags', 'todos'))
+    },
+  },
+
+  lists: {
+    async list(options?: RequestOptions): Promise<TodoListSummary[]> {
+      return repository.lists.list(options)
+    },
+
+    async create(input: CreateTodoListInput): Promise<TodoList> {
+      return announce(repository.lists.create(input), changed('lists'))
+    },
+
+    async update(id: string, input: UpdateTodoListInput): Promise<TodoList> {
+      return announce(repository.lists.update(id, input), changed('lists'))
+    },
+
+    async delete(id: string): Promise<void> {
+      return announce(repository.lists.delete(id), changed('lists', 'todos', 'views'))
+    },
+  },
+
+  views: {
+    async list(options?: RequestOptions): Promise<SavedView[]> {
+      return repository.views.list(options)
+    },
+
+    async create(input: CreateSavedViewInput): Promise<SavedView> {
+      return announce(repository.views.create(input), changed('views'))
+    },
+
+    async update(id: string, input: UpdateSavedViewInput): Promise<SavedView> {
+      return announce(repository.views.update(id, input), changed('views'))
+    },
+
+    async delete(id: string): Promise<void> {
+      return announce(repository.views.delete(id), changed('views'))
+    },
+  },
+
+  comments: {
+    async list(todoId?: string, options?: RequestOptions): Promise<TodoComment[]> {
+      return repository.comments.list(todoId, options)
+    },
+
+    async add(todoId: string, input: CreateCommentInput): Promise<TodoComment> {
+      return announce(repository.comments.add(todoId, input), changed('comments', 'todos'))
+    },
+
+    async edit(id: string, input: UpdateCommentInput): Promise<TodoComment> {
+      return announce(repository.comments.edit(id, input), changed('comments', 'todos'))
+    },
+
+    async delete(id: string): Promise<void> {
+      return announce(repository.comments.delete(id), changed('comments', 'todos'))
+    },
+  },
+
+  attachments: {
+    async list(options?: RequestOptions): Promise<Attachment[]> {
+      return attachmentRepository.list(options)
+    },
+
+    async getContent(id: string): Promise<Blob> {
+      return attachmentRepository.getContent(id)
+    },
+
+    async add(todoId: string, file: File): Promise<Attachment> {
+      return announce(attachmentRepository.add(todoId, file), changed('attachments'))
+    },
+
+    async delete(id: string): Promise<void> {
+      return announce(attachmentRepository.delete(id), changed('attachments'))
+    },
+
+    async deleteForTodos(todoIds: string[]): Promise<void> {
+      return announce(attachmentRepository.deleteForTodos(todoIds), changed('attachments'))
+    },
+
+    async prune(existingTodoIds: string[]): Promise<number> {
+      return announce(attachmentRepository.prune(existingTodoIds), changed('attachments'))
+    },
+  },
+
+  /** Todo changes waiting for the backend to become reachable again. */
+  outbox: {
+    getSnapshot: (): OutboxEntry[] => outbox.getSnapshot(),
+
+    subscribe: (listener: () => void) => outbox.subscribe(listener),
+
+    /** Sends the queued changes in order; resolves to the todos the backend stored. */
+    async replay(): Promise<Todo[]> {
+      return announce(outbox.replay(directRepository), (stored) => (stored.length > 0 ? saved(stored) : null))
+    },
+
+    async retry(id: string): Promise<void> {
+      return outbox.retry(id)
+    },
+
+    async discard(id: string): Promise<void> {
+      return outbox.discard(id)
+    },
   },
 }
@@ -0,0 +1,33 @@
+import type { Attachment } from './types'
+
+// Formats the browser renders without running anything from the file. SVG can carry scripts, so it is only
+// ever shown through an <img>, which does not run them, and never opened on its own.
+const INLINE_TYPES = new Set([
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'image/bmp',
+  'application/pdf',
+  'text/plain',
+])
+
+export const hasThumbnail = (attachment: Attachment) =>
+  attachment.type.startsWith('image/') && (INLINE_TYPES.has(attachment.type) || attachment.type === 'image/svg+xml')
+
+export const canOpenInline = (attachment: Attachment) => INLINE_TYPES.has(attachment.type)
+
+/** Content to hand to an object URL: anything that cannot be opened inline is served as a plain download. */
+export const toSafeBlob = (attachment: Attachment, content: Blob) =>
+  canOpenInline(attachment) || hasThumbnail(attachment)
+    ? content
+    : new Blob([content], { type: 'application/octet-stream' })
+
+export const groupAttachmentsByTodo = (attachments: Attachment[]) => {
+  const groups = new Map<string, Attachment[]>()
+  attachments.forEach((attachment) => {
+    groups.set(attachment.todoId, [...(groups.get(attachment.todoId) ?? []), attachment])
+  })
+  return groups
+}
@@ -0,0 +1,25 @@
+import { addDays, format, parseISO } from 'date-fns'
+
+import type { BulkTodoChange, Todo } from './types'
+
+/**
+ * Applies a bulk change to a single todo. Shared by the repository and the page's optimistic update, so both
+ * agree on the result; todos the change does not affect are returned as they are.
+ */
+export const applyBulkChange = (todo: Todo, change: BulkTodoChange, now: string): Todo => {
+  switch (change.type) {
+    case 'complete':
+      return todo.completed ? todo : { ...todo, completed: true, updatedAt: now }
+    case 'reopen':
+      return todo.completed ? { ...todo, completed: false, updatedAt: now } : todo
+    case 'set-due-date':
+      // A due time only makes sense with a date, so clearing the date clears the time too.
+      return change.dueDate
+        ? { ...todo, dueDate: change.dueDate, updatedAt: now }
+        : { ...todo, dueDate: null, dueTime: null, dueTimeZone: null, updatedAt: now }
+    case 'shift-due-date':
+      return todo.dueDate
+        ? { ...todo, dueDate: format(addDays(parseISO(todo.dueDate), change.days), 'yyyy-MM-dd'), updatedAt: now }
+        : todo
+  }
+}
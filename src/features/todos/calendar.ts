@@ -0,0 +1,242 @@
+import { addDays, format, parseISO } from 'date-fns'
+
+import type { RecurrenceRule, Todo, TodoPriority } from './types'
+import { ImportFormatError } from './api/errors'
+import {
+  escapeText,
+  formatICal,
+  getProperties,
+  getProperty,
+  parseICal,
+  splitTextList,
+  unescapeText,
+  type ICalComponent,
+  type ICalProperty,
+} from '../../utils/ical'
+import { isCalendarDate, isValidTimeZone } from '../../utils/date'
+
+/** Todos export either as to-dos, or as all-day events for calendars that do not show to-dos. */
+export type CalendarComponent = 'VTODO' | 'VEVENT'
+
+const PRODUCT_ID = '-//Team Todos//Todo export//EN'
+const UID_DOMAIN = 'team-todos'
+
+// Carries the exact due date and time of a timed todo on an all-day event, so a re-import keeps the time.
+const DUE_EXTENSION = 'X-TODO-DUE'
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest); 0 leaves the priority undefined.
+const PRIORITY_VALUES: Record<TodoPriority, number> = { none: 0, low: 9, medium: 5, high: 3, urgent: 1 }
+
+const toPriority = (value: number): TodoPriority => {
+  if (!Number.isInteger(value) || value <= 0 || value > 9) return 'none'
+  if (value <= 2) return 'urgent'
+  if (value <= 4) return 'high'
+  return value === 5 ? 'medium' : 'low'
+}
+
+/** Todos imported from a calendar keep that entry's UID; every other todo is identified by its id. */
+export const calendarUidOf = (todo: Todo) => todo.calendarUid ?? `${todo.id}@${UID_DOMAIN}`
+
+const property = (name: string, value: string, params: Record<string, string> = {}): ICalProperty => ({
+  name,
+  params,
+  value,
+})
+
+const toDateValue = (date: string) => date.replace(/-/g, '')
+
+const toUtcValue = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+// Timed due dates keep their wall-clock time and IANA zone; calendar apps resolve `TZID` names on their own.
+const dueProperty = (name: string, todo: Todo & { dueDate: string }) => {
+  if (!todo.dueTime) return property(name, toDateValue(todo.dueDate), { VALUE: 'DATE' })
+  const value = `${toDateValue(todo.dueDate)}T${todo.dueTime.replace(':', '')}00`
+  if (todo.dueTimeZone === 'UTC') return property(name, `${value}Z`)
+  return property(name, value, todo.dueTimeZone ? { TZID: todo.dueTimeZone } : {})
+}
+
+// Rules repeating from the completion date have no RRULE equivalent and are left out.
+const toRecurrenceValue = (rule: RecurrenceRule) => {
+  switch (rule.type) {
+    case 'daily':
+      return 'FREQ=DAILY'
+    case 'weekly':
+      return `FREQ=WEEKLY;BYDAY=${[...rule.weekdays]
+        .sort((a, b) => a - b)
+        .map((day) => WEEKDAY_CODES[day])
+        .join(',')}`
+    case 'monthly':
+      return `FREQ=MONTHLY;BYMONTHDAY=${rule.dayOfMonth}`
+    case 'after-completion':
+      return null
+  }
+}
+
+const entryProperties = (todo: Todo, stamp: string): ICalProperty[] => {
+  const recurrence = todo.recurrence ? toRecurrenceValue(todo.recurrence) : null
+  return [
+    property('UID', escapeText(calendarUidOf(todo))),
+    property('DTSTAMP', stamp),
+    property('CREATED', toUtcValue(todo.createdAt)),
+    property('LAST-MODIFIED', toUtcValue(todo.updatedAt)),
+    property('SUMMARY', escapeText(todo.title)),
+    ...(todo.description ? [property('DESCRIPTION', escapeText(todo.description))] : []),
+    ...(todo.tags.length > 0 ? [property('CATEGORIES', todo.tags.map(escapeText).join(','))] : []),
+    ...(todo.priority !== 'none' ? [property('PRIORITY', String(PRIORITY_VALUES[todo.priority]))] : []),
+    ...(recurrence ? [property('RRULE', recurrence)] : []),
+  ]
+}
+
+const toTodoComponent = (todo: Todo & { dueDate: string }, stamp: string): ICalComponent => ({
+  name: 'VTODO',
+  properties: [
+    ...entryProperties(todo, stamp),
+    dueProperty('DUE', todo),
+    property('STATUS', todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'),
+    ...(todo.completed ? [property('PERCENT-COMPLETE', '100')] : []),
+  ],
+  components: [],
+})
+
+// Events have no completed state, so a completed todo becomes a cancelled event.
+const toEventComponent = (todo: Todo & { dueDate: string }, stamp: string): ICalComponent => ({
+  name: 'VEVENT',
+  properties: [
+    ...entryProperties(todo, stamp),
+    property('DTSTART', toDateValue(todo.dueDate), { VALUE: 'DATE' }),
+    property('DTEND', format(addDays(parseISO(todo.dueDate), 1), 'yyyyMMdd'), { VALUE: 'DATE' }),
+    ...(todo.dueTime ? [dueProperty(DUE_EXTENSION, todo)] : []),
+    property('TRANSP', 'TRANSPARENT'),
+    property('STATUS', todo.completed ? 'CANCELLED' : 'CONFIRMED'),
+  ],
+  components: [],
+})
+
+/** An iCalendar file with one entry per todo that has a due date; todos without one are left out. */
+export const toIcsExport = (todos: Todo[], component: CalendarComponent, exportedAt = new Date()) => {
+  const stamp = toUtcValue(exportedAt.toISOString())
+  const toComponent = component === 'VTODO' ? toTodoComponent : toEventComponent
+  return formatICal({
+    name: 'VCALENDAR',
+    properties: [
+      property('VERSION', '2.0'),
+      property('PRODID', PRODUCT_ID),
+      property('CALSCALE', 'GREGORIAN'),
+      property('METHOD', 'PUBLISH'),
+    ],
+    components: todos
+      .filter((todo): todo is Todo & { dueDate: string } => Boolean(todo.dueDate))
+      .map((todo) => toComponent(todo, stamp)),
+  })
+}
+
+const DATE_VALUE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/
+
+/**
+ * UTC times are kept in UTC. A `TZID` that is not an IANA zone (Outlook writes Windows zone names) is
+ * dropped, so the time is read in the importer's own zone, as are floating times.
+ */
+const readDue = ({ value, params }: ICalProperty) => {
+  const match = DATE_VALUE_PATTERN.exec(value.trim())
+  if (!match) return { dueDate: value.trim(), dueTime: null, dueTimeZone: null }
+  const [, year, month, day, hours, minutes, utc] = match
+  const dueDate = `${year}-${month}-${day}`
+  if (!hours || params.VALUE === 'DATE') return { dueDate, dueTime: null, dueTimeZone: null }
+  const zone = utc ? 'UTC' : params.TZID && isValidTimeZone(params.TZID) ? params.TZID : null
+  return { dueDate, dueTime: `${hours}:${minutes}`, dueTimeZone: zone }
+}
+
+// Only rules the recurrence editor can express are imported; anything else (intervals, "first Monday") is dropped.
+const readRecurrence = (value: string, dueDate: string | null): RecurrenceRule | null => {
+  const parts = new Map(
+    value.split(';').map((part) => {
+      const [key, ...rest] = part.split('=')
+      return [key.trim().toUpperCase(), rest.join('=').trim().toUpperCase()] as const
+    }),
+  )
+  if ((parts.get('INTERVAL') ?? '1') !== '1') return null
+  const anchor = dueDate && isCalendarDate(dueDate) ? parseISO(dueDate) : null
+
+  switch (parts.get('FREQ')) {
+    case 'DAILY':
+      return { type: 'daily' }
+    case 'WEEKLY': {
+      const byDay = parts.get('BYDAY')
+      const weekdays = byDay ? byDay.split(',').map((day) => WEEKDAY_CODES.indexOf(day)) : anchor ? [anchor.getDay()] : []
+      if (weekdays.length === 0 || weekdays.includes(-1)) return null
+      return { type: 'weekly', weekdays: [...new Set(weekdays)].sort((a, b) => a - b) }
+    }
+    case 'MONTHLY': {
+      const byMonthDay = parts.get('BYMONTHDAY')
+      const dayOfMonth = byMonthDay ? Number(byMonthDay) : anchor?.getDate()
+      if (!dayOfMonth || !Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) return null
+      return { type: 'monthly', dayOfMonth }
+    }
+    default:
+      return null
+  }
+}
+
+const readText = (component: ICalComponent, name: string) => {
+  const match = getProperty(component, name)
+  return match ? unescapeText(match.value) : undefined
+}
+
+const isCompleted = (component: ICalComponent) => {
+  const status = getProperty(component, 'STATUS')?.value.trim().toUpperCase()
+  if (component.name === 'VEVENT') return status === 'CANCELLED'
+  return (
+    status === 'COMPLETED' ||
+    status === 'CANCELLED' ||
+    Boolean(getProperty(component, 'COMPLETED')) ||
+    getProperty(component, 'PERCENT-COMPLETE')?.value.trim() === '100'
+  )
+}
+
+const toRecord = (component: ICalComponent): Record<string, unknown> => {
+  const dueSource =
+    component.name === 'VTODO'
+      ? (getProperty(component, 'DUE') ?? getProperty(component, 'DTSTART'))
+      : (getProperty(component, DUE_EXTENSION) ?? getProperty(component, 'DTSTART'))
+  const due = dueSource ? readDue(dueSource) : { dueDate: null, dueTime: null, dueTimeZone: null }
+  const rule = getProperty(component, 'RRULE')
+  const priority = getProperty(component, 'PRIORITY')
+
+  return {
+    calendarUid: readText(component, 'UID'),
+    title: readText(component, 'SUMMARY') ?? '',
+    description: readText(component, 'DESCRIPTION') ?? '',
+    ...due,
+    completed: isCompleted(component),
+    priority: priority ? toPriority(Number(priority.value)) : 'none',
+    tags: getProperties(component, 'CATEGORIES').flatMap((categories) => splitTextList(categories.value)),
+    ...(rule ? { recurrence: readRecurrence(rule.value, due.dueDate) } : {}),
+  }
+}
+
+/**
+ * Reads the to-dos and events of an iCalendar file as import records. Entries overriding a single
+ * occurrence of a recurring event (`RECURRENCE-ID`) are skipped; the series itself is imported once.
+ * Throws `ImportFormatError` when the file is not a calendar or holds no entries.
+ */
+export const readCalendarRecords = (text: string): Record<string, unknown>[] => {
+  let roots: ICalComponent[]
+  try {
+    roots = parseICal(text)
+  } catch (error) {
+    throw new ImportFormatError(error instanceof Error ? error.message : 'The file is not a valid calendar')
+  }
+  const calendars = roots.filter((root) => root.name === 'VCALENDAR')
+  if (calendars.length === 0) {
+    throw new ImportFormatError('Expected an iCalendar file starting with BEGIN:VCALENDAR')
+  }
+  const entries = calendars
+    .flatMap((calendar) => calendar.components)
+    .filter((entry) => (entry.name === 'VTODO' || entry.name === 'VEVENT') && !getProperty(entry, 'RECURRENCE-ID'))
+  if (entries.length === 0) {
+    throw new ImportFormatError('The calendar has no to-dos or events')
+  }
+  return entries.map(toRecord)
+}
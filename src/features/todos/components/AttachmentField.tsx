@@ -0,0 +1,156 @@
+import { useRef, useState, type DragEvent } from 'react'
+import { Paperclip, Undo2, Upload, X } from 'lucide-react'
+import clsx from 'clsx'
+
+import { DEFAULT_ATTACHMENT_LIMITS } from '../api/repositories/attachmentRepository'
+import type { Attachment } from '../types'
+import { formatFileSize } from '../../../utils/fileSize'
+
+type AttachmentFieldProps = {
+  attachments: Attachment[]
+  removedIds: string[]
+  onToggleRemove: (id: string) => void
+  pendingFiles: File[]
+  onPendingFilesChange: (files: File[]) => void
+  disabled?: boolean
+}
+
+const limits = DEFAULT_ATTACHMENT_LIMITS
+
+/** Existing attachments can be marked for removal and new files queued; nothing is stored until the form saves. */
+export const AttachmentField = ({
+  attachments,
+  removedIds,
+  onToggleRemove,
+  pendingFiles,
+  onPendingFilesChange,
+  disabled = false,
+}: AttachmentFieldProps) => {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [dragging, setDragging] = useState(false)
+  const [rejections, setRejections] = useState<string[]>([])
+
+  const kept = attachments.filter((attachment) => !removedIds.includes(attachment.id))
+
+  // Mirrors the repository's per-todo quotas so oversized files are turned away before saving.
+  const addFiles = (files: File[]) => {
+    const accepted = [...pendingFiles]
+    const rejected: string[] = []
+    let count = kept.length + accepted.length
+    let bytes = [...kept, ...accepted].reduce((sum, file) => sum + file.size, 0)
+    files.forEach((file) => {
+      if (file.size > limits.maxFileBytes) {
+        rejected.push(`“${file.name}” is larger than ${formatFileSize(limits.maxFileBytes)}.`)
+      } else if (count >= limits.maxFilesPerTodo) {
+        rejected.push(`“${file.name}” was skipped: a todo can have at most ${limits.maxFilesPerTodo} attachments.`)
+      } else if (bytes + file.size > limits.maxTodoBytes) {
+        rejected.push(`“${file.name}” would take this todo over ${formatFileSize(limits.maxTodoBytes)}.`)
+      } else {
+        accepted.push(file)
+        count += 1
+        bytes += file.size
+      }
+    })
+    setRejections(rejected)
+    onPendingFilesChange(accepted)
+  }
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    if (disabled || !event.dataTransfer.types.includes('Files')) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'copy'
+    setDragging(true)
+  }
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setDragging(false)
+    if (disabled) return
+    addFiles(Array.from(event.dataTransfer.files))
+  }
+
+  return (
+    <div className="attachment-field">
+      <div
+        className={clsx('attachment-field__dropzone', { 'attachment-field__dropzone--active': dragging })}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+      >
+        <Upload aria-hidden="true" />
+        <span>Drop files here or</span>
+        <button
+          type="button"
+          className="btn btn--ghost btn--sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+        >
+          Choose files
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          hidden
+          onChange={(event) => {
+            addFiles(Array.from(event.target.files ?? []))
+            event.target.value = ''
+          }}
+        />
+      </div>
+      <p className="field-hint">
+        Up to {limits.maxFilesPerTodo} files, {formatFileSize(limits.maxFileBytes)} each and{' '}
+        {formatFileSize(limits.maxTodoBytes)} per todo.
+      </p>
+
+      {attachments.length > 0 || pendingFiles.length > 0 ? (
+        <ul className="attachment-field__list">
+          {attachments.map((attachment) => {
+            const removed = removedIds.includes(attachment.id)
+            return (
+              <li
+                key={attachment.id}
+                className={clsx('attachment-field__item', { 'attachment-field__item--removed': removed })}
+              >
+                <Paperclip aria-hidden="true" />
+                <span className="attachment-field__name">{attachment.name}</span>
+                <span className="attachment-field__size">{formatFileSize(attachment.size)}</span>
+                <button
+                  type="button"
+                  className="btn btn--ghost btn--icon"
+                  onClick={() => onToggleRemove(attachment.id)}
+                  disabled={disabled}
+                  aria-label={removed ? `Keep ${attachment.name}` : `Remove ${attachment.name}`}
+                >
+                  {removed ? <Undo2 aria-hidden="true" /> : <X aria-hidden="true" />}
+                </button>
+              </li>
+            )
+          })}
+          {pendingFiles.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="attachment-field__item attachment-field__item--pending">
+              <Upload aria-hidden="true" />
+              <span className="attachment-field__name">{file.name}</span>
+              <span className="attachment-field__size">{formatFileSize(file.size)}</span>
+              <button
+                type="button"
+                className="btn btn--ghost btn--icon"
+                onClick={() => onPendingFilesChange(pendingFiles.filter((_, fileIndex) => fileIndex !== index))}
+                disabled={disabled}
+                aria-label={`Don't attach ${file.name}`}
+              >
+                <X aria-hidden="true" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {rejections.map((message) => (
+        <p key={message} className="field-error">
+          {message}
+        </p>
+      ))}
+    </div>
+  )
+}
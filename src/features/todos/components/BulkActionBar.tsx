@@ -0,0 +1,120 @@
+import { useState, type FormEvent } from 'react'
+import { CalendarClock, CalendarX, CheckCircle2, RotateCcw, Trash2, X } from 'lucide-react'
+
+import type { BulkTodoChange } from '../types'
+
+type BulkActionBarProps = {
+  selectedCount: number
+  visibleCount: number
+  busy: boolean
+  onChange: (change: BulkTodoChange) => void
+  onDelete: () => void
+  onSelectAll: () => void
+  onClear: () => void
+}
+
+export const BulkActionBar = ({
+  selectedCount,
+  visibleCount,
+  busy,
+  onChange,
+  onDelete,
+  onSelectAll,
+  onClear,
+}: BulkActionBarProps) => {
+  const [dueDate, setDueDate] = useState('')
+  const [shiftDays, setShiftDays] = useState('1')
+
+  const days = Number(shiftDays)
+  const canShift = Number.isInteger(days) && days !== 0 && Math.abs(days) <= 365
+
+  const handleSetDueDate = (event: FormEvent) => {
+    event.preventDefault()
+    onChange({ type: 'set-due-date', dueDate: dueDate || null })
+  }
+
+  const handleShift = (event: FormEvent) => {
+    event.preventDefault()
+    if (canShift) onChange({ type: 'shift-due-date', days })
+  }
+
+  return (
+    <section className="bulk-bar" aria-label="Bulk actions">
+      <div className="bulk-bar__selection">
+        <strong role="status">
+          {selectedCount} {selectedCount === 1 ? 'todo' : 'todos'} selected
+        </strong>
+        {selectedCount < visibleCount ? (
+          <button type="button" className="btn btn--ghost btn--sm" onClick={onSelectAll}>
+            Select all {visibleCount}
+          </button>
+        ) : null}
+        <button type="button" className="btn btn--ghost btn--sm" onClick={onClear}>
+          <X aria-hidden="true" />
+          <span>Clear selection</span>
+        </button>
+      </div>
+
+      <div className="bulk-bar__actions">
+        <button
+          type="button"
+          className="btn btn--secondary btn--sm"
+          onClick={() => onChange({ type: 'complete' })}
+          disabled={busy}
+        >
+          <CheckCircle2 aria-hidden="true" />
+          <span>Complete</span>
+        </button>
+        <button
+          type="button"
+          className="btn btn--secondary btn--sm"
+          onClick={() => onChange({ type: 'reopen' })}
+          disabled={busy}
+        >
+          <RotateCcw aria-hidden="true" />
+          <span>Reopen</span>
+        </button>
+
+        <form className="bulk-bar__form" onSubmit={handleSetDueDate}>
+          <label className="select-field">
+            <span className="select-field__label">Due date</span>
+            <input
+              type="date"
+              className="input"
+              value={dueDate}
+              onChange={(event) => setDueDate(event.target.value)}
+            />
+          </label>
+          <button type="submit" className="btn btn--ghost btn--sm" disabled={busy}>
+            {dueDate ? <CalendarClock aria-hidden="true" /> : <CalendarX aria-hidden="true" />}
+            <span>{dueDate ? 'Set due date' : 'Clear due date'}</span>
+          </button>
+        </form>
+
+        <form className="bulk-bar__form" onSubmit={handleShift}>
+          <label className="select-field">
+            <span className="select-field__label">Shift by days</span>
+            <input
+              type="number"
+              className="input"
+              value={shiftDays}
+              onChange={(event) => setShiftDays(event.target.value)}
+              min={-365}
+              max={365}
+              step={1}
+            />
+          </label>
+          <button type="submit" className="btn btn--ghost btn--sm" disabled={busy || !canShift}>
+            <CalendarClock aria-hidden="true" />
+            <span>Shift due dates</span>
+          </button>
+        </form>
+
+        <button type="button" className="btn btn--danger btn--sm" onClick={onDelete} disabled={busy}>
+          <Trash2 aria-hidden="true" />
+          <span>Delete</span>
+        </button>
+      </div>
+    </section>
+  )
+}
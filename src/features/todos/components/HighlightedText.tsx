@@ -0,0 +1,22 @@
+import { Fragment } from 'react'
+
+import { splitHighlights } from '../search'
+
+type HighlightedTextProps = {
+  text: string
+  terms?: string[]
+}
+
+export const HighlightedText = ({ text, terms = [] }: HighlightedTextProps) => (
+  <>
+    {splitHighlights(text, terms).map((part, index) =>
+      part.match ? (
+        <mark key={index} className="search-highlight">
+          {part.text}
+        </mark>
+      ) : (
+        <Fragment key={index}>{part.text}</Fragment>
+      ),
+    )}
+  </>
+)
@@ -0,0 +1,430 @@
+import { useMemo, useState, type ChangeEvent } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { CalendarDays, Download, Upload } from 'lucide-react'
+import clsx from 'clsx'
+import { format } from 'date-fns'
+
+import { Modal } from '../../../components/Modal'
+import { useToast } from '../../../components/toast/ToastProvider'
+import { usePreferences } from '../../../components/preferences/preferencesContext'
+import { todoApi } from '../api/todoApi'
+import type { TodoQuery } from '../api/repository'
+import { todoKeys } from '../queryKeys'
+import type { TodoListSummary } from '../types'
+import {
+  IMPORT_FIELDS,
+  applyFieldMapping,
+  guessFieldMapping,
+  parseImportFile,
+  toCsvExport,
+  toImportUpdate,
+  toJsonExport,
+  validateImport,
+  type ExportFormat,
+  type FieldMapping,
+  type ImportField,
+  type ImportRow,
+  type ParsedImport,
+} from '../importExport'
+import { toIcsExport, type CalendarComponent } from '../calendar'
+import { downloadFile } from '../../../utils/download'
+
+type ImportExportModalProps = {
+  open: boolean
+  onClose: () => void
+  lists: TodoListSummary[]
+  activeListId: string
+  /** The list, filters and sort on screen; `undefined` when the current view (the trash) cannot be exported. */
+  viewQuery?: TodoQuery
+}
+
+type ExportScope = 'all' | 'view'
+
+type LoadedFile = {
+  name: string
+  parsed: ParsedImport
+}
+
+type ImportReport = {
+  created: number
+  updated: number
+  skipped: number
+  failures: { row: number; message: string }[]
+}
+
+const PREVIEW_LIMIT = 100
+
+const EXPORT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  ics: 'text/calendar',
+}
+
+const CALENDAR_COMPONENTS: { value: CalendarComponent; label: string }[] = [
+  { value: 'VTODO', label: 'To-dos' },
+  { value: 'VEVENT', label: 'All-day events' },
+]
+
+const describeStatus = (row: ImportRow) => {
+  if (row.errors.length > 0) return row.errors.join('; ')
+  if (row.updateId) return ['Updates the existing todo', ...row.warnings].join('; ')
+  const notes = row.duplicate ? [`Duplicate ${row.duplicate === 'id' ? 'id' : 'title'}`, ...row.warnings] : row.warnings
+  return notes.length > 0 ? notes.join('; ') : 'Ready'
+}
+
+export const ImportExportModal = ({ open, onClose, lists, activeListId, viewQuery }: ImportExportModalProps) => {
+  const queryClient = useQueryClient()
+  const toast = useToast()
+  const { timeZone } = usePreferences()
+
+  const [exportScope, setExportScope] = useState<ExportScope>('all')
+  const [calendarComponent, setCalendarComponent] = useState<CalendarComponent>('VTODO')
+  const [file, setFile] = useState<LoadedFile | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [mapping, setMapping] = useState<FieldMapping | null>(null)
+  const [targetListId, setTargetListId] = useState(activeListId)
+  const [skipDuplicates, setSkipDuplicates] = useState(true)
+  const [report, setReport] = useState<ImportReport | null>(null)
+
+  // Every stored todo, so duplicates are found across lists and not only among the loaded pages.
+  const { data: existing = [], isLoading: isExistingLoading } = useQuery({
+    queryKey: todoKeys.list(),
+    queryFn: ({ signal }) => todoApi.list({}, { signal }),
+    select: (data) => data.items,
+    enabled: open && file !== null,
+  })
+
+  const rows = useMemo(() => {
+    if (!file) return []
+    const records =
+      file.parsed.format === 'csv'
+        ? applyFieldMapping(file.parsed.rows, mapping ?? guessFieldMapping(file.parsed.headers))
+        : file.parsed.records
+    return validateImport(records, { existing, lists, fallbackListId: targetListId, timeZone })
+  }, [file, mapping, existing, lists, targetListId, timeZone])
+
+  const invalidRows = rows.filter((row) => row.errors.length > 0)
+  const duplicateRows = rows.filter((row) => row.input && row.duplicate)
+  const updateRows = rows.filter((row) => row.updateId)
+  const importable = rows.filter((row) => row.input && !(skipDuplicates && row.duplicate))
+
+  const exportMutation = useMutation({
+    mutationFn: async (exportFormat: ExportFormat) => {
+      const query = exportScope === 'view' && viewQuery ? { ...viewQuery, cursor: null, limit: undefined } : {}
+      const { items } = await todoApi.list(query)
+      // Calendars only take todos with a due date.
+      const exported = exportFormat === 'ics' ? items.filter((todo) => todo.dueDate) : items
+      const content =
+        exportFormat === 'json'
+          ? toJsonExport(exported)
+          : exportFormat === 'csv'
+            ? toCsvExport(exported, lists)
+            : toIcsExport(exported, calendarComponent)
+      downloadFile(`todos-${format(new Date(), 'yyyy-MM-dd')}.${exportFormat}`, content, EXPORT_TYPES[exportFormat])
+      return exported.length
+    },
+    onSuccess: (count) => {
+      toast.push({ intent: 'success', title: 'Export ready', description: `${count} todos were exported.` })
+    },
+    onError: (mutationError) => {
+      toast.push({
+        intent: 'error',
+        title: 'Unable to export todos',
+        description: mutationError instanceof Error ? mutationError.message : 'Something went wrong. Please try again.',
+      })
+    },
+  })
+
+  // Todos are saved one by one, so a failing row is reported without stopping the rows after it.
+  const importMutation = useMutation({
+    mutationFn: async (toImport: ImportRow[]): Promise<ImportReport> => {
+      const failures: ImportReport['failures'] = []
+      let created = 0
+      let updated = 0
+      for (const row of toImport) {
+        if (!row.input) continue
+        try {
+          if (row.updateId) {
+            await todoApi.update(row.updateId, toImportUpdate(row.input), { timeZone })
+            updated += 1
+          } else {
+            await todoApi.create(row.input)
+            created += 1
+          }
+        } catch (error) {
+          failures.push({ row: row.row, message: error instanceof Error ? error.message : 'Unable to save todo' })
+        }
+      }
+      return { created, updated, skipped: rows.length - toImport.length, failures }
+    },
+    onSuccess: (result) => {
+      setReport(result)
+      setFile(null)
+      setMapping(null)
+      toast.push({
+        intent: result.failures.length > 0 ? 'warning' : 'success',
+        title: `${result.created + result.updated} todos imported`,
+        description:
+          result.failures.length > 0 ? `${result.failures.length} rows failed; see the import report.` : undefined,
+      })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: todoKeys.all })
+      queryClient.invalidateQueries({ queryKey: todoKeys.lists })
+      queryClient.invalidateQueries({ queryKey: todoKeys.tags })
+    },
+  })
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0]
+    event.target.value = ''
+    setReport(null)
+    if (!selected) return
+    try {
+      const parsed = parseImportFile(await selected.text(), selected.name)
+      setFile({ name: selected.name, parsed })
+      setTargetListId(activeListId)
+      setMapping(parsed.format === 'csv' ? guessFieldMapping(parsed.headers) : null)
+      setFileError(null)
+    } catch (error) {
+      setFile(null)
+      setMapping(null)
+      setFileError(error instanceof Error ? error.message : 'The file could not be read')
+    }
+  }
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping((previous) => previous && { ...previous, [field]: value === '' ? null : Number(value) })
+  }
+
+  const handleClose = () => {
+    setFile(null)
+    setMapping(null)
+    setFileError(null)
+    setReport(null)
+    onClose()
+  }
+
+  const csvHeaders = file?.parsed.format === 'csv' ? file.parsed.headers : null
+
+  return (
+    <Modal open={open} title="Import and export" onClose={handleClose} dismissLabel="Close import and export" size="lg">
+      <div className="transfer">
+        <section className="transfer__section" aria-labelledby="transfer-export-title">
+          <h3 id="transfer-export-title" className="transfer__title">
+            Export
+          </h3>
+          <div className="form-field--inline" role="radiogroup" aria-label="Todos to export">
+            <label className="checkbox-field">
+              <input
+                type="radio"
+                name="export-scope"
+                checked={exportScope === 'all'}
+                onChange={() => setExportScope('all')}
+              />
+              <span>All todos</span>
+            </label>
+            <label className="checkbox-field">
+              <input
+                type="radio"
+                name="export-scope"
+                checked={exportScope === 'view'}
+                onChange={() => setExportScope('view')}
+                disabled={!viewQuery}
+              />
+              <span>Current list and filters</span>
+            </label>
+          </div>
+          <div className="transfer__actions">
+            <button
+              type="button"
+              className="btn btn--secondary"
+              onClick={() => exportMutation.mutate('json')}
+              disabled={exportMutation.isPending}
+            >
+              <Download aria-hidden="true" />
+              <span>Export JSON</span>
+            </button>
+            <button
+              type="button"
+              className="btn btn--secondary"
+              onClick={() => exportMutation.mutate('csv')}
+              disabled={exportMutation.isPending}
+            >
+              <Download aria-hidden="true" />
+              <span>Export CSV</span>
+            </button>
+          </div>
+          <div className="transfer__actions">
+            <label className="select-field">
+              <span className="select-field__label">Calendar entries</span>
+              <select
+                value={calendarComponent}
+                onChange={(event) => setCalendarComponent(event.target.value as CalendarComponent)}
+              >
+                {CALENDAR_COMPONENTS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              className="btn btn--secondary"
+              onClick={() => exportMutation.mutate('ics')}
+              disabled={exportMutation.isPending}
+            >
+              <CalendarDays aria-hidden="true" />
+              <span>Export calendar</span>
+            </button>
+          </div>
+          <p className="field-hint">
+            JSON keeps recurrence and reminders; CSV opens in any spreadsheet. Calendars (.ics) get the todos that have
+            a due date, and importing the file again later updates those todos.
+          </p>
+        </section>
+
+        <section className="transfer__section" aria-labelledby="transfer-import-title">
+          <h3 id="transfer-import-title" className="transfer__title">
+            Import
+          </h3>
+          <div className="form-field">
+            <label htmlFor="transfer-file" className="form-label">
+              JSON, CSV or iCalendar file
+            </label>
+            <input
+              id="transfer-file"
+              type="file"
+              accept=".json,.csv,.ics,application/json,text/csv,text/calendar"
+              onChange={handleFileChange}
+            />
+            {fileError ? (
+              <p className="field-error" role="alert">
+                {fileError}
+              </p>
+            ) : null}
+          </div>
+
+          {file ? (
+            <>
+              <label className="select-field">
+                <span className="select-field__label">Todos without a known list go to</span>
+                <select value={targetListId} onChange={(event) => setTargetListId(event.target.value)}>
+                  {lists.map((list) => (
+                    <option key={list.id} value={list.id}>
+                      {list.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              {csvHeaders && mapping ? (
+                <fieldset className="transfer__mapping">
+                  <legend className="form-label">Columns</legend>
+                  {IMPORT_FIELDS.map(({ field, label }) => (
+                    <label key={field} className="select-field">
+                      <span className="select-field__label">{label}</span>
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(event) => handleMappingChange(field, event.target.value)}
+                      >
+                        <option value="">Not imported</option>
+                        {csvHeaders.map((header, index) => (
+                          <option key={index} value={index}>
+                            {header || `Column ${index + 1}`}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </fieldset>
+              ) : null}
+
+              <p className="transfer__summary" role="status">
+                {isExistingLoading
+                  ? 'Checking for duplicates…'
+                  : `${rows.length} rows · ${
+                      rows.length - invalidRows.length - duplicateRows.length - updateRows.length
+                    } new · ${updateRows.length} updates · ${duplicateRows.length} duplicates · ${
+                      invalidRows.length
+                    } with errors`}
+              </p>
+              <label className="checkbox-field">
+                <input
+                  type="checkbox"
+                  checked={skipDuplicates}
+                  onChange={(event) => setSkipDuplicates(event.target.checked)}
+                />
+                <span>Skip todos that already exist (same id, or same title in the same list)</span>
+              </label>
+
+              <div className="transfer__preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th scope="col">Row</th>
+                      <th scope="col">Title</th>
+                      <th scope="col">List</th>
+                      <th scope="col">Due</th>
+                      <th scope="col">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                      <tr
+                        key={row.row}
+                        className={clsx({
+                          'transfer__row--error': row.errors.length > 0,
+                          'transfer__row--duplicate': row.input && row.duplicate,
+                        })}
+                      >
+                        <td>{row.row}</td>
+                        <td>{row.input?.title ?? '—'}</td>
+                        <td>{lists.find((list) => list.id === row.input?.listId)?.name ?? '—'}</td>
+                        <td>{row.input?.dueDate ?? '—'}</td>
+                        <td>{describeStatus(row)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {rows.length > PREVIEW_LIMIT ? (
+                  <p className="field-hint">Showing the first {PREVIEW_LIMIT} of {rows.length} rows.</p>
+                ) : null}
+              </div>
+
+              <div className="transfer__actions">
+                <button
+                  type="button"
+                  className="btn btn--primary"
+                  onClick={() => importMutation.mutate(importable)}
+                  disabled={importMutation.isPending || isExistingLoading || importable.length === 0}
+                >
+                  <Upload aria-hidden="true" />
+                  <span>{importMutation.isPending ? 'Importing…' : `Import ${importable.length} todos`}</span>
+                </button>
+              </div>
+            </>
+          ) : null}
+
+          {report ? (
+            <div className="transfer__report" role="status">
+              <p>
+                Created {report.created} and updated {report.updated} todos; {report.skipped} rows were skipped.
+              </p>
+              {report.failures.length > 0 ? (
+                <ul>
+                  {report.failures.map((failure) => (
+                    <li key={failure.row}>
+                      Row {failure.row}: {failure.message}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
+          ) : null}
+        </section>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,204 @@
+import { useState, type FormEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Check, Edit2, FolderPlus, Trash2, X } from 'lucide-react'
+import clsx from 'clsx'
+
+import { useToast } from '../../../components/toast/ToastProvider'
+import { todoApi } from '../api/todoApi'
+import { todoKeys } from '../queryKeys'
+import { INBOX_LIST_ID, type TodoListSummary } from '../types'
+
+type ListSidebarProps = {
+  lists: TodoListSummary[]
+  activeListId: string
+  onSelect: (listId: string) => void
+}
+
+export const ListSidebar = ({ lists, activeListId, onSelect }: ListSidebarProps) => {
+  const queryClient = useQueryClient()
+  const toast = useToast()
+  const [newListName, setNewListName] = useState('')
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: todoKeys.lists })
+  }
+
+  const onError = (title: string) => (mutationError: unknown) => {
+    toast.push({
+      intent: 'error',
+      title,
+      description: mutationError instanceof Error ? mutationError.message : 'Something went wrong. Please try again.',
+    })
+  }
+
+  const createMutation = useMutation({
+    mutationFn: (name: string) => todoApi.lists.create({ name }),
+    onSuccess: (created) => {
+      setNewListName('')
+      onSelect(created.id)
+    },
+    onError: onError('Unable to create list'),
+    onSettled: invalidate,
+  })
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) => todoApi.lists.update(id, { name }),
+    onError: onError('Unable to rename list'),
+    onSettled: invalidate,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => todoApi.lists.delete(id),
+    onSuccess: (_, id) => {
+      const deleted = lists.find((list) => list.id === id)
+      if (id === activeListId) onSelect(INBOX_LIST_ID)
+      toast.push({
+        intent: 'info',
+        title: 'List deleted',
+        description: deleted ? `Todos from “${deleted.name}” were moved to the inbox.` : undefined,
+      })
+    },
+    onError: onError('Unable to delete list'),
+    onSettled: () => {
+      invalidate()
+      queryClient.invalidateQueries({ queryKey: todoKeys.all })
+    },
+  })
+
+  const handleCreate = (event: FormEvent) => {
+    event.preventDefault()
+    const name = newListName.trim()
+    if (name) createMutation.mutate(name)
+  }
+
+  const busy = createMutation.isPending || renameMutation.isPending || deleteMutation.isPending
+
+  return (
+    <aside className="list-sidebar" aria-label="Lists">
+      <h2 className="list-sidebar__title">Lists</h2>
+      <ul className="list-sidebar__items">
+        {lists.map((list) => (
+          <ListSidebarItem
+            key={list.id}
+            list={list}
+            active={list.id === activeListId}
+            disabled={busy}
+            onSelect={() => onSelect(list.id)}
+            onRename={(name) => renameMutation.mutate({ id: list.id, name })}
+            onDelete={list.id === INBOX_LIST_ID ? undefined : () => deleteMutation.mutate(list.id)}
+          />
+        ))}
+      </ul>
+      <form className="list-sidebar__create" onSubmit={handleCreate}>
+        <input
+          className="input"
+          placeholder="New list"
+          aria-label="New list name"
+          value={newListName}
+          onChange={(event) => setNewListName(event.target.value)}
+          maxLength={40}
+        />
+        <button type="submit" className="btn btn--ghost btn--icon" disabled={busy || !newListName.trim()}>
+          <FolderPlus aria-hidden="true" />
+          <span className="sr-only">Create list</span>
+        </button>
+      </form>
+    </aside>
+  )
+}
+
+type ListSidebarItemProps = {
+  list: TodoListSummary
+  active: boolean
+  disabled: boolean
+  onSelect: () => void
+  onRename: (name: string) => void
+  onDelete?: () => void
+}
+
+const ListSidebarItem = ({ list, active, disabled, onSelect, onRename, onDelete }: ListSidebarItemProps) => {
+  const [editing, setEditing] = useState(false)
+  const [name, setName] = useState(list.name)
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+
+  const submitRename = (event: FormEvent) => {
+    event.preventDefault()
+    const trimmed = name.trim()
+    if (trimmed && trimmed !== list.name) onRename(trimmed)
+    setEditing(false)
+  }
+
+  if (editing) {
+    return (
+      <li className="list-sidebar__item">
+        <form className="list-sidebar__rename" onSubmit={submitRename}>
+          <input
+            className="input"
+            aria-label={`Rename ${list.name}`}
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={40}
+            autoFocus
+          />
+          <button type="submit" className="btn btn--ghost btn--icon" disabled={disabled}>
+            <Check aria-hidden="true" />
+            <span className="sr-only">Save name</span>
+          </button>
+          <button
+            type="button"
+            className="btn btn--ghost btn--icon"
+            onClick={() => {
+              setName(list.name)
+              setEditing(false)
+            }}
+          >
+            <X aria-hidden="true" />
+            <span className="sr-only">Cancel rename</span>
+          </button>
+        </form>
+      </li>
+    )
+  }
+
+  return (
+    <li className="list-sidebar__item">
+      <button
+        type="button"
+        className={clsx('list-sidebar__link', `list-sidebar__link--${list.color}`, {
+          'list-sidebar__link--active': active,
+        })}
+        aria-current={active ? 'page' : undefined}
+        onClick={onSelect}
+      >
+        <span className="list-sidebar__dot" aria-hidden="true" />
+        <span className="list-sidebar__name">{list.name}</span>
+        <span className="list-sidebar__count" aria-label={`${list.activeCount} open todos`}>
+          {list.activeCount}
+        </span>
+      </button>
+      {confirmingDelete && onDelete ? (
+        <div className="list-sidebar__confirm" role="group" aria-label={`Confirm deleting ${list.name}`}>
+          <button type="button" className="btn btn--danger btn--sm" onClick={onDelete} disabled={disabled}>
+            Delete
+          </button>
+          <button type="button" className="btn btn--ghost btn--sm" onClick={() => setConfirmingDelete(false)}>
+            Keep
+          </button>
+        </div>
+      ) : (
+        <div className="list-sidebar__actions">
+          <button type="button" className="btn btn--ghost btn--icon" onClick={() => setEditing(true)}>
+            <Edit2 aria-hidden="true" />
+            <span className="sr-only">Rename {list.name}</span>
+          </button>
+          {onDelete ? (
+            <button type="button" className="btn btn--ghost btn--icon" onClick={() => setConfirmingDelete(true)}>
+              <Trash2 aria-hidden="true" />
+              <span className="sr-only">Delete {list.name}</span>
+            </button>
+          ) : null}
+        </div>
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,93 @@
+import { useMemo } from 'react'
+import clsx from 'clsx'
+
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../../../utils/markdown'
+import { HighlightedText } from './HighlightedText'
+
+type MarkdownTextProps = {
+  text: string
+  terms?: string[]
+  className?: string
+}
+
+const HEADING_TAGS = ['h3', 'h4', 'h5', 'h6'] as const
+
+const renderInline = (nodes: MarkdownInline[], terms: string[] | undefined) =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <HighlightedText key={index} text={node.text} terms={terms} />
+      case 'code':
+        return <code key={index}>{node.text}</code>
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children, terms)}</strong>
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children, terms)}</em>
+      case 'strike':
+        return <s key={index}>{renderInline(node.children, terms)}</s>
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow">
+            {renderInline(node.children, terms)}
+          </a>
+        )
+      case 'break':
+        return <br key={index} />
+    }
+  })
+
+// A list item holding a single paragraph renders its text directly, as a tight list.
+const renderItemContent = (blocks: MarkdownBlock[], terms: string[] | undefined) =>
+  blocks.length === 1 && blocks[0].type === 'paragraph'
+    ? renderInline(blocks[0].children, terms)
+    : renderBlocks(blocks, terms)
+
+const renderBlocks = (blocks: MarkdownBlock[], terms: string[] | undefined) =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children, terms)}</p>
+      case 'heading': {
+        // Descriptions sit below the todo title, so their headings start one level down.
+        const Heading = HEADING_TAGS[Math.min(block.level, HEADING_TAGS.length) - 1]
+        return <Heading key={index}>{renderInline(block.children, terms)}</Heading>
+      }
+      case 'code':
+        return (
+          <pre key={index} data-language={block.language ?? undefined}>
+            <code>{block.text}</code>
+          </pre>
+        )
+      case 'quote':
+        return <blockquote key={index}>{renderBlocks(block.children, terms)}</blockquote>
+      case 'list': {
+        const items = block.items.map((item, itemIndex) =>
+          item.checked === null ? (
+            <li key={itemIndex}>{renderItemContent(item.children, terms)}</li>
+          ) : (
+            <li key={itemIndex} className="markdown__task">
+              <input type="checkbox" checked={item.checked} disabled aria-label={item.checked ? 'Done' : 'Not done'} />
+              <div>{renderItemContent(item.children, terms)}</div>
+            </li>
+          ),
+        )
+        return block.ordered ? (
+          <ol key={index} start={block.start === 1 ? undefined : block.start}>
+            {items}
+          </ol>
+        ) : (
+          <ul key={index} className={clsx({ markdown__tasks: block.items.some((item) => item.checked !== null) })}>
+            {items}
+          </ul>
+        )
+      }
+      case 'rule':
+        return <hr key={index} />
+    }
+  })
+
+/** Renders Markdown as React elements; no HTML from the text reaches the page. */
+export const MarkdownText = ({ text, terms, className }: MarkdownTextProps) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text])
+  return <div className={clsx('markdown', className)}>{renderBlocks(blocks, terms)}</div>
+}
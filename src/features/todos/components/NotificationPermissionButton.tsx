@@ -0,0 +1,21 @@
+import { useState } from 'react'
+import { Bell } from 'lucide-react'
+
+const isSupported = () => typeof Notification !== 'undefined'
+
+export const NotificationPermissionButton = () => {
+  const [permission, setPermission] = useState(() => (isSupported() ? Notification.permission : 'denied'))
+
+  if (permission !== 'default') return null
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission())
+  }
+
+  return (
+    <button type="button" className="btn btn--ghost btn--sm" onClick={requestPermission}>
+      <Bell aria-hidden="true" />
+      <span>Enable reminder notifications</span>
+    </button>
+  )
+}
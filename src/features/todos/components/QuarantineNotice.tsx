@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query'
+import { AlertTriangle, Download } from 'lucide-react'
+
+import { todoApi } from '../api/todoApi'
+
+const quarantineQueryKey = ['storage', 'quarantine']
+
+export const QuarantineNotice = () => {
+  const { data: entries = [] } = useQuery({
+    queryKey: quarantineQueryKey,
+    queryFn: () => todoApi.listQuarantine(),
+    staleTime: Infinity,
+  })
+
+  if (entries.length === 0) return null
+
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'todo-quarantine.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="notice notice--warning" role="alert">
+      <AlertTriangle aria-hidden="true" />
+      <div className="notice__content">
+        <p className="notice__title">Some saved data couldn&apos;t be read</p>
+        <p className="notice__description">
+          {entries.length === 1 ? '1 stored record was' : `${entries.length} stored records were`} set aside instead
+          of being loaded. Your other todos are unaffected.
+        </p>
+      </div>
+      <button type="button" className="btn btn--ghost btn--sm" onClick={handleDownload}>
+        <Download aria-hidden="true" />
+        <span>Download backup</span>
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+import { useState, type FormEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Bookmark, BookmarkPlus, Star } from 'lucide-react'
+import clsx from 'clsx'
+
+import { useToast } from '../../../components/toast/ToastProvider'
+import { todoApi } from '../api/todoApi'
+import { todoKeys } from '../queryKeys'
+import type { SavedView } from '../types'
+import type { PageState } from '../useUrlFilters'
+import { SavedViewsModal } from './SavedViewsModal'
+
+type SavedViewsBarProps = {
+  views: SavedView[]
+  current: PageState
+  onApply: (view: SavedView) => void
+}
+
+const sameTags = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((tag) => b.some((other) => other.toLowerCase() === tag.toLowerCase()))
+
+const matchesView = ({ listId, filters }: PageState, view: SavedView) =>
+  view.listId === listId &&
+  view.filters.status === filters.status &&
+  view.filters.sort === filters.sort &&
+  view.filters.search === filters.search &&
+  view.filters.due === filters.due &&
+  view.filters.priority === filters.priority &&
+  sameTags(view.filters.tags, filters.tags)
+
+export const SavedViewsBar = ({ views, current, onApply }: SavedViewsBarProps) => {
+  const queryClient = useQueryClient()
+  const toast = useToast()
+  const [name, setName] = useState('')
+  const [isManagerOpen, setManagerOpen] = useState(false)
+
+  // The trash is not a filter combination worth keeping, so it cannot be saved as a view.
+  const { status, ...rest } = current.filters
+  const canSave = status !== 'trash'
+
+  const createMutation = useMutation({
+    mutationFn: (viewName: string) =>
+      todoApi.views.create({
+        name: viewName,
+        listId: current.listId,
+        filters: { ...rest, status: status === 'trash' ? 'all' : status },
+      }),
+    onSuccess: (created) => {
+      setName('')
+      toast.push({
+        intent: 'success',
+        title: 'View saved',
+        description: `Pin “${created.name}” from Manage views to keep it one click away.`,
+      })
+    },
+    onError: (mutationError) => {
+      toast.push({
+        intent: 'error',
+        title: 'Unable to save view',
+        description: mutationError instanceof Error ? mutationError.message : 'Something went wrong. Please try again.',
+      })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: todoKeys.views })
+    },
+  })
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault()
+    const trimmed = name.trim()
+    if (trimmed && canSave) createMutation.mutate(trimmed)
+  }
+
+  const activeView = views.find((view) => matchesView(current, view))
+  const pinned = views.filter((view) => view.pinned)
+  const unpinned = views.filter((view) => !view.pinned)
+
+  return (
+    <section className="saved-views" aria-label="Saved views">
+      <Bookmark aria-hidden="true" />
+      {views.length === 0 ? (
+        <p className="saved-views__empty">Save the current filters to come back to them later.</p>
+      ) : null}
+      {pinned.map((view) => (
+        <button
+          key={view.id}
+          type="button"
+          className={clsx('chip', { 'chip--active': view === activeView })}
+          onClick={() => onApply(view)}
+          aria-pressed={view === activeView}
+        >
+          {view.isDefault ? <Star aria-label="Default view" className="saved-views__default" /> : null}
+          {view.name}
+        </button>
+      ))}
+      {unpinned.length > 0 ? (
+        <label className="select-field">
+          <span className="select-field__label">{pinned.length > 0 ? 'More views' : 'Views'}</span>
+          <select
+            value={activeView && !activeView.pinned ? activeView.id : ''}
+            onChange={(event) => {
+              const view = unpinned.find((candidate) => candidate.id === event.target.value)
+              if (view) onApply(view)
+            }}
+          >
+            <option value="">Choose a view</option>
+            {unpinned.map((view) => (
+              <option key={view.id} value={view.id}>
+                {view.isDefault ? `${view.name} (default)` : view.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      ) : null}
+
+      <form className="saved-views__save" onSubmit={handleSave}>
+        <input
+          className="input"
+          placeholder="Name this view"
+          aria-label="Saved view name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          maxLength={40}
+          disabled={!canSave}
+        />
+        <button
+          type="submit"
+          className="btn btn--ghost btn--sm"
+          disabled={!canSave || createMutation.isPending || !name.trim()}
+        >
+          <BookmarkPlus aria-hidden="true" />
+          <span>Save view</span>
+        </button>
+      </form>
+      {views.length > 0 ? (
+        <button type="button" className="btn btn--ghost btn--sm" onClick={() => setManagerOpen(true)}>
+          Manage views
+        </button>
+      ) : null}
+
+      <SavedViewsModal open={isManagerOpen} onClose={() => setManagerOpen(false)} />
+    </section>
+  )
+}
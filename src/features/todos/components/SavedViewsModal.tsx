@@ -0,0 +1,175 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Pin, PinOff, Star, Trash2 } from 'lucide-react'
+
+import { Modal } from '../../../components/Modal'
+import { useToast } from '../../../components/toast/ToastProvider'
+import { todoApi } from '../api/todoApi'
+import { todoKeys } from '../queryKeys'
+import { SORT_OPTIONS } from '../todoQuery'
+import type { SavedView, UpdateSavedViewInput } from '../types'
+
+type SavedViewsModalProps = {
+  open: boolean
+  onClose: () => void
+}
+
+const describeView = (view: SavedView, listName: string | undefined) => {
+  const { status, due, priority, tags, search, sort } = view.filters
+  const parts = [listName ?? 'Inbox']
+  if (status !== 'all') parts.push(status)
+  if (due !== 'all') parts.push(due === 'soon' ? 'due soon' : 'overdue')
+  if (priority !== 'all') parts.push(`${priority} priority`)
+  if (tags.length > 0) parts.push(tags.map((tag) => `#${tag}`).join(' '))
+  if (search) parts.push(`“${search}”`)
+  parts.push(SORT_OPTIONS.find((option) => option.value === sort)?.label ?? sort)
+  return parts.join(' · ')
+}
+
+export const SavedViewsModal = ({ open, onClose }: SavedViewsModalProps) => {
+  const queryClient = useQueryClient()
+  const toast = useToast()
+
+  const { data: views = [], isLoading } = useQuery({
+    queryKey: todoKeys.views,
+    queryFn: ({ signal }) => todoApi.views.list({ signal }),
+    enabled: open,
+  })
+
+  const { data: lists = [] } = useQuery({
+    queryKey: todoKeys.lists,
+    queryFn: ({ signal }) => todoApi.lists.list({ signal }),
+    enabled: open,
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: todoKeys.views })
+  }
+
+  const onError = (title: string) => (mutationError: unknown) => {
+    toast.push({
+      intent: 'error',
+      title,
+      description: mutationError instanceof Error ? mutationError.message : 'Something went wrong. Please try again.',
+    })
+  }
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdateSavedViewInput }) => todoApi.views.update(id, input),
+    onError: onError('Unable to update view'),
+    onSettled: invalidate,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => todoApi.views.delete(id),
+    onError: onError('Unable to delete view'),
+    onSettled: invalidate,
+  })
+
+  const busy = updateMutation.isPending || deleteMutation.isPending
+
+  return (
+    <Modal open={open} title="Manage views" onClose={onClose} dismissLabel="Close view manager" size="lg">
+      {isLoading ? <p className="tag-manager__empty">Loading views…</p> : null}
+      {!isLoading && views.length === 0 ? (
+        <p className="tag-manager__empty">No saved views yet. Save the current filters from the views bar.</p>
+      ) : null}
+      {views.length > 0 ? (
+        <ul className="tag-manager">
+          {views.map((view) => (
+            <SavedViewRow
+              key={view.id}
+              view={view}
+              summary={describeView(view, lists.find((list) => list.id === view.listId)?.name)}
+              disabled={busy}
+              onUpdate={(input) => updateMutation.mutate({ id: view.id, input })}
+              onDelete={() => deleteMutation.mutate(view.id)}
+            />
+          ))}
+        </ul>
+      ) : null}
+    </Modal>
+  )
+}
+
+type SavedViewRowProps = {
+  view: SavedView
+  summary: string
+  disabled: boolean
+  onUpdate: (input: UpdateSavedViewInput) => void
+  onDelete: () => void
+}
+
+const SavedViewRow = ({ view, summary, disabled, onUpdate, onDelete }: SavedViewRowProps) => {
+  const [name, setName] = useState(view.name)
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+
+  const trimmed = name.trim()
+  const canRename = trimmed.length > 0 && trimmed !== view.name
+
+  return (
+    <li className="tag-manager__row">
+      <div className="tag-manager__identity">
+        <strong>{view.name}</strong>
+        <span className="tag-manager__count">{summary}</span>
+      </div>
+
+      <form
+        className="tag-manager__rename"
+        onSubmit={(event) => {
+          event.preventDefault()
+          if (canRename) onUpdate({ name: trimmed })
+        }}
+      >
+        <input
+          className="input"
+          aria-label={`Rename ${view.name}`}
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          maxLength={40}
+        />
+        <button type="submit" className="btn btn--ghost btn--sm" disabled={disabled || !canRename}>
+          Rename
+        </button>
+      </form>
+
+      <button
+        type="button"
+        className="btn btn--ghost btn--sm"
+        onClick={() => onUpdate({ pinned: !view.pinned })}
+        disabled={disabled}
+        aria-pressed={view.pinned}
+      >
+        {view.pinned ? <PinOff aria-hidden="true" /> : <Pin aria-hidden="true" />}
+        <span>{view.pinned ? 'Unpin' : 'Pin'}</span>
+      </button>
+
+      <button
+        type="button"
+        className="btn btn--ghost btn--sm"
+        onClick={() => onUpdate({ isDefault: !view.isDefault })}
+        disabled={disabled}
+        aria-pressed={view.isDefault}
+      >
+        <Star aria-hidden="true" />
+        <span>{view.isDefault ? 'Default view' : 'Set as default'}</span>
+      </button>
+
+      {confirmingDelete ? (
+        <div className="tag-manager__confirm" role="group" aria-label={`Confirm deleting ${view.name}`}>
+          <button type="button" className="btn btn--danger btn--sm" onClick={onDelete} disabled={disabled}>
+            Delete
+          </button>
+          <button type="button" className="btn btn--ghost btn--sm" onClick={() => setConfirmingDelete(false)}>
+            Keep
+          </button>
+        </div>
+      ) : (
+        <button type="button" className="btn btn--ghost btn--icon" onClick={() => setConfirmingDelete(true)}>
+          <Trash2 aria-hidden="true" />
+          <span className="sr-only">Delete {view.name}</span>
+        </button>
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState, type ReactNode } from 'react'
+import { formatDistanceToNowStrict, parseISO } from 'date-fns'
+import { AlertTriangle, CloudOff, Loader2, RefreshCw } from 'lucide-react'
+
+import type { OutboxEntry } from '../api/repository'
+
+type SyncStatusPanelProps = {
+  entries: OutboxEntry[]
+  online: boolean
+  replaying: boolean
+  /** `null` while offline or when nothing is waiting. */
+  nextAttemptAt: string | null
+  /** Whether the todos on screen are being refreshed. */
+  fetching: boolean
+  /** The last refresh failed, so the todos on screen are the ones loaded before it. */
+  stale: boolean
+  onSyncNow: () => void
+  onRetry: (id: string) => void
+  onDiscard: (id: string) => void
+}
+
+const describeChange = ({ operation, title }: OutboxEntry) => {
+  switch (operation.type) {
+    case 'create':
+      return `Add “${title}”`
+    case 'update':
+      return `Edit “${title}”`
+    case 'toggle':
+      return `Complete or reopen “${title}”`
+    case 'delete':
+      return `Move “${title}” to the trash`
+  }
+}
+
+const countChanges = (count: number) => (count === 1 ? '1 change' : `${count} changes`)
+
+// Re-renders every second while a retry is scheduled, so its countdown stays current.
+const useNow = (active: boolean) => {
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    if (!active) return
+    const intervalId = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(intervalId)
+  }, [active])
+  return now
+}
+
+export const SyncStatusPanel = ({
+  entries,
+  online,
+  replaying,
+  nextAttemptAt,
+  fetching,
+  stale,
+  onSyncNow,
+  onRetry,
+  onDiscard,
+}: SyncStatusPanelProps) => {
+  const pending = entries.filter((entry) => entry.status === 'pending')
+  const failed = entries.filter((entry) => entry.status === 'failed')
+  const now = useNow(Boolean(nextAttemptAt) && !replaying)
+
+  let status: { icon: ReactNode; message: string } | null = null
+  if (!online) {
+    status = {
+      icon: <CloudOff aria-hidden="true" />,
+      message:
+        pending.length > 0
+          ? `You're offline. ${countChanges(pending.length)} will sync when the connection returns.`
+          : "You're offline. Changes you make will sync when the connection returns.",
+    }
+  } else if (replaying) {
+    status = {
+      icon: <Loader2 className="spin" aria-hidden="true" />,
+      message: `Syncing ${countChanges(pending.length)}…`,
+    }
+  } else if (pending.length > 0) {
+    const retryAt = nextAttemptAt ? parseISO(nextAttemptAt) : null
+    status = {
+      icon: <CloudOff aria-hidden="true" />,
+      message:
+        retryAt && retryAt.getTime() > now
+          ? `${countChanges(pending.length)} waiting to sync · retrying in ${formatDistanceToNowStrict(retryAt)}`
+          : `${countChanges(pending.length)} waiting to sync`,
+    }
+  } else if (fetching) {
+    status = { icon: <Loader2 className="spin" aria-hidden="true" />, message: 'Syncing updates…' }
+  } else if (stale) {
+    status = {
+      icon: <AlertTriangle aria-hidden="true" />,
+      message: "Showing the todos loaded earlier; they couldn't be refreshed.",
+    }
+  }
+
+  if (!status && failed.length === 0) return null
+
+  const lastError = pending.find((entry) => entry.lastError)?.lastError
+
+  return (
+    <section className="sync-panel" aria-label="Sync status">
+      {status ? (
+        <div className="sync-panel__status" role="status" aria-live="polite">
+          {status.icon}
+          <div className="sync-panel__text">
+            <p className="sync-panel__message">{status.message}</p>
+            {online && !replaying && lastError ? <p className="sync-panel__detail">{lastError}</p> : null}
+          </div>
+          {pending.length > 0 ? (
+            <button
+              type="button"
+              className="btn btn--ghost btn--sm"
+              onClick={onSyncNow}
+              disabled={!online || replaying}
+            >
+              <RefreshCw aria-hidden="true" />
+              <span>Sync now</span>
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+      {failed.length > 0 ? (
+        <div className="sync-panel__failures" role="alert">
+          <p className="sync-panel__message">
+            <AlertTriangle aria-hidden="true" /> {countChanges(failed.length)} couldn&apos;t be saved
+          </p>
+          <ul>
+            {failed.map((entry) => (
+              <li key={entry.id} className="sync-panel__failure">
+                <div className="sync-panel__text">
+                  <p className="sync-panel__change">{describeChange(entry)}</p>
+                  {entry.lastError ? <p className="sync-panel__detail">{entry.lastError}</p> : null}
+                </div>
+                <button type="button" className="btn btn--ghost btn--sm" onClick={() => onRetry(entry.id)}>
+                  Retry
+                </button>
+                <button type="button" className="btn btn--ghost btn--sm" onClick={() => onDiscard(entry.id)}>
+                  Discard
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </section>
+  )
+}
@@ -0,0 +1,21 @@
+import clsx from 'clsx'
+
+import type { TagColor } from '../types'
+
+type TagBadgeProps = {
+  name: string
+  color?: TagColor
+  onRemove?: () => void
+}
+
+export const TagBadge = ({ name, color = 'slate', onRemove }: TagBadgeProps) => (
+  <span className={clsx('tag-badge', `tag-badge--${color}`)}>
+    <span className="tag-badge__dot" aria-hidden="true" />
+    {name}
+    {onRemove ? (
+      <button type="button" className="tag-badge__remove" onClick={onRemove} aria-label={`Remove tag ${name}`}>
+        ×
+      </button>
+    ) : null}
+  </span>
+)
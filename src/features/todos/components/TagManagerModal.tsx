@@ -0,0 +1,192 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Merge, Trash2 } from 'lucide-react'
+
+import { Modal } from '../../../components/Modal'
+import { useToast } from '../../../components/toast/ToastProvider'
+import { todoApi } from '../api/todoApi'
+import { todoKeys } from '../queryKeys'
+import { TAG_COLORS, type TagColor, type TagSummary } from '../types'
+import { TagBadge } from './TagBadge'
+
+type TagManagerModalProps = {
+  open: boolean
+  onClose: () => void
+}
+
+export const TagManagerModal = ({ open, onClose }: TagManagerModalProps) => {
+  const queryClient = useQueryClient()
+  const toast = useToast()
+
+  const { data: tags = [], isLoading } = useQuery({
+    queryKey: todoKeys.tags,
+    queryFn: ({ signal }) => todoApi.tags.list({ signal }),
+    enabled: open,
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: todoKeys.tags })
+    queryClient.invalidateQueries({ queryKey: todoKeys.all })
+  }
+
+  const onError = (title: string) => (mutationError: unknown) => {
+    toast.push({
+      intent: 'error',
+      title,
+      description: mutationError instanceof Error ? mutationError.message : 'Something went wrong. Please try again.',
+    })
+  }
+
+  const updateMutation = useMutation({
+    mutationFn: ({ name, input }: { name: string; input: { name?: string; color?: TagColor } }) =>
+      todoApi.tags.update(name, input),
+    onError: onError('Unable to update tag'),
+    onSettled: invalidate,
+  })
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ source, target }: { source: string; target: string }) => todoApi.tags.merge([source], target),
+    onSuccess: (target, { source }) => {
+      toast.push({ intent: 'success', title: 'Tags merged', description: `“${source}” was merged into “${target.name}”.` })
+    },
+    onError: onError('Unable to merge tags'),
+    onSettled: invalidate,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (name: string) => todoApi.tags.delete(name),
+    onSuccess: (_, name) => {
+      toast.push({ intent: 'info', title: 'Tag deleted', description: `“${name}” was removed from every todo.` })
+    },
+    onError: onError('Unable to delete tag'),
+    onSettled: invalidate,
+  })
+
+  const busy = updateMutation.isPending || mergeMutation.isPending || deleteMutation.isPending
+
+  return (
+    <Modal open={open} title="Manage tags" onClose={onClose} dismissLabel="Close tag manager" size="lg">
+      {isLoading ? <p className="tag-manager__empty">Loading tags…</p> : null}
+      {!isLoading && tags.length === 0 ? (
+        <p className="tag-manager__empty">No tags yet. Add tags to a todo to see them here.</p>
+      ) : null}
+      {tags.length > 0 ? (
+        <ul className="tag-manager">
+          {tags.map((tag) => (
+            <TagManagerRow
+              key={tag.name}
+              tag={tag}
+              otherTags={tags.filter((candidate) => candidate.name !== tag.name)}
+              disabled={busy}
+              onRename={(name) => updateMutation.mutate({ name: tag.name, input: { name } })}
+              onRecolor={(color) => updateMutation.mutate({ name: tag.name, input: { color } })}
+              onMerge={(target) => mergeMutation.mutate({ source: tag.name, target })}
+              onDelete={() => deleteMutation.mutate(tag.name)}
+            />
+          ))}
+        </ul>
+      ) : null}
+    </Modal>
+  )
+}
+
+type TagManagerRowProps = {
+  tag: TagSummary
+  otherTags: TagSummary[]
+  disabled: boolean
+  onRename: (name: string) => void
+  onRecolor: (color: TagColor) => void
+  onMerge: (target: string) => void
+  onDelete: () => void
+}
+
+const TagManagerRow = ({ tag, otherTags, disabled, onRename, onRecolor, onMerge, onDelete }: TagManagerRowProps) => {
+  const [name, setName] = useState(tag.name)
+  const [mergeTarget, setMergeTarget] = useState('')
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+
+  const trimmed = name.trim()
+  const canRename = trimmed.length > 0 && trimmed !== tag.name
+
+  return (
+    <li className="tag-manager__row">
+      <div className="tag-manager__identity">
+        <TagBadge name={tag.name} color={tag.color} />
+        <span className="tag-manager__count">
+          {tag.count} {tag.count === 1 ? 'todo' : 'todos'}
+        </span>
+      </div>
+
+      <form
+        className="tag-manager__rename"
+        onSubmit={(event) => {
+          event.preventDefault()
+          if (canRename) onRename(trimmed)
+        }}
+      >
+        <input
+          className="input"
+          aria-label={`Rename ${tag.name}`}
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          maxLength={32}
+        />
+        <button type="submit" className="btn btn--ghost btn--sm" disabled={disabled || !canRename}>
+          Rename
+        </button>
+      </form>
+
+      <label className="select-field">
+        <span className="select-field__label">Colour</span>
+        <select value={tag.color} onChange={(event) => onRecolor(event.target.value as TagColor)} disabled={disabled}>
+          {TAG_COLORS.map((color) => (
+            <option key={color} value={color}>
+              {color}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {otherTags.length > 0 ? (
+        <div className="tag-manager__merge">
+          <label className="select-field">
+            <span className="select-field__label">Merge into</span>
+            <select value={mergeTarget} onChange={(event) => setMergeTarget(event.target.value)} disabled={disabled}>
+              <option value="">Choose a tag</option>
+              {otherTags.map((candidate) => (
+                <option key={candidate.name} value={candidate.name}>
+                  {candidate.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            className="btn btn--ghost btn--icon"
+            onClick={() => onMerge(mergeTarget)}
+            disabled={disabled || !mergeTarget}
+          >
+            <Merge aria-hidden="true" />
+            <span className="sr-only">Merge {tag.name}</span>
+          </button>
+        </div>
+      ) : null}
+
+      {confirmingDelete ? (
+        <div className="tag-manager__confirm" role="group" aria-label={`Confirm deleting ${tag.name}`}>
+          <button type="button" className="btn btn--danger btn--sm" onClick={onDelete} disabled={disabled}>
+            Delete
+          </button>
+          <button type="button" className="btn btn--ghost btn--sm" onClick={() => setConfirmingDelete(false)}>
+            Keep
+          </button>
+        </div>
+      ) : (
+        <button type="button" className="btn btn--ghost btn--icon" onClick={() => setConfirmingDelete(true)}>
+          <Trash2 aria-hidden="true" />
+          <span className="sr-only">Delete {tag.name}</span>
+        </button>
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,133 @@
+import { useId, useMemo, useState, type KeyboardEvent } from 'react'
+import clsx from 'clsx'
+
+import type { TagColor, TagSummary } from '../types'
+import { isSameTag, MAX_TAG_LENGTH, normalizeTagName } from '../api/tagRegistry'
+import { TagBadge } from './TagBadge'
+
+type TagPickerProps = {
+  id: string
+  value: string[]
+  onChange: (tags: string[]) => void
+  suggestions: TagSummary[]
+  maxTags?: number
+  disabled?: boolean
+}
+
+type Option = { name: string; color?: TagColor; isNew: boolean }
+
+export const TagPicker = ({ id, value, onChange, suggestions, maxTags = 20, disabled = false }: TagPickerProps) => {
+  const listboxId = useId()
+  const [query, setQuery] = useState('')
+  const [open, setOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const colorFor = (name: string) => suggestions.find((tag) => isSameTag(tag.name, name))?.color
+
+  const options = useMemo<Option[]>(() => {
+    const term = normalizeTagName(query)
+    const available = suggestions
+      .filter((tag) => !value.some((selected) => isSameTag(selected, tag.name)))
+      .filter((tag) => !term || tag.name.toLowerCase().includes(term.toLowerCase()))
+      .map((tag) => ({ name: tag.name, color: tag.color, isNew: false }))
+    const exists = suggestions.some((tag) => isSameTag(tag.name, term)) || value.some((tag) => isSameTag(tag, term))
+    return term && !exists ? [...available, { name: term, isNew: true }] : available
+  }, [query, suggestions, value])
+
+  const atLimit = value.length >= maxTags
+
+  const addTag = (name: string) => {
+    const normalized = normalizeTagName(name)
+    if (!normalized || atLimit || value.some((tag) => isSameTag(tag, normalized))) return
+    onChange([...value, normalized])
+    setQuery('')
+    setActiveIndex(0)
+  }
+
+  const removeTag = (name: string) => onChange(value.filter((tag) => tag !== name))
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault()
+        setOpen(true)
+        setActiveIndex((index) => (options.length ? (index + 1) % options.length : 0))
+        break
+      case 'ArrowUp':
+        event.preventDefault()
+        setActiveIndex((index) => (options.length ? (index - 1 + options.length) % options.length : 0))
+        break
+      case 'Enter':
+      case ',':
+        if (!query.trim() && event.key === 'Enter') return
+        event.preventDefault()
+        addTag(open && options[activeIndex] ? options[activeIndex].name : query)
+        break
+      case 'Backspace':
+        if (!query && value.length > 0) {
+          removeTag(value[value.length - 1])
+        }
+        break
+      case 'Escape':
+        if (open) {
+          event.stopPropagation()
+          setOpen(false)
+        }
+        break
+    }
+  }
+
+  const showListbox = open && options.length > 0 && !atLimit
+
+  return (
+    <div className="tag-picker">
+      {value.length > 0 ? (
+        <div className="tag-picker__selected">
+          {value.map((tag) => (
+            <TagBadge key={tag} name={tag} color={colorFor(tag)} onRemove={disabled ? undefined : () => removeTag(tag)} />
+          ))}
+        </div>
+      ) : null}
+      <input
+        id={id}
+        type="text"
+        className="input"
+        role="combobox"
+        aria-expanded={showListbox}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={showListbox ? `${listboxId}-${activeIndex}` : undefined}
+        placeholder={atLimit ? `Up to ${maxTags} tags` : 'Add tags'}
+        maxLength={MAX_TAG_LENGTH}
+        value={query}
+        disabled={disabled || atLimit}
+        onChange={(event) => {
+          setQuery(event.target.value)
+          setOpen(true)
+          setActiveIndex(0)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+      {showListbox ? (
+        <ul id={listboxId} role="listbox" className="tag-picker__options">
+          {options.map((option, index) => (
+            <li
+              key={`${option.isNew ? 'new' : 'existing'}-${option.name}`}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={clsx('tag-picker__option', { 'tag-picker__option--active': index === activeIndex })}
+              // Keep focus in the input so blur does not close the list before the click lands.
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => addTag(option.name)}
+            >
+              {option.isNew ? <span>Create “{option.name}”</span> : <TagBadge name={option.name} color={option.color} />}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Download, ExternalLink, FileText, Loader2 } from 'lucide-react'
+
+import { todoApi } from '../api/todoApi'
+import { todoKeys } from '../queryKeys'
+import { canOpenInline, hasThumbnail, toSafeBlob } from '../attachments'
+import type { Attachment } from '../types'
+import { formatFileSize } from '../../../utils/fileSize'
+
+type TodoAttachmentsProps = {
+  attachments: Attachment[]
+}
+
+const useObjectUrl = (blob: Blob | undefined) => {
+  const [url, setUrl] = useState<string | null>(null)
+  useEffect(() => {
+    if (!blob) return
+    const next = URL.createObjectURL(blob)
+    setUrl(next)
+    return () => {
+      URL.revokeObjectURL(next)
+      setUrl(null)
+    }
+  }, [blob])
+  return url
+}
+
+const AttachmentTile = ({ attachment }: { attachment: Attachment }) => {
+  const { data: content, isError } = useQuery({
+    queryKey: todoKeys.attachmentContent(attachment.id),
+    queryFn: async () => toSafeBlob(attachment, await todoApi.attachments.getContent(attachment.id)),
+    staleTime: Infinity,
+  })
+  const url = useObjectUrl(content)
+  const label = `${attachment.name} (${formatFileSize(attachment.size)})`
+
+  return (
+    <li className="attachment-tile">
+      <div className="attachment-tile__preview">
+        {url && hasThumbnail(attachment) ? (
+          <img src={url} alt={attachment.name} loading="lazy" />
+        ) : url || isError ? (
+          <FileText aria-hidden="true" />
+        ) : (
+          <Loader2 aria-hidden="true" className="spin" />
+        )}
+      </div>
+      <div className="attachment-tile__info">
+        <span className="attachment-tile__name" title={attachment.name}>
+          {attachment.name}
+        </span>
+        <span className="attachment-tile__size">{isError ? 'Missing content' : formatFileSize(attachment.size)}</span>
+      </div>
+      {url ? (
+        <div className="attachment-tile__actions">
+          {canOpenInline(attachment) ? (
+            <a className="btn btn--ghost btn--icon" href={url} target="_blank" rel="noopener noreferrer">
+              <ExternalLink aria-hidden="true" />
+              <span className="sr-only">Open {label}</span>
+            </a>
+          ) : null}
+          <a className="btn btn--ghost btn--icon" href={url} download={attachment.name}>
+            <Download aria-hidden="true" />
+            <span className="sr-only">Download {label}</span>
+          </a>
+        </div>
+      ) : null}
+    </li>
+  )
+}
+
+export const TodoAttachments = ({ attachments }: TodoAttachmentsProps) => (
+  <ul className="attachment-tiles" aria-label="Attachments">
+    {attachments.map((attachment) => (
+      <AttachmentTile key={attachment.id} attachment={attachment} />
+    ))}
+  </ul>
+)
@@ -0,0 +1,257 @@
+import { useState, type FormEvent, type KeyboardEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { format, formatDistanceToNow, parseISO } from 'date-fns'
+import { MessageSquare, Pencil, Trash2 } from 'lucide-react'
+
+import { useToast } from '../../../components/toast/ToastProvider'
+import { usePreferences } from '../../../components/preferences/preferencesContext'
+import { todoApi } from '../api/todoApi'
+import { todoKeys } from '../queryKeys'
+import { MAX_AUTHOR_LENGTH, MAX_COMMENT_LENGTH } from '../todoRules'
+import type { CreateCommentInput, TodoComment } from '../types'
+import { HighlightedText } from './HighlightedText'
+
+type TodoCommentsProps = {
+  todoId: string
+  comments: TodoComment[]
+  terms?: string[]
+  /** Comments on a todo in the trash can be read but not changed. */
+  readOnly?: boolean
+}
+
+// Ctrl+Enter or Cmd+Enter sends, as in most chat and review tools; plain Enter adds a line.
+const submitOnModEnter = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+  if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+    event.preventDefault()
+    event.currentTarget.form?.requestSubmit()
+  }
+}
+
+export const TodoComments = ({ todoId, comments, terms, readOnly = false }: TodoCommentsProps) => {
+  const queryClient = useQueryClient()
+  const toast = useToast()
+  const { displayName, update: updatePreferences } = usePreferences()
+  const [body, setBody] = useState('')
+  // `null` while the saved display name is used as it is.
+  const [authorDraft, setAuthorDraft] = useState<string | null>(null)
+  const editingAuthor = authorDraft !== null || !displayName
+
+  // Todo queries are refreshed too, since a search can match the comment text.
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: todoKeys.comments })
+    queryClient.invalidateQueries({ queryKey: todoKeys.all })
+  }
+
+  const onError = (title: string) => (mutationError: unknown) => {
+    toast.push({
+      intent: 'error',
+      title,
+      description: mutationError instanceof Error ? mutationError.message : 'Something went wrong. Please try again.',
+    })
+  }
+
+  const addMutation = useMutation({
+    mutationFn: (input: CreateCommentInput) => todoApi.comments.add(todoId, input),
+    onSuccess: (comment) => {
+      setBody('')
+      setAuthorDraft(null)
+      if (comment.author !== displayName) updatePreferences({ displayName: comment.author })
+    },
+    onError: onError('Unable to add comment'),
+    onSettled: invalidate,
+  })
+
+  const editMutation = useMutation({
+    mutationFn: ({ id, body: nextBody }: { id: string; body: string }) => todoApi.comments.edit(id, { body: nextBody }),
+    onError: onError('Unable to edit comment'),
+    onSettled: invalidate,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => todoApi.comments.delete(id),
+    onError: onError('Unable to delete comment'),
+    onSettled: invalidate,
+  })
+
+  const trimmedBody = body.trim()
+  const trimmedAuthor = (authorDraft ?? displayName).trim()
+  const busy = addMutation.isPending || editMutation.isPending || deleteMutation.isPending
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    if (!trimmedBody || !trimmedAuthor) return
+    addMutation.mutate({ author: trimmedAuthor, body: trimmedBody })
+  }
+
+  return (
+    <section className="todo-comments" aria-label="Comments">
+      <h4 className="todo-comments__title">
+        <MessageSquare aria-hidden="true" /> Comments
+      </h4>
+      {comments.length > 0 ? (
+        <ol className="todo-comments__thread">
+          {comments.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              terms={terms}
+              readOnly={readOnly}
+              disabled={busy}
+              onEdit={(nextBody) => editMutation.mutateAsync({ id: comment.id, body: nextBody })}
+              onDelete={() => deleteMutation.mutate(comment.id)}
+            />
+          ))}
+        </ol>
+      ) : (
+        <p className="todo-comments__empty">No comments yet.</p>
+      )}
+
+      {readOnly ? null : (
+        <form className="todo-comments__composer" onSubmit={handleSubmit}>
+          <textarea
+            className="textarea"
+            rows={2}
+            placeholder="Add a comment…"
+            aria-label="New comment"
+            value={body}
+            onChange={(event) => setBody(event.target.value)}
+            onKeyDown={submitOnModEnter}
+            maxLength={MAX_COMMENT_LENGTH}
+          />
+          <div className="todo-comments__composer-footer">
+            {editingAuthor ? (
+              <input
+                className="input"
+                aria-label="Your name"
+                placeholder="Your name"
+                value={authorDraft ?? displayName}
+                onChange={(event) => setAuthorDraft(event.target.value)}
+                maxLength={MAX_AUTHOR_LENGTH}
+              />
+            ) : (
+              <span className="todo-comments__author-note">
+                Commenting as <strong>{trimmedAuthor}</strong>
+                <button type="button" className="btn btn--ghost btn--sm" onClick={() => setAuthorDraft(displayName)}>
+                  Change
+                </button>
+              </span>
+            )}
+            <button
+              type="submit"
+              className="btn btn--primary btn--sm"
+              disabled={busy || !trimmedBody || !trimmedAuthor}
+            >
+              {addMutation.isPending ? 'Posting…' : 'Comment'}
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  )
+}
+
+type CommentItemProps = {
+  comment: TodoComment
+  terms?: string[]
+  readOnly: boolean
+  disabled: boolean
+  onEdit: (body: string) => Promise<unknown>
+  onDelete: () => void
+}
+
+const CommentItem = ({ comment, terms, readOnly, disabled, onEdit, onDelete }: CommentItemProps) => {
+  const [draft, setDraft] = useState<string | null>(null)
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+  const edited = comment.updatedAt !== comment.createdAt
+  const trimmedDraft = draft?.trim() ?? ''
+
+  const handleSave = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!trimmedDraft) return
+    if (trimmedDraft !== comment.body) {
+      try {
+        await onEdit(trimmedDraft)
+      } catch {
+        // The failure is reported by a toast; the draft stays open so nothing is lost.
+        return
+      }
+    }
+    setDraft(null)
+  }
+
+  return (
+    <li className="todo-comment">
+      <div className="todo-comment__meta">
+        <span className="todo-comment__author">{comment.author}</span>
+        <time dateTime={comment.createdAt} title={format(parseISO(comment.createdAt), 'PPpp')}>
+          {formatDistanceToNow(parseISO(comment.createdAt), { addSuffix: true })}
+        </time>
+        {edited ? (
+          <span className="todo-comment__edited" title={`Edited ${format(parseISO(comment.updatedAt), 'PPpp')}`}>
+            (edited)
+          </span>
+        ) : null}
+        {readOnly || draft !== null ? null : (
+          <span className="todo-comment__actions">
+            {confirmingDelete ? (
+              <>
+                <button type="button" className="btn btn--danger btn--sm" onClick={onDelete} disabled={disabled}>
+                  Delete
+                </button>
+                <button type="button" className="btn btn--ghost btn--sm" onClick={() => setConfirmingDelete(false)}>
+                  Keep
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  className="btn btn--ghost btn--icon"
+                  onClick={() => setDraft(comment.body)}
+                  disabled={disabled}
+                >
+                  <Pencil aria-hidden="true" />
+                  <span className="sr-only">Edit comment by {comment.author}</span>
+                </button>
+                <button
+                  type="button"
+                  className="btn btn--ghost btn--icon"
+                  onClick={() => setConfirmingDelete(true)}
+                  disabled={disabled}
+                >
+                  <Trash2 aria-hidden="true" />
+                  <span className="sr-only">Delete comment by {comment.author}</span>
+                </button>
+              </>
+            )}
+          </span>
+        )}
+      </div>
+      {draft !== null ? (
+        <form className="todo-comment__editor" onSubmit={handleSave}>
+          <textarea
+            className="textarea"
+            rows={2}
+            aria-label="Edit comment"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={submitOnModEnter}
+            maxLength={MAX_COMMENT_LENGTH}
+          />
+          <div className="todo-comment__editor-actions">
+            <button type="button" className="btn btn--ghost btn--sm" onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+            <button type="submit" className="btn btn--primary btn--sm" disabled={disabled || !trimmedDraft}>
+              Save
+            </button>
+          </div>
+        </form>
+      ) : (
+        <p className="todo-comment__body">
+          <HighlightedText text={comment.body} terms={terms} />
+        </p>
+      )}
+    </li>
+  )
+}
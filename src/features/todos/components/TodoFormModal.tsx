@@ -1,85 +1,313 @@
 import { zodResolver } from '@hookform/resolvers/zod'
-import { useEffect } from 'react'
-import { useForm } from 'react-hook-form'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useEffect, useMemo, useState, type KeyboardEvent } from 'react'
+import { Controller, useFieldArray, useForm } from 'react-hook-form'
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react'
 import { z } from 'zod'
-import { parseISO, startOfDay } from 'date-fns'
 
 import { Modal } from '../../../components/Modal'
-import { type Todo } from '../types'
-import { toDateInputValue } from '../../../utils/date'
-
-const schema = z.object({
-  title: z
-    .string({ required_error: 'Title is required' })
-    .trim()
-    .min(3, 'Title must be at least 3 characters long')
-    .max(120, 'Title must be 120 characters or fewer'),
-  description: z
-    .string()
-    .trim()
-    .max(1000, 'Description cannot exceed 1000 characters')
-    .default(''),
-  dueDate: z
-    .string()
-    .optional()
-    .transform((value) => value?.trim() ?? '')
-    .refine((value) => {
-      if (!value) return true
-      const parsed = parseISO(value)
-      if (Number.isNaN(parsed.getTime())) return false
-      const today = startOfDay(new Date())
-      return !(parsed < today)
-    }, 'Due date cannot be in the past'),
-  completed: z.boolean(),
-})
+import { useToast } from '../../../components/toast/ToastProvider'
+import { todoApi } from '../api/todoApi'
+import { isProvisionalId } from '../api/outbox'
+import { todoKeys } from '../queryKeys'
+import {
+  INBOX_LIST_ID,
+  RECURRENCE_TYPES,
+  TODO_PRIORITIES,
+  type ChecklistItemInput,
+  type RecurrenceRule,
+  type ReminderRule,
+  type TagSummary,
+  type Todo,
+  type TodoListSummary,
+  type TodoPriority,
+} from '../types'
+import { PRIORITY_LABELS } from '../priority'
+import { WEEKDAY_LABELS } from '../recurrence'
+import { REMINDER_PRESETS, parseReminderKey, reminderKey } from '../reminders'
+import { TagPicker } from './TagPicker'
+import { MarkdownText } from './MarkdownText'
+import { AttachmentField } from './AttachmentField'
+import {
+  checklistItemTitleRule,
+  dueTimeRule,
+  limitChecklist,
+  limitReminders,
+  todoDescriptionRule,
+  todoTagsRule,
+  todoTitleRule,
+} from '../todoRules'
+import { isCalendarDate, todayInTimeZone, toDueInputValues } from '../../../utils/date'
+import { usePreferences } from '../../../components/preferences/preferencesContext'
+
+const RECURRENCE_LABELS: Record<(typeof RECURRENCE_TYPES)[number], string> = {
+  daily: 'Every day',
+  weekly: 'Weekly on…',
+  monthly: 'Monthly on day…',
+  'after-completion': 'Days after completion…',
+}
+
+const createSchema = (timeZone: string) =>
+  z
+    .object({
+      title: todoTitleRule,
+      description: todoDescriptionRule.default(''),
+      dueDate: z
+        .string()
+        .optional()
+        .transform((value) => value?.trim() ?? '')
+        .refine(
+          (value) => !value || (isCalendarDate(value) && value >= todayInTimeZone(timeZone)),
+          'Due date cannot be in the past',
+        ),
+      dueTime: dueTimeRule,
+      completed: z.boolean(),
+      listId: z.string().min(1, 'Choose a list'),
+      priority: z.enum(TODO_PRIORITIES),
+      checklist: limitChecklist(
+        z.object({
+          itemId: z.string().optional(),
+          title: checklistItemTitleRule,
+          completed: z.boolean(),
+        }),
+      ),
+      autoCompleteChecklist: z.boolean(),
+      tags: todoTagsRule,
+      reminders: limitReminders(z.string()),
+      repeat: z.enum(['none', ...RECURRENCE_TYPES]),
+      repeatWeekdays: z.array(z.number().int().min(0).max(6)),
+      repeatDayOfMonth: z
+        .number({ error: 'Enter a day between 1 and 31' })
+        .int()
+        .min(1, 'Enter a day between 1 and 31')
+        .max(31, 'Enter a day between 1 and 31'),
+      repeatDays: z
+        .number({ error: 'Enter a number of days' })
+        .int()
+        .min(1, 'Repeat at least one day later')
+        .max(365, 'Repeat within a year'),
+    })
+    .refine((values) => values.repeat !== 'weekly' || values.repeatWeekdays.length > 0, {
+      path: ['repeatWeekdays'],
+      message: 'Pick at least one weekday',
+    })
+    .refine((values) => !values.dueTime || values.dueDate, {
+      path: ['dueTime'],
+      message: 'Pick a due date before adding a time',
+    })
+
+type TodoFormSchema = ReturnType<typeof createSchema>
+type TodoFormInput = z.input<TodoFormSchema>
+export type TodoFormValues = z.output<TodoFormSchema>
+
+export type TodoFormPayload = {
+  listId: string
+  title: string
+  description: string
+  dueDate: string | null
+  dueTime: string | null
+  dueTimeZone: string | null
+  completed: boolean
+  priority: TodoPriority
+  checklist: ChecklistItemInput[]
+  autoCompleteChecklist: boolean
+  tags: string[]
+  recurrence: RecurrenceRule | null
+  reminders: ReminderRule[]
+}
+
+const toRecurrenceRule = (values: TodoFormValues): RecurrenceRule | null => {
+  switch (values.repeat) {
+    case 'daily':
+      return { type: 'daily' }
+    case 'weekly':
+      return { type: 'weekly', weekdays: [...values.repeatWeekdays].sort((a, b) => a - b) }
+    case 'monthly':
+      return { type: 'monthly', dayOfMonth: values.repeatDayOfMonth }
+    case 'after-completion':
+      return { type: 'after-completion', days: values.repeatDays }
+    default:
+      return null
+  }
+}
 
-export type TodoFormValues = z.infer<typeof schema>
+const toRecurrenceFields = (
+  rule: RecurrenceRule | null | undefined,
+): Pick<TodoFormInput, 'repeat' | 'repeatWeekdays' | 'repeatDayOfMonth' | 'repeatDays'> => ({
+  repeat: rule?.type ?? 'none',
+  repeatWeekdays: rule?.type === 'weekly' ? rule.weekdays : [1],
+  repeatDayOfMonth: rule?.type === 'monthly' ? rule.dayOfMonth : 1,
+  repeatDays: rule?.type === 'after-completion' ? rule.days : 7,
+})
 
 type TodoFormModalProps = {
   mode: 'create' | 'edit'
   open: boolean
   todo?: Todo | null
   onClose: () => void
-  onSubmit: (payload: { title: string; description: string; dueDate: string | null; completed: boolean }) => Promise<void> | void
+  onSubmit: (payload: TodoFormPayload) => Promise<Todo>
   isSubmitting?: boolean
+  tagSuggestions?: TagSummary[]
+  lists?: TodoListSummary[]
+  defaultListId?: string
 }
 
-export const TodoFormModal = ({ mode, open, todo, onClose, onSubmit, isSubmitting = false }: TodoFormModalProps) => {
+export const TodoFormModal = ({
+  mode,
+  open,
+  todo,
+  onClose,
+  onSubmit,
+  isSubmitting = false,
+  tagSuggestions = [],
+  lists = [],
+  defaultListId = INBOX_LIST_ID,
+}: TodoFormModalProps) => {
+  const { timeZone } = usePreferences()
+  const schema = useMemo(() => createSchema(timeZone), [timeZone])
+  const queryClient = useQueryClient()
+  const toast = useToast()
+
   const {
     register,
     handleSubmit,
     reset,
     formState: { errors, isSubmitting: formSubmitting },
     setError,
-  } = useForm<TodoFormValues>({
+    control,
+    watch,
+  } = useForm<TodoFormInput, unknown, TodoFormValues>({
     resolver: zodResolver(schema),
     defaultValues: {
       title: '',
       description: '',
       dueDate: '',
+      dueTime: '',
       completed: false,
+      listId: defaultListId,
+      priority: 'none',
+      checklist: [],
+      autoCompleteChecklist: false,
+      tags: [],
+      reminders: [],
+      ...toRecurrenceFields(null),
     },
   })
 
+  const repeat = watch('repeat')
+  const hasDueDate = Boolean(watch('dueDate'))
+  const description = watch('description') ?? ''
+  const [previewDescription, setPreviewDescription] = useState(false)
+  const [pendingFiles, setPendingFiles] = useState<File[]>([])
+  const [removedAttachmentIds, setRemovedAttachmentIds] = useState<string[]>([])
+
+  const todoId = todo?.id
+  const provisional = Boolean(todoId && isProvisionalId(todoId))
+  const { data: attachments = [] } = useQuery({
+    queryKey: todoKeys.attachments,
+    queryFn: () => todoApi.attachments.list(),
+    select: (data) => data.filter((attachment) => attachment.todoId === todoId),
+    enabled: open && Boolean(todoId),
+  })
+
+  const toggleRemovedAttachment = (id: string) =>
+    setRemovedAttachmentIds((current) =>
+      current.includes(id) ? current.filter((removedId) => removedId !== id) : [...current, id],
+    )
+
+  // The todo is saved by then, so attachment failures are reported without keeping the form open.
+  const saveAttachments = async (saved: Todo) => {
+    if (pendingFiles.length === 0 && removedAttachmentIds.length === 0) return
+    const failures: string[] = []
+    for (const id of removedAttachmentIds) {
+      try {
+        await todoApi.attachments.delete(id)
+      } catch (error) {
+        failures.push(error instanceof Error ? error.message : 'An attachment could not be removed')
+      }
+    }
+    // Files stored under a provisional id would be orphaned once the todo syncs and gets its real id.
+    if (isProvisionalId(saved.id) && pendingFiles.length > 0) {
+      failures.push(`Files can be attached once “${saved.title}” has synced.`)
+    }
+    for (const file of isProvisionalId(saved.id) ? [] : pendingFiles) {
+      try {
+        await todoApi.attachments.add(saved.id, file)
+      } catch (error) {
+        failures.push(error instanceof Error ? error.message : `“${file.name}” could not be attached`)
+      }
+    }
+    queryClient.invalidateQueries({ queryKey: todoKeys.attachments })
+    if (failures.length > 0) {
+      toast.push({ intent: 'error', title: 'Some attachments were not saved', description: failures.join(' ') })
+    }
+  }
+
+  // `itemId` keeps the persisted id separate from the `id` key useFieldArray generates.
+  const { fields, append, remove, move } = useFieldArray({ control, name: 'checklist' })
+  const [newItemTitle, setNewItemTitle] = useState('')
+
+  const addChecklistItem = () => {
+    const title = newItemTitle.trim()
+    if (!title) return
+    append({ title, completed: false })
+    setNewItemTitle('')
+  }
+
+  const handleNewItemKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      addChecklistItem()
+    }
+  }
+
   useEffect(() => {
     if (open) {
+      const due = todo ? toDueInputValues(todo, timeZone) : { date: '', time: '' }
       reset({
         title: todo?.title ?? '',
         description: todo?.description ?? '',
-        dueDate: todo?.dueDate ? toDateInputValue(todo.dueDate) : '',
+        dueDate: due.date,
+        dueTime: due.time,
         completed: todo?.completed ?? false,
+        listId: todo?.listId ?? defaultListId,
+        priority: todo?.priority ?? 'none',
+        checklist: todo?.checklist.map((item) => ({ itemId: item.id, title: item.title, completed: item.completed })) ?? [],
+        autoCompleteChecklist: todo?.autoCompleteChecklist ?? false,
+        tags: todo?.tags ?? [],
+        reminders: todo?.reminders.map(reminderKey) ?? [],
+        ...toRecurrenceFields(todo?.recurrence),
       })
+      setNewItemTitle('')
+      setPreviewDescription(false)
+      setPendingFiles([])
+      setRemovedAttachmentIds([])
     }
-  }, [open, reset, todo])
+  }, [open, reset, todo, timeZone, defaultListId])
 
   const submitHandler = handleSubmit(async (values) => {
     try {
-      await onSubmit({
+      const saved = await onSubmit({
+        listId: values.listId,
         title: values.title.trim(),
         description: values.description.trim(),
         dueDate: values.dueDate ? values.dueDate : null,
+        dueTime: values.dueDate && values.dueTime ? values.dueTime : null,
+        dueTimeZone: values.dueDate && values.dueTime ? timeZone : null,
         completed: values.completed,
+        priority: values.priority,
+        checklist: values.checklist.map((item) => ({ id: item.itemId, title: item.title, completed: item.completed })),
+        autoCompleteChecklist: values.autoCompleteChecklist,
+        tags: values.tags,
+        recurrence: toRecurrenceRule(values),
+        reminders: values.dueDate
+          ? values.reminders.flatMap((key) => {
+              const rule = parseReminderKey(key)
+              return rule ? [rule] : []
+            })
+          : [],
       })
+      await saveAttachments(saved)
       reset()
       onClose()
     } catch (error) {
@@ -130,19 +358,207 @@ export const TodoFormModal = ({ mode, open, todo, onClose, onSubmit, isSubmittin
         </div>
 
         <div className="form-field">
-          <label htmlFor="todo-description" className="form-label">
-            Description
-          </label>
+          <div className="description-editor__header">
+            <label htmlFor="todo-description" className="form-label">
+              Description
+            </label>
+            <div className="description-editor__modes" role="group" aria-label="Description mode">
+              <button
+                type="button"
+                className={previewDescription ? 'chip' : 'chip chip--active'}
+                aria-pressed={!previewDescription}
+                onClick={() => setPreviewDescription(false)}
+              >
+                Write
+              </button>
+              <button
+                type="button"
+                className={previewDescription ? 'chip chip--active' : 'chip'}
+                aria-pressed={previewDescription}
+                onClick={() => setPreviewDescription(true)}
+              >
+                Preview
+              </button>
+            </div>
+          </div>
           <textarea
             id="todo-description"
             rows={4}
             {...register('description')}
             className={errors.description ? 'textarea textarea--error' : 'textarea'}
             placeholder="Add additional context, acceptance criteria, or links"
+            hidden={previewDescription}
           />
+          {previewDescription ? (
+            <div className="description-editor__preview">
+              {description.trim() ? (
+                <MarkdownText text={description} />
+              ) : (
+                <p className="field-hint">Nothing to preview yet.</p>
+              )}
+            </div>
+          ) : (
+            <p className="field-hint">
+              Markdown works here: **bold**, _italic_, `code`, lists, - [ ] tasks and [links](https://example.com).
+            </p>
+          )}
           {errors.description ? <p className="field-error">{errors.description.message}</p> : null}
         </div>
 
+        <div className="form-field">
+          <label htmlFor="todo-tags" className="form-label">
+            Tags
+          </label>
+          <Controller
+            control={control}
+            name="tags"
+            render={({ field }) => (
+              <TagPicker
+                id="todo-tags"
+                value={field.value}
+                onChange={field.onChange}
+                suggestions={tagSuggestions}
+                disabled={isSubmitting || formSubmitting}
+              />
+            )}
+          />
+          {errors.tags ? <p className="field-error">{errors.tags.message}</p> : null}
+        </div>
+
+        <fieldset className="form-field checklist-editor">
+          <legend className="form-label">Checklist</legend>
+          {fields.length > 0 ? (
+            <ol className="checklist-editor__items">
+              {fields.map((field, index) => (
+                <li key={field.id} className="checklist-editor__item">
+                  <input
+                    type="checkbox"
+                    aria-label={`Mark checklist item ${index + 1} as done`}
+                    {...register(`checklist.${index}.completed`)}
+                  />
+                  <input
+                    type="text"
+                    aria-label={`Checklist item ${index + 1}`}
+                    {...register(`checklist.${index}.title`)}
+                    className={errors.checklist?.[index]?.title ? 'input input--error' : 'input'}
+                  />
+                  <button
+                    type="button"
+                    className="btn btn--ghost btn--icon"
+                    onClick={() => move(index, index - 1)}
+                    disabled={index === 0}
+                  >
+                    <ArrowUp aria-hidden="true" />
+                    <span className="sr-only">Move item up</span>
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn--ghost btn--icon"
+                    onClick={() => move(index, index + 1)}
+                    disabled={index === fields.length - 1}
+                  >
+                    <ArrowDown aria-hidden="true" />
+                    <span className="sr-only">Move item down</span>
+                  </button>
+                  <button type="button" className="btn btn--ghost btn--icon" onClick={() => remove(index)}>
+                    <X aria-hidden="true" />
+                    <span className="sr-only">Remove item</span>
+                  </button>
+                  {errors.checklist?.[index]?.title ? (
+                    <p className="field-error">{errors.checklist[index]?.title?.message}</p>
+                  ) : null}
+                </li>
+              ))}
+            </ol>
+          ) : null}
+          <div className="checklist-editor__add">
+            <input
+              type="text"
+              className="input"
+              placeholder="Add a step"
+              aria-label="New checklist item"
+              value={newItemTitle}
+              onChange={(event) => setNewItemTitle(event.target.value)}
+              onKeyDown={handleNewItemKeyDown}
+            />
+            <button
+              type="button"
+              className="btn btn--ghost btn--sm"
+              onClick={addChecklistItem}
+              disabled={!newItemTitle.trim()}
+            >
+              <Plus aria-hidden="true" />
+              <span>Add</span>
+            </button>
+          </div>
+          {errors.checklist?.message ? <p className="field-error">{errors.checklist.message}</p> : null}
+          <label className="checkbox-field">
+            <input type="checkbox" {...register('autoCompleteChecklist')} />
+            <span>Complete this todo when every step is done</span>
+          </label>
+        </fieldset>
+
+        <fieldset className="form-field recurrence-editor">
+          <legend className="form-label">Repeat</legend>
+          <select aria-label="Repeat" {...register('repeat')} className="input">
+            <option value="none">Does not repeat</option>
+            {RECURRENCE_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {RECURRENCE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          {repeat === 'weekly' ? (
+            <Controller
+              control={control}
+              name="repeatWeekdays"
+              render={({ field }) => (
+                <div className="recurrence-editor__weekdays" role="group" aria-label="Repeat on">
+                  {WEEKDAY_LABELS.map((label, day) => {
+                    const selected = field.value.includes(day)
+                    return (
+                      <button
+                        key={label}
+                        type="button"
+                        className={selected ? 'chip chip--active' : 'chip'}
+                        aria-pressed={selected}
+                        onClick={() =>
+                          field.onChange(selected ? field.value.filter((value) => value !== day) : [...field.value, day])
+                        }
+                      >
+                        {label}
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+            />
+          ) : null}
+          {repeat === 'monthly' ? (
+            <input
+              type="number"
+              min={1}
+              max={31}
+              aria-label="Day of the month"
+              {...register('repeatDayOfMonth', { valueAsNumber: true })}
+              className={errors.repeatDayOfMonth ? 'input input--error' : 'input'}
+            />
+          ) : null}
+          {repeat === 'after-completion' ? (
+            <input
+              type="number"
+              min={1}
+              max={365}
+              aria-label="Days after completion"
+              {...register('repeatDays', { valueAsNumber: true })}
+              className={errors.repeatDays ? 'input input--error' : 'input'}
+            />
+          ) : null}
+          {errors.repeatWeekdays ? <p className="field-error">{errors.repeatWeekdays.message}</p> : null}
+          {errors.repeatDayOfMonth ? <p className="field-error">{errors.repeatDayOfMonth.message}</p> : null}
+          {errors.repeatDays ? <p className="field-error">{errors.repeatDays.message}</p> : null}
+        </fieldset>
+
         <div className="form-field form-field--inline">
           <div>
             <label htmlFor="todo-due-date" className="form-label">
@@ -152,6 +568,51 @@ export const TodoFormModal = ({ mode, open, todo, onClose, onSubmit, isSubmittin
             {errors.dueDate ? <p className="field-error">{errors.dueDate.message}</p> : null}
           </div>
 
+          <div>
+            <label htmlFor="todo-due-time" className="form-label">
+              Time
+            </label>
+            <input
+              id="todo-due-time"
+              type="time"
+              {...register('dueTime')}
+              className={errors.dueTime ? 'input input--error' : 'input'}
+              aria-describedby="todo-due-time-hint"
+            />
+            <p id="todo-due-time-hint" className="field-hint">
+              Leave empty for all day · {timeZone.replace(/_/g, ' ')}
+            </p>
+            {errors.dueTime ? <p className="field-error">{errors.dueTime.message}</p> : null}
+          </div>
+
+          <div>
+            <label htmlFor="todo-priority" className="form-label">
+              Priority
+            </label>
+            <select id="todo-priority" {...register('priority')} className="input">
+              {TODO_PRIORITIES.map((priority) => (
+                <option key={priority} value={priority}>
+                  {PRIORITY_LABELS[priority]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {lists.length > 1 ? (
+            <div>
+              <label htmlFor="todo-list" className="form-label">
+                List
+              </label>
+              <select id="todo-list" {...register('listId')} className="input">
+                {lists.map((list) => (
+                  <option key={list.id} value={list.id}>
+                    {list.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : null}
+
           <label className="checkbox-field">
             <input
               type="checkbox"
@@ -162,6 +623,50 @@ export const TodoFormModal = ({ mode, open, todo, onClose, onSubmit, isSubmittin
           </label>
         </div>
 
+        <fieldset className="form-field reminder-editor" disabled={!hasDueDate}>
+          <legend className="form-label">Reminders</legend>
+          <Controller
+            control={control}
+            name="reminders"
+            render={({ field }) => (
+              <div className="reminder-editor__options">
+                {REMINDER_PRESETS.map((preset) => {
+                  const key = reminderKey(preset.rule)
+                  return (
+                    <label key={key} className="checkbox-field">
+                      <input
+                        type="checkbox"
+                        checked={field.value.includes(key)}
+                        onChange={(event) =>
+                          field.onChange(
+                            event.target.checked ? [...field.value, key] : field.value.filter((value) => value !== key),
+                          )
+                        }
+                      />
+                      <span>{preset.label}</span>
+                    </label>
+                  )
+                })}
+              </div>
+            )}
+          />
+          {!hasDueDate ? <p className="field-hint">Set a due date to add reminders.</p> : null}
+          {errors.reminders ? <p className="field-error">{errors.reminders.message}</p> : null}
+        </fieldset>
+
+        <div className="form-field">
+          <span className="form-label">Attachments</span>
+          <AttachmentField
+            attachments={attachments}
+            removedIds={removedAttachmentIds}
+            onToggleRemove={toggleRemovedAttachment}
+            pendingFiles={pendingFiles}
+            onPendingFilesChange={setPendingFiles}
+            disabled={isSubmitting || formSubmitting || provisional}
+          />
+          {provisional ? <p className="field-hint">Files can be attached once this todo has synced.</p> : null}
+        </div>
+
         {rootError ? (
           <p className="form-error" role="alert">
             {rootError}
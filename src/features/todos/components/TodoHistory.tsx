@@ -0,0 +1,53 @@
+import { useQuery } from '@tanstack/react-query'
+import { format, formatDistanceToNow, parseISO } from 'date-fns'
+import { History, Loader2 } from 'lucide-react'
+
+import { todoApi } from '../api/todoApi'
+import { todoKeys } from '../queryKeys'
+import { HISTORY_ACTOR_LABELS, describeHistoryEntry } from '../history'
+
+type TodoHistoryProps = {
+  todoId: string
+}
+
+export const TodoHistory = ({ todoId }: TodoHistoryProps) => {
+  const { data: entries = [], isLoading, isError } = useQuery({
+    queryKey: todoKeys.history(todoId),
+    queryFn: ({ signal }) => todoApi.history(todoId, { signal }),
+  })
+
+  return (
+    <section className="todo-history" aria-label="Activity">
+      <h4 className="todo-history__title">
+        <History aria-hidden="true" /> Activity
+      </h4>
+      {isLoading ? (
+        <p className="todo-history__status">
+          <Loader2 aria-hidden="true" className="spin" /> Loading activity…
+        </p>
+      ) : isError ? (
+        <p className="todo-history__status">The activity could not be loaded.</p>
+      ) : entries.length === 0 ? (
+        <p className="todo-history__status">No changes recorded yet.</p>
+      ) : (
+        <ol className="todo-history__timeline">
+          {entries.map((entry) => (
+            <li key={entry.id} className="todo-history__entry">
+              <div className="todo-history__meta">
+                <span className="todo-history__actor">{HISTORY_ACTOR_LABELS[entry.actor]}</span>
+                <time dateTime={entry.at} title={format(parseISO(entry.at), 'PPpp')}>
+                  {formatDistanceToNow(parseISO(entry.at), { addSuffix: true })}
+                </time>
+              </div>
+              <ul className="todo-history__changes">
+                {describeHistoryEntry(entry).map((line, index) => (
+                  <li key={index}>{line}</li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  )
+}
@@ -1,145 +1,376 @@
-import { useMemo, useState, type ChangeEvent, type ReactNode } from 'react'
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import {
+  useDeferredValue,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type HTMLAttributes,
+  type ReactNode,
+} from 'react'
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type InfiniteData,
+} from '@tanstack/react-query'
+import {
+  Bell,
   Calendar,
   CheckCircle2,
   ChevronDown,
   ChevronUp,
   Circle,
   Clock,
+  CloudOff,
   Edit2,
+  FileUp,
   Filter,
+  Flag,
+  GripVertical,
   ListChecks,
   Loader2,
+  MessageSquare,
+  Paperclip,
   Plus,
+  Repeat,
+  RotateCcw,
   Search,
+  Tags,
   Trash2,
 } from 'lucide-react'
 import clsx from 'clsx'
-import { format, formatDistanceToNow, parseISO } from 'date-fns'
+import { addDays, format, formatDistanceToNow, parseISO } from 'date-fns'
 
 import { todoApi } from '../api/todoApi'
-import type { CreateTodoInput, Todo, UpdateTodoInput } from '../types'
-import { formatDueDateLabel, isDueSoon, isOverdue } from '../../../utils/date'
-import { TodoFormModal } from './TodoFormModal'
+import type { OutboxEntry, PaginatedTodos, TodoQuery } from '../api/repository'
+import { todoKeys } from '../queryKeys'
+import { trashRetentionDays } from '../api/createRepository'
+import {
+  TODO_PRIORITIES,
+  type Attachment,
+  type BulkTodoChange,
+  type CreateTodoInput,
+  type ReorderTodoInput,
+  type SavedView,
+  type TagColor,
+  type Todo,
+  type TodoComment,
+  type UpdateTodoInput,
+  INBOX_LIST_ID,
+} from '../types'
+import { PRIORITY_LABELS } from '../priority'
+import { rankBetween } from '../rank'
+import { applyBulkChange } from '../bulk'
+import { getHighlightTerms, parseSearchQuery, type HighlightTerms } from '../search'
+import { SearchSyntaxError } from '../api/errors'
+import {
+  DEFAULT_TODO_FILTERS,
+  SORT_OPTIONS,
+  filterTodos,
+  type DueFilter,
+  type PriorityFilter,
+  type SortOption,
+} from '../todoQuery'
+import { describeRecurrence } from '../recurrence'
+import { describeReminder } from '../reminders'
+import { useReminderScheduler } from '../useReminderScheduler'
+import { useDragReorder, type DropPosition } from '../useDragReorder'
+import { hasPageState, useUrlFilters, type FilterState, type StatusView } from '../useUrlFilters'
+import { useSelection } from '../useSelection'
+import { useAttachmentCleanup } from '../useAttachmentCleanup'
+import { useTabSync } from '../useTabSync'
+import { useOutbox } from '../useOutbox'
+import { isProvisionalId } from '../api/outbox'
+import { groupAttachmentsByTodo } from '../attachments'
+import { formatDueDate, formatDueDateLabel, isDueSoon, isOverdue } from '../../../utils/date'
+import { usePreferences } from '../../../components/preferences/preferencesContext'
+import { TimeZoneSelect } from '../../../components/preferences/TimeZoneSelect'
+import { TodoFormModal, type TodoFormPayload } from './TodoFormModal'
+import { QuarantineNotice } from './QuarantineNotice'
+import { SyncStatusPanel } from './SyncStatusPanel'
+import { TagBadge } from './TagBadge'
+import { HighlightedText } from './HighlightedText'
+import { MarkdownText } from './MarkdownText'
+import { TodoAttachments } from './TodoAttachments'
+import { TodoHistory } from './TodoHistory'
+import { TodoComments } from './TodoComments'
+import { TagManagerModal } from './TagManagerModal'
+import { ImportExportModal } from './ImportExportModal'
+import { NotificationPermissionButton } from './NotificationPermissionButton'
+import { ListSidebar } from './ListSidebar'
+import { SavedViewsBar } from './SavedViewsBar'
+import { BulkActionBar } from './BulkActionBar'
 import { ConfirmDialog } from '../../../components/ConfirmDialog'
 import { useToast } from '../../../components/toast/ToastProvider'
 
-const SORT_OPTIONS = [
-  { value: 'created-desc', label: 'Newest first' },
-  { value: 'created-asc', label: 'Oldest first' },
-  { value: 'due-asc', label: 'Due soon' },
-  { value: 'due-desc', label: 'Due latest' },
-  { value: 'title-asc', label: 'Title A-Z' },
-  { value: 'title-desc', label: 'Title Z-A' },
-] as const
-
-type SortOption = (typeof SORT_OPTIONS)[number]['value']
-
-type StatusFilter = 'all' | 'active' | 'completed'
-type DueFilter = 'all' | 'soon' | 'overdue'
-
-type FilterState = {
-  status: StatusFilter
-  sort: SortOption
-  search: string
-  due: DueFilter
-}
+type TodoPages = InfiniteData<PaginatedTodos, string | null>
+
+const PAGE_SIZE = 25
 
 type ToggleContext = {
-  previous?: Todo[]
+  previous?: TodoPages
 }
 
-const queryKey = ['todos']
+type UndoableVariables = {
+  id: string
+  isUndo?: boolean
+}
 
-const applySort = (todos: Todo[], sort: SortOption) => {
-  const safeTodos = [...todos]
+type ReorderVariables = ReorderTodoInput & {
+  id: string
+}
 
-  switch (sort) {
-    case 'created-asc':
-      return safeTodos.sort(
-        (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
-      )
-    case 'due-asc':
-      return safeTodos.sort((a, b) => {
-        if (!a.dueDate && !b.dueDate) return 0
-        if (!a.dueDate) return 1
-        if (!b.dueDate) return -1
-        return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()
-      })
-    case 'due-desc':
-      return safeTodos.sort((a, b) => {
-        if (!a.dueDate && !b.dueDate) return 0
-        if (!a.dueDate) return 1
-        if (!b.dueDate) return -1
-        return new Date(b.dueDate).getTime() - new Date(a.dueDate).getTime()
-      })
-    case 'title-asc':
-      return safeTodos.sort((a, b) => a.title.localeCompare(b.title))
-    case 'title-desc':
-      return safeTodos.sort((a, b) => b.title.localeCompare(a.title))
-    case 'created-desc':
-    default:
-      return safeTodos.sort(
-        (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-      )
-  }
+type BulkVariables = {
+  ids: string[]
+  change: BulkTodoChange
+  isUndo?: boolean
 }
 
-const filterTodos = (todos: Todo[], filters: FilterState) => {
-  const searchTerm = filters.search.trim().toLowerCase()
+type BulkContext = ToggleContext & {
+  /** The selected todos the change actually affects; the others were already in the requested state. */
+  changedIds: string[]
+}
 
-  const filtered = todos.filter((todo) => {
-    if (filters.status === 'active' && todo.completed) return false
-    if (filters.status === 'completed' && !todo.completed) return false
+type TodoSyncState = OutboxEntry['status']
 
-    if (filters.due === 'soon' && !isDueSoon(todo.dueDate)) return false
-    if (filters.due === 'overdue' && !isOverdue(todo.dueDate)) return false
+const describeError = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback)
 
-    if (!searchTerm) return true
-    return (
-      todo.title.toLowerCase().includes(searchTerm) ||
-      todo.description.toLowerCase().includes(searchTerm)
-    )
-  })
+const trashQueryKey = todoKeys.trash
+
+const NO_COMMENTS: TodoComment[] = []
 
-  return applySort(filtered, filters.sort)
+const countTodos = (count: number) => `${count} ${count === 1 ? 'todo' : 'todos'}`
+
+const describeBulkChange = (change: BulkTodoChange, count: number) => {
+  switch (change.type) {
+    case 'complete':
+      return `${countTodos(count)} completed`
+    case 'reopen':
+      return `${countTodos(count)} reopened`
+    case 'set-due-date':
+      return change.dueDate ? `Due date set on ${countTodos(count)}` : `Due date cleared on ${countTodos(count)}`
+    case 'shift-due-date':
+      return `${countTodos(count)} moved ${Math.abs(change.days)} ${Math.abs(change.days) === 1 ? 'day' : 'days'} ${
+        change.days > 0 ? 'later' : 'earlier'
+      }`
+  }
+}
+
+// Setting a due date overwrites dates that differed per todo, so only the other changes can be undone.
+const invertBulkChange = (change: BulkTodoChange): BulkTodoChange | null => {
+  switch (change.type) {
+    case 'complete':
+      return { type: 'reopen' }
+    case 'reopen':
+      return { type: 'complete' }
+    case 'shift-due-date':
+      return { type: 'shift-due-date', days: -change.days }
+    case 'set-due-date':
+      return null
+  }
+}
+
+const DEFAULT_FILTERS: FilterState = DEFAULT_TODO_FILTERS
+
+// Starting a search switches the default order to "Best match"; clearing it switches back.
+const getSortForSearch = (search: string, sort: SortOption): SortOption => {
+  if (search.trim() && sort === DEFAULT_FILTERS.sort) return 'relevance'
+  if (!search.trim() && sort === 'relevance') return DEFAULT_FILTERS.sort
+  return sort
 }
 
 export const TodoPage = () => {
   const queryClient = useQueryClient()
   const toast = useToast()
+  const { timeZone } = usePreferences()
 
-  const [filters, setFilters] = useState<FilterState>({
-    status: 'all',
-    sort: 'created-desc',
-    search: '',
-    due: 'all',
-  })
+  const [pageState, updatePageState] = useUrlFilters()
+  const { listId: activeListId, filters } = pageState
+  const [isTagManagerOpen, setTagManagerOpen] = useState(false)
+  const [isTransferOpen, setTransferOpen] = useState(false)
   const [isFormOpen, setFormOpen] = useState(false)
   const [editingTodo, setEditingTodo] = useState<Todo | null>(null)
   const [deleteTarget, setDeleteTarget] = useState<Todo | null>(null)
+  const [purgeTarget, setPurgeTarget] = useState<Todo | null>(null)
+  const [isBulkDeleteOpen, setBulkDeleteOpen] = useState(false)
   const [expandedId, setExpandedId] = useState<string | null>(null)
   const [activeToggleId, setActiveToggleId] = useState<string | null>(null)
 
+  const setFilters = (updater: (previous: FilterState) => FilterState, mode?: 'push' | 'replace') => {
+    updatePageState((previous) => ({ ...previous, filters: updater(previous.filters) }), mode)
+  }
+
+  const selectList = (listId: string) => {
+    updatePageState((previous) => ({ ...previous, listId }))
+  }
+
+  const applyView = (view: SavedView) => {
+    updatePageState(() => ({ listId: view.listId, filters: view.filters }))
+  }
+
+  const isTrashView = filters.status === 'trash'
+  const parsedSearch = useMemo(() => {
+    try {
+      return { query: parseSearchQuery(filters.search), error: null }
+    } catch (parseError) {
+      if (parseError instanceof SearchSyntaxError) return { query: null, error: parseError }
+      throw parseError
+    }
+  }, [filters.search])
+  // An unfinished query (say, an open quote) is flagged under the input instead of being sent.
+  const validSearch = parsedSearch.error ? '' : filters.search
+  const search = useDeferredValue(validSearch)
+  const highlightTerms = useMemo(
+    () => (parsedSearch.query ? getHighlightTerms(parsedSearch.query) : undefined),
+    [parsedSearch],
+  )
+
+  // The trash is small and filtered in the browser; everything else is filtered, sorted and paged by the repository.
+  const listQuery: TodoQuery = {
+    listId: activeListId,
+    status: filters.status === 'trash' ? 'all' : filters.status,
+    due: filters.due,
+    priority: filters.priority,
+    tags: filters.tags,
+    search,
+    sort: filters.sort,
+    timeZone,
+    limit: PAGE_SIZE,
+  }
+  const queryKey = todoKeys.list(listQuery)
+
+  // Any change can move todos between lists or change their counts, so every list view is refreshed.
+  const invalidateTodos = () => {
+    queryClient.invalidateQueries({ queryKey: todoKeys.all })
+    queryClient.invalidateQueries({ queryKey: todoKeys.lists })
+  }
+
+  // Todos that now belong to another list drop out of the list on screen.
+  const replaceInCache = (updated: Todo) => {
+    updateCache((current) =>
+      current.flatMap((todo) => (todo.id !== updated.id ? [todo] : updated.listId === activeListId ? [updated] : [])),
+    )
+  }
+
+  // Updates apply page by page, so the updater must not add todos (they would land on every page).
   const updateCache = (updater: (todos: Todo[]) => Todo[]) => {
-    queryClient.setQueryData<Todo[]>(queryKey, (previous) => {
-      const baseline = previous ? [...previous] : []
-      return updater(baseline)
-    })
+    queryClient.setQueryData<TodoPages>(queryKey, (previous) =>
+      previous ? { ...previous, pages: previous.pages.map((page) => ({ ...page, items: updater(page.items) })) } : previous,
+    )
   }
 
-  const { data: todos = [], isLoading, isError, error, isFetching } = useQuery({
+  const updateTrashCache = (updater: (todos: Todo[]) => Todo[]) => {
+    queryClient.setQueryData<Todo[]>(trashQueryKey, (previous) => updater(previous ? [...previous] : []))
+  }
+
+  const {
+    data,
+    isLoading,
+    isError,
+    error,
+    isFetching,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey,
-    queryFn: () => todoApi.list(),
+    queryFn: ({ signal, pageParam }) => todoApi.list({ ...listQuery, cursor: pageParam }, { signal }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    placeholderData: keepPreviousData,
+    enabled: !isTrashView,
+  })
+
+  const todos = useMemo(() => data?.pages.flatMap((page) => page.items) ?? [], [data])
+  const totalCount = data?.pages[0]?.totalCount ?? 0
+
+  const { data: lists = [], isSuccess: listsLoaded } = useQuery({
+    queryKey: todoKeys.lists,
+    queryFn: ({ signal }) => todoApi.lists.list({ signal }),
+  })
+
+  const activeList = lists.find((list) => list.id === activeListId)
+
+  // A link to a list that has since been deleted falls back to the inbox. This is checked once on load: lists
+  // created later are selected before the refetch that brings them in.
+  const listCheckPending = useRef(true)
+  useEffect(() => {
+    if (!listCheckPending.current || !listsLoaded) return
+    listCheckPending.current = false
+    if (!activeList) {
+      updatePageState((previous) => ({ ...previous, listId: INBOX_LIST_ID }), 'replace')
+    }
+  }, [listsLoaded, activeList, updatePageState])
+
+  const { data: views = [], isSuccess: viewsLoaded } = useQuery({
+    queryKey: todoKeys.views,
+    queryFn: ({ signal }) => todoApi.views.list({ signal }),
+  })
+
+  // The default view only applies to a plain visit; filters in the URL (a shared link, a refresh) win.
+  const defaultViewPending = useRef(!hasPageState(window.location.search))
+  useEffect(() => {
+    if (!defaultViewPending.current || !viewsLoaded) return
+    defaultViewPending.current = false
+    const defaultView = views.find((view) => view.isDefault)
+    if (defaultView) {
+      updatePageState(() => ({ listId: defaultView.listId, filters: defaultView.filters }), 'replace')
+    }
+  }, [views, viewsLoaded, updatePageState])
+
+  useReminderScheduler()
+  useAttachmentCleanup()
+  useTabSync()
+  const outbox = useOutbox()
+
+  // A change the backend rejected outweighs one that is still waiting to be sent.
+  const syncStates = useMemo(() => {
+    const states = new Map<string, TodoSyncState>()
+    outbox.entries.forEach(({ operation, status }) => {
+      if (states.get(operation.todoId) !== 'failed') states.set(operation.todoId, status)
+    })
+    return states
+  }, [outbox.entries])
+
+  const { data: tags = [] } = useQuery({
+    queryKey: todoKeys.tags,
+    queryFn: ({ signal }) => todoApi.tags.list({ signal }),
+  })
+
+  const tagColors = useMemo(() => new Map(tags.map((tag) => [tag.name.toLowerCase(), tag.color])), [tags])
+
+  const { data: attachmentsByTodo } = useQuery({
+    queryKey: todoKeys.attachments,
+    queryFn: () => todoApi.attachments.list(),
+    select: groupAttachmentsByTodo,
+  })
+
+  // Every comment, not only those of the expanded card: they are counted on each card and searched.
+  const { data: comments = NO_COMMENTS } = useQuery({
+    queryKey: todoKeys.comments,
+    queryFn: ({ signal }) => todoApi.comments.list(undefined, { signal }),
+  })
+
+  const commentsByTodo = useMemo(() => {
+    const groups = new Map<string, TodoComment[]>()
+    comments.forEach((comment) => groups.set(comment.todoId, [...(groups.get(comment.todoId) ?? []), comment]))
+    return groups
+  }, [comments])
+
+  const { data: trashedTodos = [], isLoading: isTrashLoading } = useQuery({
+    queryKey: trashQueryKey,
+    queryFn: ({ signal }) => todoApi.listTrash({ signal }),
   })
 
   const toggleMutation = useMutation({
-    mutationFn: (id: string) => todoApi.toggleCompletion(id),
-    onMutate: async (id: string) => {
+    mutationFn: ({ id }: UndoableVariables) => todoApi.toggleCompletion(id, { timeZone }),
+    onMutate: async ({ id }: UndoableVariables) => {
       setActiveToggleId(id)
       await queryClient.cancelQueries({ queryKey })
-      const previous = queryClient.getQueryData<Todo[]>(queryKey)
+      const previous = queryClient.getQueryData<TodoPages>(queryKey)
       updateCache((current) =>
         current.map((todo) =>
           todo.id === id ? { ...todo, completed: !todo.completed, updatedAt: new Date().toISOString() } : todo,
@@ -147,10 +378,11 @@ export const TodoPage = () => {
       )
       return { previous } satisfies ToggleContext
     },
-    onError: (mutationError, _variables, context) => {
+    onError: (mutationError, variables, context) => {
       if (context?.previous) {
         queryClient.setQueryData(queryKey, context.previous)
       }
+      if (variables.isUndo) return
       toast.push({
         intent: 'error',
         title: 'Unable to update todo',
@@ -160,28 +392,51 @@ export const TodoPage = () => {
             : 'Something went wrong while updating the todo. Please try again.',
       })
     },
-    onSuccess: (updated) => {
+    onSuccess: (updated, variables) => {
       updateCache((current) => current.map((todo) => (todo.id === updated.id ? updated : todo)))
+      if (variables.isUndo) return
       toast.push({
         intent: updated.completed ? 'success' : 'info',
         title: updated.completed ? 'Todo completed' : 'Todo reopened',
-        description: updated.title,
+        description:
+          updated.completed && updated.nextOccurrenceId ? `${updated.title} · next occurrence scheduled` : updated.title,
+        actions: [{ label: 'Undo', onClick: () => undoToggle(updated.id) }],
       })
     },
     onSettled: () => {
       setActiveToggleId(null)
-      queryClient.invalidateQueries({ queryKey })
+      invalidateTodos()
     },
   })
 
   const createMutation = useMutation({
     mutationFn: (payload: CreateTodoInput) => todoApi.create(payload),
     onSuccess: (created) => {
-      updateCache((current) => [created, ...current.filter((item) => item.id !== created.id)])
+      if (!isProvisionalId(created.id)) {
+        toast.push({
+          intent: 'success',
+          title: 'Todo created',
+          description: 'Your todo has been added to the backlog.',
+        })
+        return
+      }
+      // A queued todo is not on the server yet, so no refetch brings it in; it goes on top of the first page.
+      if (created.listId === activeListId) {
+        queryClient.setQueryData<TodoPages>(queryKey, (previous) =>
+          previous
+            ? {
+                ...previous,
+                pages: previous.pages.map((page, index) =>
+                  index === 0 ? { ...page, items: [created, ...page.items], totalCount: page.totalCount + 1 } : page,
+                ),
+              }
+            : previous,
+        )
+      }
       toast.push({
-        intent: 'success',
-        title: 'Todo created',
-        description: 'Your todo has been added to the backlog.',
+        intent: 'info',
+        title: 'Todo saved offline',
+        description: 'It will be added to the backlog once the server can be reached.',
       })
     },
     onError: (mutationError) => {
@@ -195,21 +450,26 @@ export const TodoPage = () => {
       })
     },
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey })
+      invalidateTodos()
+      queryClient.invalidateQueries({ queryKey: todoKeys.tags })
     },
   })
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, values }: { id: string; values: UpdateTodoInput }) => todoApi.update(id, values),
-    onSuccess: (updated) => {
-      updateCache((current) => current.map((todo) => (todo.id === updated.id ? updated : todo)))
+    mutationFn: ({ id, values }: UndoableVariables & { values: UpdateTodoInput; previous?: UpdateTodoInput }) =>
+      todoApi.update(id, values, { timeZone }),
+    onSuccess: (updated, { isUndo, previous }) => {
+      replaceInCache(updated)
+      if (isUndo) return
       toast.push({
         intent: 'success',
         title: 'Todo updated',
         description: 'All changes were saved successfully.',
+        actions: previous ? [{ label: 'Undo', onClick: () => undoUpdate(updated.id, previous) }] : undefined,
       })
     },
-    onError: (mutationError) => {
+    onError: (mutationError, { isUndo }) => {
+      if (isUndo) return
       toast.push({
         intent: 'error',
         title: 'Unable to update todo',
@@ -220,19 +480,242 @@ export const TodoPage = () => {
       })
     },
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey })
+      invalidateTodos()
+      queryClient.invalidateQueries({ queryKey: todoKeys.tags })
+    },
+  })
+
+  const checklistMutation = useMutation({
+    mutationFn: ({ id, itemId }: { id: string; itemId: string }) =>
+      todoApi.toggleChecklistItem(id, itemId, { timeZone }),
+    onMutate: async ({ id, itemId }) => {
+      await queryClient.cancelQueries({ queryKey })
+      const previous = queryClient.getQueryData<TodoPages>(queryKey)
+      updateCache((current) =>
+        current.map((todo) =>
+          todo.id === id
+            ? {
+                ...todo,
+                checklist: todo.checklist.map((item) =>
+                  item.id === itemId ? { ...item, completed: !item.completed } : item,
+                ),
+              }
+            : todo,
+        ),
+      )
+      return { previous } satisfies ToggleContext
+    },
+    onError: (mutationError, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous)
+      }
+      toast.push({
+        intent: 'error',
+        title: 'Unable to update checklist',
+        description: describeError(mutationError, 'Something went wrong while updating the checklist.'),
+      })
+    },
+    onSuccess: (updated, _variables, context) => {
+      updateCache((current) => current.map((todo) => (todo.id === updated.id ? updated : todo)))
+      const wasCompleted = context?.previous?.pages
+        .flatMap((page) => page.items)
+        .find((todo) => todo.id === updated.id)?.completed
+      if (updated.completed && wasCompleted === false) {
+        toast.push({
+          intent: 'success',
+          title: 'Todo completed',
+          description: `Every step of "${updated.title}" is done.`,
+          actions: [{ label: 'Undo', onClick: () => undoToggle(updated.id) }],
+        })
+      }
+    },
+    onSettled: () => {
+      invalidateTodos()
+    },
+  })
+
+  const reorderMutation = useMutation({
+    mutationFn: ({ id, previousId, nextId }: ReorderVariables) => todoApi.reorder(id, { previousId, nextId }),
+    onMutate: async ({ id, previousId, nextId }) => {
+      await queryClient.cancelQueries({ queryKey })
+      const previous = queryClient.getQueryData<TodoPages>(queryKey)
+      const loaded = previous?.pages.flatMap((page) => page.items) ?? []
+      const rankOf = (neighbourId: string | null) => loaded.find((todo) => todo.id === neighbourId)?.rank ?? null
+      const rank = rankBetween(rankOf(previousId), rankOf(nextId))
+      updateCache((current) => current.map((todo) => (todo.id === id ? { ...todo, rank } : todo)))
+      return { previous } satisfies ToggleContext
+    },
+    onError: (mutationError, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous)
+      }
+      toast.push({
+        intent: 'error',
+        title: 'Unable to reorder todo',
+        description: describeError(mutationError, 'Something went wrong while saving the new order.'),
+      })
+    },
+    onSuccess: (updated) => {
+      replaceInCache(updated)
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: todoKeys.all })
     },
   })
 
   const deleteMutation = useMutation({
     mutationFn: (id: string) => todoApi.delete(id),
+    onSuccess: (trashed) => {
+      updateCache((current) => current.filter((todo) => todo.id !== trashed.id))
+      updateTrashCache((current) => [trashed, ...current.filter((todo) => todo.id !== trashed.id)])
+      toast.push({
+        intent: 'info',
+        title: 'Todo moved to trash',
+        description: `You can restore it from the trash for ${trashRetentionDays} days.`,
+        actions: [{ label: 'Undo', onClick: () => undoDelete(trashed.id) }],
+      })
+    },
+    onError: (mutationError) => {
+      toast.push({
+        intent: 'error',
+        title: 'Unable to delete todo',
+        description:
+          mutationError instanceof Error
+            ? mutationError.message
+            : 'Something went wrong while deleting the todo.',
+      })
+    },
+    onSettled: () => {
+      invalidateTodos()
+      queryClient.invalidateQueries({ queryKey: todoKeys.tags })
+    },
+  })
+
+  const bulkUpdateMutation = useMutation({
+    mutationFn: ({ ids, change }: BulkVariables) => todoApi.bulkUpdate(ids, change, { timeZone }),
+    onMutate: async ({ ids, change }) => {
+      await queryClient.cancelQueries({ queryKey })
+      const previous = queryClient.getQueryData<TodoPages>(queryKey)
+      const now = new Date().toISOString()
+      const changedIds: string[] = []
+      updateCache((current) =>
+        current.map((todo) => {
+          if (!ids.includes(todo.id)) return todo
+          const changed = applyBulkChange(todo, change, now)
+          if (changed !== todo) changedIds.push(todo.id)
+          return changed
+        }),
+      )
+      return { previous, changedIds } satisfies BulkContext
+    },
+    onError: (mutationError, { isUndo }, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous)
+      }
+      if (isUndo) return
+      toast.push({
+        intent: 'error',
+        title: 'Unable to update todos',
+        description: describeError(mutationError, 'None of the selected todos were changed. Please try again.'),
+      })
+    },
+    onSuccess: (updated, { change, isUndo }, context) => {
+      const byId = new Map(updated.map((todo) => [todo.id, todo]))
+      updateCache((current) => current.map((todo) => byId.get(todo.id) ?? todo))
+      if (isUndo) return
+      clearSelection()
+      const inverse = invertBulkChange(change)
+      const changedIds = context?.changedIds ?? []
+      toast.push({
+        intent: 'success',
+        title: describeBulkChange(change, updated.length),
+        actions:
+          inverse && changedIds.length > 0
+            ? [{ label: 'Undo', onClick: () => undoBulkUpdate(changedIds, inverse) }]
+            : undefined,
+      })
+    },
+    onSettled: () => {
+      invalidateTodos()
+    },
+  })
+
+  const bulkDeleteMutation = useMutation({
+    mutationFn: (ids: string[]) => todoApi.bulkDelete(ids),
+    onMutate: async (ids) => {
+      await queryClient.cancelQueries({ queryKey })
+      const previous = queryClient.getQueryData<TodoPages>(queryKey)
+      updateCache((current) => current.filter((todo) => !ids.includes(todo.id)))
+      return { previous } satisfies ToggleContext
+    },
+    onError: (mutationError, _ids, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous)
+      }
+      toast.push({
+        intent: 'error',
+        title: 'Unable to delete todos',
+        description: describeError(mutationError, 'None of the selected todos were deleted. Please try again.'),
+      })
+    },
+    onSuccess: (trashed) => {
+      const trashedIds = new Set(trashed.map((todo) => todo.id))
+      updateTrashCache((current) => [...trashed, ...current.filter((todo) => !trashedIds.has(todo.id))])
+      clearSelection()
+      toast.push({
+        intent: 'info',
+        title: `${countTodos(trashed.length)} moved to trash`,
+        description: `You can restore them from the trash for ${trashRetentionDays} days.`,
+        actions: [{ label: 'Undo', onClick: () => undoBulkDelete([...trashedIds]) }],
+      })
+    },
+    onSettled: () => {
+      invalidateTodos()
+      queryClient.invalidateQueries({ queryKey: todoKeys.tags })
+    },
+  })
+
+  const restoreMutation = useMutation({
+    mutationFn: ({ id }: UndoableVariables) => todoApi.restore(id),
+    onSuccess: (restored, { isUndo }) => {
+      updateTrashCache((current) => current.filter((todo) => todo.id !== restored.id))
+      if (isUndo) return
+      toast.push({
+        intent: 'success',
+        title: 'Todo restored',
+        description: restored.title,
+      })
+    },
+    onError: (mutationError, { isUndo }) => {
+      if (isUndo) return
+      toast.push({
+        intent: 'error',
+        title: 'Unable to restore todo',
+        description:
+          mutationError instanceof Error
+            ? mutationError.message
+            : 'Something went wrong while restoring the todo.',
+      })
+    },
+    onSettled: () => {
+      invalidateTodos()
+      queryClient.invalidateQueries({ queryKey: todoKeys.tags })
+    },
+  })
+
+  const purgeMutation = useMutation({
+    mutationFn: (id: string) => todoApi.purge(id),
     onSuccess: (_, id) => {
-      updateCache((current) => current.filter((todo) => todo.id !== id))
+      updateTrashCache((current) => current.filter((todo) => todo.id !== id))
       toast.push({
         intent: 'info',
-        title: 'Todo deleted',
-        description: 'The todo has been moved to the archive.',
+        title: 'Todo permanently deleted',
       })
+      // Files left behind here are picked up by the next orphan cleanup.
+      todoApi.attachments
+        .deleteForTodos([id])
+        .then(() => queryClient.invalidateQueries({ queryKey: todoKeys.attachments }))
+        .catch((error) => console.warn('[todoApi] Unable to delete attachments of a purged todo', error))
     },
     onError: (mutationError) => {
       toast.push({
@@ -245,17 +728,137 @@ export const TodoPage = () => {
       })
     },
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey })
+      queryClient.invalidateQueries({ queryKey: trashQueryKey })
+      queryClient.invalidateQueries({ queryKey: todoKeys.comments })
     },
   })
 
-  const derivedTodos = useMemo(() => filterTodos(todos, filters), [todos, filters])
+  const undoToggle = (id: string) => {
+    toast.promise(toggleMutation.mutateAsync({ id, isUndo: true }), {
+      loading: { title: 'Undoing…' },
+      success: (todo) => ({
+        title: todo.completed ? 'Todo marked complete again' : 'Todo reopened',
+        description: todo.title,
+      }),
+      error: (undoError) => ({
+        title: 'Unable to undo',
+        description: describeError(undoError, 'Something went wrong while updating the todo.'),
+      }),
+    })
+  }
+
+  const undoUpdate = (id: string, previous: UpdateTodoInput) => {
+    toast.promise(updateMutation.mutateAsync({ id, values: previous, isUndo: true }), {
+      loading: { title: 'Reverting changes…' },
+      success: (todo) => ({ title: 'Changes reverted', description: todo.title }),
+      error: (undoError) => ({
+        title: 'Unable to undo',
+        description: describeError(undoError, 'Something went wrong while reverting your changes.'),
+      }),
+    })
+  }
+
+  const undoDelete = (id: string) => {
+    toast.promise(restoreMutation.mutateAsync({ id, isUndo: true }), {
+      loading: { title: 'Restoring todo…' },
+      success: (todo) => ({ title: 'Todo restored', description: todo.title }),
+      error: (undoError) => ({
+        title: 'Unable to undo',
+        description: describeError(undoError, 'Something went wrong while restoring the todo.'),
+      }),
+    })
+  }
+
+  const undoBulkUpdate = (ids: string[], inverse: BulkTodoChange) => {
+    toast.promise(bulkUpdateMutation.mutateAsync({ ids, change: inverse, isUndo: true }), {
+      loading: { title: 'Undoing…' },
+      success: (updated) => ({ title: describeBulkChange(inverse, updated.length) }),
+      error: (undoError) => ({
+        title: 'Unable to undo',
+        description: describeError(undoError, 'Something went wrong while updating the todos.'),
+      }),
+    })
+  }
+
+  // Restored in one change, like the delete it undoes, so either every todo comes back or none does.
+  const undoBulkDelete = (ids: string[]) => {
+    const restoring = todoApi
+      .bulkRestore(ids)
+      .then((restored) => {
+        const restoredIds = new Set(restored.map((todo) => todo.id))
+        updateTrashCache((current) => current.filter((todo) => !restoredIds.has(todo.id)))
+        return restored
+      })
+      .finally(invalidateTodos)
+    toast.promise(restoring, {
+      loading: { title: 'Restoring todos…' },
+      success: (restored) => ({ title: `${countTodos(restored.length)} restored` }),
+      error: (undoError) => ({
+        title: 'Unable to undo',
+        description: describeError(undoError, 'Something went wrong while restoring the todos.'),
+      }),
+    })
+  }
+
+  const visibleSource = isTrashView ? trashedTodos : todos
+  // Loaded pages are filtered and sorted again so optimistic edits (completions, reorders) show before the refetch.
+  const derivedTodos = useMemo(
+    () =>
+      filterTodos(
+        visibleSource,
+        { ...filters, search: validSearch, status: filters.status === 'trash' ? 'all' : filters.status },
+        timeZone,
+        comments,
+      ),
+    [visibleSource, filters, validSearch, timeZone, comments],
+  )
+
+  const isManualOrder = filters.sort === 'manual' && !isTrashView
+
+  // Todos in the trash can only be restored or purged, and queued todos are not on the server yet, so neither
+  // can be selected.
+  const selectableIds = useMemo(
+    () => (isTrashView ? [] : derivedTodos.filter((todo) => !isProvisionalId(todo.id)).map((todo) => todo.id)),
+    [isTrashView, derivedTodos],
+  )
+  const selection = useSelection(selectableIds)
+  const { clear: clearSelection } = selection
+
+  useEffect(() => {
+    clearSelection()
+  }, [pageState, clearSelection])
+
+  // Moves work on the visible order, so todos hidden by filters keep their place relative to their old neighbours.
+  const moveTodo = (id: string, targetIndex: number) => {
+    const index = derivedTodos.findIndex((todo) => todo.id === id)
+    const others = derivedTodos.filter((todo) => todo.id !== id)
+    const previousTodo = others[targetIndex - 1] ?? null
+    const nextTodo = others[targetIndex] ?? null
+    if (previousTodo === (derivedTodos[index - 1] ?? null) && nextTodo === (derivedTodos[index + 1] ?? null)) return
+    reorderMutation.mutate({ id, previousId: previousTodo?.id ?? null, nextId: nextTodo?.id ?? null })
+  }
+
+  const dragReorder = useDragReorder({
+    onMove: (id, offset) => {
+      const target = derivedTodos.findIndex((todo) => todo.id === id) + offset
+      if (target >= 0 && target < derivedTodos.length) moveTodo(id, target)
+    },
+    onDrop: (id, targetId, position) => {
+      const target = derivedTodos.filter((todo) => todo.id !== id).findIndex((todo) => todo.id === targetId)
+      if (target !== -1) moveTodo(id, position === 'after' ? target + 1 : target)
+    },
+  })
 
   const handleSearchChange = (event: ChangeEvent<HTMLInputElement>) => {
-    setFilters((prev) => ({ ...prev, search: event.target.value }))
+    const { value } = event.target
+    // Typing refines one history entry instead of adding one per keystroke.
+    setFilters(
+      (prev) => ({ ...prev, search: value, sort: getSortForSearch(value, prev.sort) }),
+      filters.search ? 'replace' : 'push',
+    )
   }
 
-  const handleStatusChange = (status: StatusFilter) => {
+  const handleStatusChange = (status: StatusView) => {
     setFilters((prev) => ({ ...prev, status }))
   }
 
@@ -267,8 +870,19 @@ export const TodoPage = () => {
     setFilters((prev) => ({ ...prev, due: event.target.value as DueFilter }))
   }
 
+  const handlePriorityChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    setFilters((prev) => ({ ...prev, priority: event.target.value as PriorityFilter }))
+  }
+
+  const handleTagFilterToggle = (name: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      tags: prev.tags.includes(name) ? prev.tags.filter((tag) => tag !== name) : [...prev.tags, name],
+    }))
+  }
+
   const handleClearFilters = () => {
-    setFilters({ status: 'all', sort: 'created-desc', search: '', due: 'all' })
+    setFilters(() => DEFAULT_FILTERS)
   }
 
   const openCreateModal = () => {
@@ -286,22 +900,41 @@ export const TodoPage = () => {
     setEditingTodo(null)
   }
 
-  const handleFormSubmit = async (values: {
-    title: string
-    description: string
-    dueDate: string | null
-    completed: boolean
-  }) => {
+  const handleFormSubmit = async (values: TodoFormPayload) => {
     if (editingTodo) {
-      await updateMutation.mutateAsync({ id: editingTodo.id, values })
+      const previous: UpdateTodoInput = {
+        listId: editingTodo.listId,
+        title: editingTodo.title,
+        description: editingTodo.description,
+        dueDate: editingTodo.dueDate,
+        dueTime: editingTodo.dueTime,
+        dueTimeZone: editingTodo.dueTimeZone,
+        completed: editingTodo.completed,
+        priority: editingTodo.priority,
+        checklist: editingTodo.checklist,
+        autoCompleteChecklist: editingTodo.autoCompleteChecklist,
+        tags: editingTodo.tags,
+        recurrence: editingTodo.recurrence,
+        reminders: editingTodo.reminders,
+      }
+      return updateMutation.mutateAsync({ id: editingTodo.id, values, previous })
     } else {
       const payload: CreateTodoInput = {
+        listId: values.listId,
         title: values.title,
         description: values.description,
         dueDate: values.dueDate,
+        dueTime: values.dueTime,
+        dueTimeZone: values.dueTimeZone,
         completed: values.completed,
+        priority: values.priority,
+        checklist: values.checklist,
+        autoCompleteChecklist: values.autoCompleteChecklist,
+        tags: values.tags,
+        recurrence: values.recurrence,
+        reminders: values.reminders,
       }
-      await createMutation.mutateAsync(payload)
+      return createMutation.mutateAsync(payload)
     }
   }
 
@@ -314,214 +947,522 @@ export const TodoPage = () => {
     setDeleteTarget(null)
   }
 
+  const requestPurge = (todo: Todo) => setPurgeTarget(todo)
+  const cancelPurge = () => setPurgeTarget(null)
+
+  const confirmPurge = async () => {
+    if (!purgeTarget) return
+    await purgeMutation.mutateAsync(purgeTarget.id)
+    setPurgeTarget(null)
+  }
+
+  const confirmBulkDelete = async () => {
+    await bulkDeleteMutation.mutateAsync(selection.selectedIds)
+    setBulkDeleteOpen(false)
+  }
+
   const toggleExpanded = (todoId: string) => {
     setExpandedId((current) => (current === todoId ? null : todoId))
   }
 
-  const activeCount = todos.filter((todo) => !todo.completed).length
-  const completedCount = todos.filter((todo) => todo.completed).length
+  // Only the loaded pages are in memory, so the counts come from the list summaries.
+  const activeCount = activeList?.activeCount ?? 0
+  const completedCount = activeList?.completedCount ?? 0
+  const listTotal = activeCount + completedCount
+
+  const listLoading = isTrashView ? isTrashLoading : isLoading
+  const showEmptyState = !isTrashView && !isLoading && Boolean(activeList) && listTotal === 0
+  const showEmptyTrash = isTrashView && !isTrashLoading && trashedTodos.length === 0
+  const showNoResults =
+    !listLoading && (isTrashView ? trashedTodos.length > 0 : listTotal > 0) && derivedTodos.length === 0
+  // Todos loaded before a refresh failed stay on screen, so changes can still be queued while offline.
+  const loadFailed = isError && !data
+  const showLoadMore = !isTrashView && !listLoading && !isError && hasNextPage
 
-  const showEmptyState = !isLoading && todos.length === 0
-  const showNoResults = !isLoading && todos.length > 0 && derivedTodos.length === 0
+  // Infinite scroll: the next page loads as the "Load more" button approaches the viewport.
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+  useEffect(() => {
+    const target = loadMoreRef.current
+    if (!target || !showLoadMore || isFetchingNextPage) return
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) fetchNextPage()
+      },
+      { rootMargin: '240px' },
+    )
+    observer.observe(target)
+    return () => observer.disconnect()
+  }, [showLoadMore, isFetchingNextPage, fetchNextPage])
 
   return (
-    <div className="todo-page">
-      <header className="todo-page__header">
-        <div>
-          <p className="eyebrow">Productivity</p>
-          <h1>Team todos</h1>
-          <p className="subheading">Track work, unblock teammates, and celebrate wins.</p>
-        </div>
-        <button type="button" className="btn btn--primary" onClick={openCreateModal}>
-          <Plus aria-hidden="true" />
-          <span>Add todo</span>
-        </button>
-      </header>
-
-      <section className="todo-controls" aria-label="Todo filters">
-        <div className="todo-controls__search">
-          <label htmlFor="todo-search" className="sr-only">
-            Search todos
-          </label>
-          <div className="search-input">
-            <Search aria-hidden="true" />
-            <input
-              id="todo-search"
-              type="search"
-              placeholder="Search by keyword"
-              value={filters.search}
-              onChange={handleSearchChange}
-            />
+    <div className="todo-layout">
+      <ListSidebar lists={lists} activeListId={activeListId} onSelect={selectList} />
+      <div className="todo-page">
+        <header className="todo-page__header">
+          <div>
+            <p className="eyebrow">Team todos</p>
+            <h1>{activeList?.name ?? 'Team todos'}</h1>
+            <p className="subheading">Track work, unblock teammates, and celebrate wins.</p>
           </div>
-        </div>
+          <div className="todo-page__header-actions">
+            <TimeZoneSelect />
+            <NotificationPermissionButton />
+            <button type="button" className="btn btn--secondary" onClick={() => setTransferOpen(true)}>
+              <FileUp aria-hidden="true" />
+              <span>Import / export</span>
+            </button>
+            <button type="button" className="btn btn--primary" onClick={openCreateModal}>
+              <Plus aria-hidden="true" />
+              <span>Add todo</span>
+            </button>
+          </div>
+        </header>
 
-        <div className="todo-controls__chips" role="group" aria-label="Filter by status">
-          <Filter aria-hidden="true" />
-          <button
-            type="button"
-            className={clsx('chip', { 'chip--active': filters.status === 'all' })}
-            onClick={() => handleStatusChange('all')}
-            aria-pressed={filters.status === 'all'}
-          >
-            All ({todos.length})
-          </button>
-          <button
-            type="button"
-            className={clsx('chip', { 'chip--active': filters.status === 'active' })}
-            onClick={() => handleStatusChange('active')}
-            aria-pressed={filters.status === 'active'}
-          >
-            Active ({activeCount})
-          </button>
-          <button
-            type="button"
-            className={clsx('chip', { 'chip--active': filters.status === 'completed' })}
-            onClick={() => handleStatusChange('completed')}
-            aria-pressed={filters.status === 'completed'}
-          >
-            Completed ({completedCount})
-          </button>
-        </div>
+        <SavedViewsBar views={views} current={pageState} onApply={applyView} />
 
-        <div className="todo-controls__dropdowns">
-          <label className="select-field">
-            <span className="select-field__label">Due</span>
-            <select value={filters.due} onChange={handleDueChange}>
-              <option value="all">Any time</option>
-              <option value="soon">Due soon</option>
-              <option value="overdue">Overdue</option>
-            </select>
-          </label>
-
-          <label className="select-field">
-            <span className="select-field__label">Sort</span>
-            <select value={filters.sort} onChange={handleSortChange}>
-              {SORT_OPTIONS.map((option) => (
-                <option key={option.value} value={option.value}>
-                  {option.label}
-                </option>
-              ))}
-            </select>
-          </label>
-        </div>
-      </section>
+        <section className="todo-controls" aria-label="Todo filters">
+          <div className="todo-controls__search">
+            <label htmlFor="todo-search" className="sr-only">
+              Search todos
+            </label>
+            <div className="search-input">
+              <Search aria-hidden="true" />
+              <input
+                id="todo-search"
+                type="search"
+                placeholder="Search, e.g. title:deploy is:overdue -draft"
+                value={filters.search}
+                onChange={handleSearchChange}
+                aria-invalid={Boolean(parsedSearch.error)}
+                aria-describedby={parsedSearch.error ? 'todo-search-error' : undefined}
+              />
+            </div>
+            {parsedSearch.error ? (
+              <p id="todo-search-error" className="field-error" role="alert">
+                {parsedSearch.error.message} (at character {parsedSearch.error.position + 1})
+              </p>
+            ) : null}
+          </div>
 
-      {isFetching ? (
-        <div className="sync-indicator" role="status" aria-live="polite">
-          <Loader2 className="spin" aria-hidden="true" /> Syncing updates…
-        </div>
-      ) : null}
+          <div className="todo-controls__chips" role="group" aria-label="Filter by status">
+            <Filter aria-hidden="true" />
+            <button
+              type="button"
+              className={clsx('chip', { 'chip--active': filters.status === 'all' })}
+              onClick={() => handleStatusChange('all')}
+              aria-pressed={filters.status === 'all'}
+            >
+              All ({listTotal})
+            </button>
+            <button
+              type="button"
+              className={clsx('chip', { 'chip--active': filters.status === 'active' })}
+              onClick={() => handleStatusChange('active')}
+              aria-pressed={filters.status === 'active'}
+            >
+              Active ({activeCount})
+            </button>
+            <button
+              type="button"
+              className={clsx('chip', { 'chip--active': filters.status === 'completed' })}
+              onClick={() => handleStatusChange('completed')}
+              aria-pressed={filters.status === 'completed'}
+            >
+              Completed ({completedCount})
+            </button>
+            <button
+              type="button"
+              className={clsx('chip', { 'chip--active': filters.status === 'trash' })}
+              onClick={() => handleStatusChange('trash')}
+              aria-pressed={filters.status === 'trash'}
+            >
+              Trash ({trashedTodos.length})
+            </button>
+          </div>
 
-      {isError ? (
-        <div className="error-state" role="alert">
-          <p>We couldn&apos;t load your todos.</p>
-          <p className="error-state__message">{error instanceof Error ? error.message : 'Unknown error'}</p>
-          <button type="button" className="btn btn--secondary" onClick={() => queryClient.invalidateQueries({ queryKey })}>
-            Try again
-          </button>
-        </div>
-      ) : null}
+          <div className="todo-controls__dropdowns">
+            <label className="select-field">
+              <span className="select-field__label">Due</span>
+              <select value={filters.due} onChange={handleDueChange}>
+                <option value="all">Any time</option>
+                <option value="soon">Due soon</option>
+                <option value="overdue">Overdue</option>
+              </select>
+            </label>
 
-      {isLoading ? <TodoListSkeleton /> : null}
-
-      {!isLoading && !isError ? (
-        <div className="todo-list" role="list" aria-live="polite">
-          {derivedTodos.map((todo) => (
-            <TodoCard
-              key={todo.id}
-              todo={todo}
-              expanded={expandedId === todo.id}
-              onToggleExpand={() => toggleExpanded(todo.id)}
-              onEdit={() => openEditModal(todo)}
-              onDelete={() => requestDelete(todo)}
-              onToggleComplete={() => toggleMutation.mutate(todo.id)}
-              toggling={activeToggleId === todo.id && toggleMutation.isPending}
-            />
-          ))}
-        </div>
-      ) : null}
+            <label className="select-field">
+              <span className="select-field__label">Priority</span>
+              <select value={filters.priority} onChange={handlePriorityChange}>
+                <option value="all">Any priority</option>
+                {TODO_PRIORITIES.map((priority) => (
+                  <option key={priority} value={priority}>
+                    {PRIORITY_LABELS[priority]}
+                  </option>
+                ))}
+              </select>
+            </label>
 
-      {showEmptyState ? (
-        <EmptyState onCreate={openCreateModal} />
-      ) : null}
+            <label className="select-field">
+              <span className="select-field__label">Sort</span>
+              <select value={filters.sort} onChange={handleSortChange}>
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
 
-      {showNoResults ? (
-        <div className="empty-filters" role="status">
-          <ListChecks aria-hidden="true" />
-          <p>No todos match your filters.</p>
-          <button type="button" className="btn btn--ghost" onClick={handleClearFilters}>
-            Reset filters
-          </button>
-        </div>
-      ) : null}
+          <div className="todo-controls__tags" role="group" aria-label="Filter by tag">
+            <Tags aria-hidden="true" />
+            {tags.map((tag) => (
+              <button
+                key={tag.name}
+                type="button"
+                className={clsx('chip', 'chip--tag', `chip--tag-${tag.color}`, {
+                  'chip--active': filters.tags.includes(tag.name),
+                })}
+                onClick={() => handleTagFilterToggle(tag.name)}
+                aria-pressed={filters.tags.includes(tag.name)}
+              >
+                {tag.name} ({tag.count})
+              </button>
+            ))}
+            <button type="button" className="btn btn--ghost btn--sm" onClick={() => setTagManagerOpen(true)}>
+              Manage tags
+            </button>
+          </div>
+        </section>
+
+        <QuarantineNotice />
+
+        <SyncStatusPanel
+          entries={outbox.entries}
+          online={outbox.online}
+          replaying={outbox.replaying}
+          nextAttemptAt={outbox.nextAttemptAt}
+          fetching={isFetching}
+          stale={isError && Boolean(data)}
+          onSyncNow={() => void outbox.replay()}
+          onRetry={(id) => void outbox.retry(id)}
+          onDiscard={(id) => void outbox.discard(id)}
+        />
+
+        {loadFailed ? (
+          <div className="error-state" role="alert">
+            <p>We couldn&apos;t load your todos.</p>
+            <p className="error-state__message">{error instanceof Error ? error.message : 'Unknown error'}</p>
+            <button type="button" className="btn btn--secondary" onClick={() => queryClient.invalidateQueries({ queryKey })}>
+              Try again
+            </button>
+          </div>
+        ) : null}
 
-      <TodoFormModal
-        open={isFormOpen}
-        mode={editingTodo ? 'edit' : 'create'}
-        todo={editingTodo}
-        onClose={closeFormModal}
-        onSubmit={handleFormSubmit}
-        isSubmitting={createMutation.isPending || updateMutation.isPending}
-      />
-
-      <ConfirmDialog
-        open={Boolean(deleteTarget)}
-        title="Delete todo"
-        description={
-          <p>
-            Are you sure you want to delete <strong>{deleteTarget?.title}</strong>? You can&apos;t undo this
-            action.
+        {listLoading ? <TodoListSkeleton /> : null}
+
+        {isManualOrder && derivedTodos.length > 0 ? (
+          <p id="todo-reorder-hint" className="field-hint">
+            Drag todos by their handle to reorder them, or focus the handle and use the up and down arrow keys.
           </p>
-        }
-        confirmLabel="Delete"
-        onCancel={cancelDelete}
-        onConfirm={confirmDelete}
-        isProcessing={deleteMutation.isPending}
-        confirmTone="danger"
-      />
+        ) : null}
+
+        {selection.selectedIds.length > 0 ? (
+          <BulkActionBar
+            selectedCount={selection.selectedIds.length}
+            visibleCount={selectableIds.length}
+            busy={bulkUpdateMutation.isPending || bulkDeleteMutation.isPending}
+            onChange={(change) => bulkUpdateMutation.mutate({ ids: selection.selectedIds, change })}
+            onDelete={() => setBulkDeleteOpen(true)}
+            onSelectAll={selection.selectAll}
+            onClear={clearSelection}
+          />
+        ) : null}
+
+        {!listLoading && !loadFailed ? (
+          <div className="todo-list" role="list" aria-live="polite">
+            {derivedTodos.map((todo) => (
+              <TodoCard
+                key={todo.id}
+                todo={todo}
+                attachments={attachmentsByTodo?.get(todo.id)}
+                comments={commentsByTodo.get(todo.id)}
+                syncState={syncStates.get(todo.id)}
+                expanded={expandedId === todo.id}
+                onToggleExpand={() => toggleExpanded(todo.id)}
+                onEdit={() => openEditModal(todo)}
+                onDelete={() => requestDelete(todo)}
+                onRestore={() => restoreMutation.mutate({ id: todo.id })}
+                onPurge={() => requestPurge(todo)}
+                onToggleComplete={() => toggleMutation.mutate({ id: todo.id })}
+                onToggleChecklistItem={(itemId) => checklistMutation.mutate({ id: todo.id, itemId })}
+                tagColors={tagColors}
+                toggling={activeToggleId === todo.id && toggleMutation.isPending}
+                restoring={restoreMutation.isPending && restoreMutation.variables?.id === todo.id}
+                highlight={highlightTerms}
+                selection={
+                  isTrashView || isProvisionalId(todo.id)
+                    ? undefined
+                    : {
+                        selected: selection.isSelected(todo.id),
+                        onToggle: (range) => selection.toggle(todo.id, { range }),
+                      }
+                }
+                reorder={
+                  isManualOrder && !isProvisionalId(todo.id)
+                    ? {
+                        handleProps: dragReorder.getHandleProps(todo.id),
+                        itemProps: dragReorder.getItemProps(todo.id),
+                        dragging: dragReorder.draggingId === todo.id,
+                        dropPosition: dragReorder.dropTarget?.id === todo.id ? dragReorder.dropTarget.position : null,
+                      }
+                    : undefined
+                }
+              />
+            ))}
+          </div>
+        ) : null}
+
+        {showLoadMore ? (
+          <div ref={loadMoreRef} className="todo-list__more">
+            <button
+              type="button"
+              className="btn btn--ghost"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? (
+                <Loader2 aria-hidden="true" className="spin" />
+              ) : (
+                <ChevronDown aria-hidden="true" />
+              )}
+              <span>
+                {isFetchingNextPage ? 'Loading more…' : `Load more (${totalCount - todos.length} remaining)`}
+              </span>
+            </button>
+          </div>
+        ) : null}
+
+        {showEmptyState ? (
+          <EmptyState onCreate={openCreateModal} />
+        ) : null}
+
+        {showEmptyTrash ? (
+          <div className="empty-filters" role="status">
+            <Trash2 aria-hidden="true" />
+            <p>The trash is empty. Deleted todos stay here for {trashRetentionDays} days.</p>
+          </div>
+        ) : null}
+
+        {showNoResults ? (
+          <div className="empty-filters" role="status">
+            <ListChecks aria-hidden="true" />
+            <p>No todos match your filters.</p>
+            <button type="button" className="btn btn--ghost" onClick={handleClearFilters}>
+              Reset filters
+            </button>
+          </div>
+        ) : null}
+
+        <TodoFormModal
+          open={isFormOpen}
+          mode={editingTodo ? 'edit' : 'create'}
+          todo={editingTodo}
+          onClose={closeFormModal}
+          onSubmit={handleFormSubmit}
+          isSubmitting={createMutation.isPending || updateMutation.isPending}
+          tagSuggestions={tags}
+          lists={lists}
+          defaultListId={activeListId}
+        />
+
+        <TagManagerModal open={isTagManagerOpen} onClose={() => setTagManagerOpen(false)} />
+
+        <ImportExportModal
+          open={isTransferOpen}
+          onClose={() => setTransferOpen(false)}
+          lists={lists}
+          activeListId={activeListId}
+          viewQuery={isTrashView ? undefined : listQuery}
+        />
+
+        <ConfirmDialog
+          open={Boolean(deleteTarget)}
+          title="Move to trash"
+          description={
+            <p>
+              <strong>{deleteTarget?.title}</strong> will be moved to the trash. You can restore it within{' '}
+              {trashRetentionDays} days before it is permanently deleted.
+            </p>
+          }
+          confirmLabel="Move to trash"
+          onCancel={cancelDelete}
+          onConfirm={confirmDelete}
+          isProcessing={deleteMutation.isPending}
+          confirmTone="danger"
+        />
+
+        <ConfirmDialog
+          open={isBulkDeleteOpen}
+          title="Move to trash"
+          description={
+            <p>
+              <strong>{countTodos(selection.selectedIds.length)}</strong> will be moved to the trash. You can restore
+              them within {trashRetentionDays} days before they are permanently deleted.
+            </p>
+          }
+          confirmLabel="Move to trash"
+          onCancel={() => setBulkDeleteOpen(false)}
+          onConfirm={confirmBulkDelete}
+          isProcessing={bulkDeleteMutation.isPending}
+          confirmTone="danger"
+        />
+
+        <ConfirmDialog
+          open={Boolean(purgeTarget)}
+          title="Delete forever"
+          description={
+            <p>
+              Are you sure you want to permanently delete <strong>{purgeTarget?.title}</strong>? You can&apos;t undo
+              this action.
+            </p>
+          }
+          confirmLabel="Delete forever"
+          onCancel={cancelPurge}
+          onConfirm={confirmPurge}
+          isProcessing={purgeMutation.isPending}
+          confirmTone="danger"
+        />
+      </div>
     </div>
   )
 }
 
 type TodoCardProps = {
   todo: Todo
+  attachments?: Attachment[]
+  comments?: TodoComment[]
+  syncState?: TodoSyncState
   onToggleComplete: () => void
   onEdit: () => void
   onDelete: () => void
   onToggleExpand: () => void
   expanded: boolean
+  onRestore: () => void
+  onPurge: () => void
+  onToggleChecklistItem: (itemId: string) => void
+  tagColors: Map<string, TagColor>
   toggling: boolean
+  restoring: boolean
+  highlight?: HighlightTerms
+  /** `onToggle` receives whether shift was held, which extends the selection as a range. */
+  selection?: {
+    selected: boolean
+    onToggle: (range: boolean) => void
+  }
+  reorder?: {
+    handleProps: HTMLAttributes<HTMLElement>
+    itemProps: HTMLAttributes<HTMLElement>
+    dragging: boolean
+    dropPosition: DropPosition | null
+  }
 }
 
-const TodoCard = ({ todo, onToggleComplete, onEdit, onDelete, onToggleExpand, expanded, toggling }: TodoCardProps) => {
+const TodoCard = ({
+  todo,
+  attachments = [],
+  comments = NO_COMMENTS,
+  syncState,
+  onToggleComplete,
+  onEdit,
+  onDelete,
+  onRestore,
+  onPurge,
+  onToggleChecklistItem,
+  tagColors,
+  onToggleExpand,
+  expanded,
+  toggling,
+  restoring,
+  highlight,
+  selection,
+  reorder,
+}: TodoCardProps) => {
   const titleId = `todo-${todo.id}`
   const detailsId = `todo-details-${todo.id}`
 
-  const dueLabel = formatDueDateLabel(todo.dueDate)
+  const { timeZone } = usePreferences()
+  const dueLabel = formatDueDateLabel(todo, timeZone)
   const updatedLabel = formatDistanceToNow(parseISO(todo.updatedAt), { addSuffix: true })
   const createdLabel = format(parseISO(todo.createdAt), 'MMM d, yyyy')
 
+  const trashed = Boolean(todo.deletedAt)
+  // Only the changes the outbox can queue apply to a todo that is not on the server yet.
+  const provisional = isProvisionalId(todo.id)
+  const checklistDone = todo.checklist.filter((item) => item.completed).length
+
   const badges: ReactNode[] = []
-  if (todo.completed) {
+  if (todo.deletedAt) {
+    const purgeDate = addDays(parseISO(todo.deletedAt), trashRetentionDays)
+    badges.push(
+      <span key="trashed" className="badge badge--muted">
+        In trash · purged {formatDistanceToNow(purgeDate, { addSuffix: true })}
+      </span>,
+    )
+  } else if (todo.completed) {
     badges.push(<span key="completed" className="badge badge--success">Completed</span>)
   }
-  if (!todo.completed && isOverdue(todo.dueDate)) {
+  if (!trashed && !todo.completed && isOverdue(todo, timeZone)) {
     badges.push(<span key="overdue" className="badge badge--danger">Overdue</span>)
   }
-  if (!todo.completed && isDueSoon(todo.dueDate)) {
+  if (!trashed && !todo.completed && isDueSoon(todo, timeZone)) {
     badges.push(<span key="soon" className="badge badge--warning">Due soon</span>)
   }
+  if (syncState) {
+    badges.push(
+      <span
+        key="sync"
+        className={clsx('badge badge--sync', syncState === 'failed' ? 'badge--danger' : 'badge--muted')}
+        title={syncState === 'failed' ? 'The server rejected a change; see the sync panel' : undefined}
+      >
+        <CloudOff aria-hidden="true" /> {syncState === 'failed' ? 'Sync failed' : 'Pending sync'}
+      </span>,
+    )
+  }
 
   return (
-    <article className={clsx('todo-card', { 'todo-card--completed': todo.completed })} role="listitem">
+    <article
+      className={clsx(
+        'todo-card',
+        {
+          'todo-card--completed': todo.completed,
+          'todo-card--trashed': trashed,
+          'todo-card--dragging': reorder?.dragging,
+          'todo-card--selectable': selection,
+          'todo-card--selected': selection?.selected,
+        },
+        reorder?.dropPosition && `todo-card--drop-${reorder.dropPosition}`,
+      )}
+      role="listitem"
+      {...reorder?.itemProps}
+    >
       <div className="todo-card__main">
+        {selection ? (
+          <input
+            type="checkbox"
+            className="todo-card__select"
+            checked={selection.selected}
+            onChange={(event) => selection.onToggle((event.nativeEvent as MouseEvent).shiftKey)}
+            aria-label={`Select ${todo.title}`}
+          />
+        ) : null}
         <button
           type="button"
           className="toggle-button"
           onClick={onToggleComplete}
           aria-pressed={todo.completed}
           aria-label={todo.completed ? 'Mark todo as incomplete' : 'Mark todo as complete'}
-          disabled={toggling}
+          disabled={toggling || trashed}
         >
           {toggling ? (
             <Loader2 aria-hidden="true" className="spin" />
@@ -533,24 +1474,109 @@ const TodoCard = ({ todo, onToggleComplete, onEdit, onDelete, onToggleExpand, ex
         </button>
         <div className="todo-card__content">
           <div className="todo-card__header">
-            <h3 id={titleId}>{todo.title}</h3>
+            <h3 id={titleId}>
+              <HighlightedText text={todo.title} terms={highlight?.title} />
+            </h3>
             <div className="todo-card__badges">
               {badges.length ? badges : <span className="badge badge--muted">Open</span>}
             </div>
           </div>
-          <p className="todo-card__due">
-            <Calendar aria-hidden="true" /> {dueLabel}
-          </p>
+          <div className="todo-card__summary">
+            {todo.priority !== 'none' ? (
+              <span className={`badge badge--priority badge--priority-${todo.priority}`}>
+                <Flag aria-hidden="true" /> {PRIORITY_LABELS[todo.priority]}
+              </span>
+            ) : null}
+            <p className="todo-card__due">
+              <Calendar aria-hidden="true" /> {dueLabel}
+            </p>
+            {todo.reminders.length > 0 && todo.dueDate ? (
+              <p className="todo-card__reminders">
+                <Bell aria-hidden="true" /> {todo.reminders.map(describeReminder).join(', ')}
+              </p>
+            ) : null}
+            {todo.recurrence ? (
+              <p className="todo-card__recurrence">
+                <Repeat aria-hidden="true" /> {describeRecurrence(todo.recurrence)}
+              </p>
+            ) : null}
+            {todo.checklist.length > 0 ? (
+              <p
+                className={clsx('todo-card__progress', {
+                  'todo-card__progress--done': checklistDone === todo.checklist.length,
+                })}
+                aria-label={`${checklistDone} of ${todo.checklist.length} checklist items done`}
+              >
+                <ListChecks aria-hidden="true" /> {checklistDone}/{todo.checklist.length}
+              </p>
+            ) : null}
+            {comments.length > 0 ? (
+              <p
+                className="todo-card__comments"
+                aria-label={`${comments.length} ${comments.length === 1 ? 'comment' : 'comments'}`}
+              >
+                <MessageSquare aria-hidden="true" /> {comments.length}
+              </p>
+            ) : null}
+            {attachments.length > 0 ? (
+              <p
+                className="todo-card__attachments"
+                aria-label={`${attachments.length} ${attachments.length === 1 ? 'attachment' : 'attachments'}`}
+              >
+                <Paperclip aria-hidden="true" /> {attachments.length}
+              </p>
+            ) : null}
+          </div>
+          {todo.tags.length > 0 ? (
+            <div className="todo-card__tags" aria-label="Tags">
+              {todo.tags.map((tag) => (
+                <TagBadge key={tag} name={tag} color={tagColors.get(tag.toLowerCase())} />
+              ))}
+            </div>
+          ) : null}
         </div>
         <div className="todo-card__actions" role="group" aria-label={`Actions for ${todo.title}`}>
-          <button type="button" className="btn btn--ghost btn--icon" onClick={onEdit}>
-            <Edit2 aria-hidden="true" />
-            <span className="sr-only">Edit</span>
-          </button>
-          <button type="button" className="btn btn--ghost btn--icon" onClick={onDelete}>
-            <Trash2 aria-hidden="true" />
-            <span className="sr-only">Delete</span>
-          </button>
+          {trashed ? (
+            <>
+              <button
+                type="button"
+                className="btn btn--ghost btn--icon"
+                onClick={onRestore}
+                disabled={restoring || provisional}
+              >
+                {restoring ? <Loader2 aria-hidden="true" className="spin" /> : <RotateCcw aria-hidden="true" />}
+                <span className="sr-only">Restore</span>
+              </button>
+              <button type="button" className="btn btn--ghost btn--icon" onClick={onPurge} disabled={provisional}>
+                <Trash2 aria-hidden="true" />
+                <span className="sr-only">Delete forever</span>
+              </button>
+            </>
+          ) : (
+            <>
+              {reorder ? (
+                // A span rather than a button: some browsers never start a drag from a <button>.
+                <span
+                  role="button"
+                  tabIndex={0}
+                  className="btn btn--ghost btn--icon todo-card__handle"
+                  aria-describedby="todo-reorder-hint"
+                  {...reorder.handleProps}
+                >
+                  <GripVertical aria-hidden="true" />
+                  <span className="sr-only">Reorder {todo.title}</span>
+                </span>
+              ) : null}
+              <button type="button" className="btn btn--ghost btn--icon" onClick={onEdit}>
+                <Edit2 aria-hidden="true" />
+                <span className="sr-only">Edit</span>
+              </button>
+              <button type="button" className="btn btn--ghost btn--icon" onClick={onDelete}>
+                <Trash2 aria-hidden="true" />
+                <span className="sr-only">Move to trash</span>
+              </button>
+            </>
+          )}
         </div>
       </div>
 
@@ -572,21 +1598,61 @@ const TodoCard = ({ todo, onToggleComplete, onEdit, onDelete, onToggleExpand, ex
 
       {expanded ? (
         <div id={detailsId} className="todo-card__details" role="region" aria-labelledby={titleId}>
-          {todo.description ? <p className="todo-card__description">{todo.description}</p> : null}
+          {todo.description ? (
+            <MarkdownText
+              text={todo.description}
+              terms={highlight?.description}
+              className="todo-card__description"
+            />
+          ) : null}
+          {todo.checklist.length > 0 ? (
+            <ul className="todo-card__checklist" aria-label="Checklist">
+              {todo.checklist.map((item) => (
+                <li key={item.id}>
+                  <label className={clsx('checkbox-field', { 'checkbox-field--done': item.completed })}>
+                    <input
+                      type="checkbox"
+                      checked={item.completed}
+                      onChange={() => onToggleChecklistItem(item.id)}
+                      disabled={trashed || provisional}
+                    />
+                    <span>{item.title}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+          {attachments.length > 0 ? <TodoAttachments attachments={attachments} /> : null}
           <dl className="todo-card__meta-grid">
             <div>
               <dt>Due</dt>
-              <dd>{todo.dueDate ? format(parseISO(todo.dueDate), 'MMM d, yyyy') : 'No due date'}</dd>
+              <dd>{formatDueDate(todo, timeZone)}</dd>
             </div>
             <div>
               <dt>Created</dt>
               <dd>{createdLabel}</dd>
             </div>
+            <div>
+              <dt>Repeats</dt>
+              <dd>{todo.recurrence ? describeRecurrence(todo.recurrence) : 'Does not repeat'}</dd>
+            </div>
+            <div>
+              <dt>Priority</dt>
+              <dd>{PRIORITY_LABELS[todo.priority]}</dd>
+            </div>
             <div>
               <dt>Status</dt>
               <dd>{todo.completed ? 'Completed' : 'Active'}</dd>
             </div>
           </dl>
+          {provisional ? (
+            <p className="field-hint">Comments and history are available once this todo has synced.</p>
+          ) : (
+            <>
+              <TodoComments todoId={todo.id} comments={comments} terms={highlight?.comment} readOnly={trashed} />
+              <TodoHistory todoId={todo.id} />
+            </>
+          )}
         </div>
       ) : null}
     </article>
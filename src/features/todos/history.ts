@@ -0,0 +1,45 @@
+import { format, parseISO } from 'date-fns'
+
+import type { TodoFieldChange, TodoHistoryActor, TodoHistoryEntry } from './types'
+
+export const HISTORY_ACTOR_LABELS: Record<TodoHistoryActor, string> = {
+  user: 'You',
+  checklist: 'Checklist',
+  recurrence: 'Recurrence',
+}
+
+const formatDate = (date: string | null) => (date ? format(parseISO(date), 'MMM d, yyyy') : null)
+
+export const describeChange = (change: TodoFieldChange) => {
+  switch (change.field) {
+    case 'title':
+      return `Renamed from “${change.from}” to “${change.to}”`
+    case 'description':
+      if (!change.from) return 'Added a description'
+      return change.to ? 'Edited the description' : 'Removed the description'
+    case 'dueDate': {
+      const from = formatDate(change.from)
+      const to = formatDate(change.to)
+      if (!from) return `Set the due date to ${to}`
+      return to ? `Moved the due date from ${from} to ${to}` : `Removed the due date (was ${from})`
+    }
+    case 'completed':
+      return change.to ? 'Marked complete' : 'Reopened'
+  }
+}
+
+/** One line per change; entries without field changes are described by their action alone. */
+export const describeHistoryEntry = (entry: TodoHistoryEntry): string[] => {
+  switch (entry.action) {
+    case 'created':
+      return [entry.actor === 'recurrence' ? 'Scheduled as the next occurrence' : 'Created the todo']
+    case 'deleted':
+      return ['Moved to the trash']
+    case 'restored':
+      return ['Restored from the trash']
+    case 'updated':
+      return entry.actor === 'checklist' && entry.changes.every((change) => change.field === 'completed')
+        ? ['Marked complete once every checklist item was done']
+        : entry.changes.map(describeChange)
+  }
+}
@@ -0,0 +1,357 @@
+import { z } from 'zod'
+
+import { TODO_PRIORITIES, type CreateTodoInput, type Todo, type TodoList, type UpdateTodoInput } from './types'
+import { ImportFormatError } from './api/errors'
+import { recurrenceRuleSchema, reminderRuleSchema } from './api/schema'
+import { calendarUidOf, readCalendarRecords } from './calendar'
+import {
+  checklistItemTitleRule,
+  dueTimeRule,
+  limitChecklist,
+  limitReminders,
+  todoDescriptionRule,
+  todoTagsRule,
+  todoTitleRule,
+} from './todoRules'
+import { formatCsv, parseCsv } from '../../utils/csv'
+import { isCalendarDate, isValidTimeZone } from '../../utils/date'
+
+export type ExportFormat = 'json' | 'csv' | 'ics'
+
+const EXPORT_KIND = 'todo-export'
+const EXPORT_VERSION = 1
+
+/** The columns of a CSV export, which are also the fields a CSV import can map its columns to. */
+export const IMPORT_FIELDS = [
+  { field: 'id', label: 'Id' },
+  { field: 'title', label: 'Title' },
+  { field: 'description', label: 'Description' },
+  { field: 'list', label: 'List' },
+  { field: 'dueDate', label: 'Due date' },
+  { field: 'dueTime', label: 'Due time' },
+  { field: 'dueTimeZone', label: 'Time zone' },
+  { field: 'completed', label: 'Completed' },
+  { field: 'priority', label: 'Priority' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'checklist', label: 'Checklist' },
+] as const
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]['field']
+
+/** The column index each field is read from; `null` leaves the field at its default. */
+export type FieldMapping = Record<ImportField, number | null>
+
+// Header spellings other tools commonly use, matched after lower-casing and dropping everything but letters.
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  id: ['id', 'uid', 'key'],
+  title: ['title', 'name', 'task', 'summary', 'subject'],
+  description: ['description', 'notes', 'details', 'body'],
+  list: ['list', 'listid', 'project', 'category'],
+  dueDate: ['duedate', 'due', 'deadline', 'date'],
+  dueTime: ['duetime', 'time'],
+  dueTimeZone: ['duetimezone', 'timezone', 'tz'],
+  completed: ['completed', 'done', 'status', 'complete'],
+  priority: ['priority', 'importance'],
+  tags: ['tags', 'labels', 'tag'],
+  checklist: ['checklist', 'subtasks', 'steps'],
+}
+
+const TAG_SEPARATOR = '; '
+
+/** Everything a todo needs to be imported again, including what CSV cannot carry (recurrence, reminders). */
+export const toJsonExport = (todos: Todo[], exportedAt = new Date()) =>
+  JSON.stringify({ kind: EXPORT_KIND, version: EXPORT_VERSION, exportedAt: exportedAt.toISOString(), todos }, null, 2)
+
+export const toCsvExport = (todos: Todo[], lists: TodoList[]) => {
+  const listNames = new Map(lists.map((list) => [list.id, list.name]))
+  const values = (todo: Todo): Record<ImportField, string> => ({
+    id: todo.id,
+    title: todo.title,
+    description: todo.description,
+    list: listNames.get(todo.listId) ?? todo.listId,
+    dueDate: todo.dueDate ?? '',
+    dueTime: todo.dueTime ?? '',
+    dueTimeZone: todo.dueTimeZone ?? '',
+    completed: String(todo.completed),
+    priority: todo.priority,
+    tags: todo.tags.join(TAG_SEPARATOR),
+    checklist: todo.checklist.map((item) => `[${item.completed ? 'x' : ' '}] ${item.title}`).join('\n'),
+  })
+  return formatCsv([
+    IMPORT_FIELDS.map(({ field }) => field),
+    ...todos.map((todo) => {
+      const row = values(todo)
+      return IMPORT_FIELDS.map(({ field }) => row[field])
+    }),
+  ])
+}
+
+type ImportRecord = Record<string, unknown>
+
+export type ParsedImport =
+  | { format: 'json'; records: ImportRecord[] }
+  | { format: 'ics'; records: ImportRecord[] }
+  | { format: 'csv'; headers: string[]; rows: string[][] }
+
+const readJsonImport = (text: string): ImportRecord[] => {
+  let payload: unknown
+  try {
+    payload = JSON.parse(text)
+  } catch {
+    throw new ImportFormatError('The file is not valid JSON')
+  }
+  const todos = Array.isArray(payload) ? payload : (payload as { todos?: unknown } | null)?.todos
+  if (!Array.isArray(todos)) {
+    throw new ImportFormatError('Expected a todo export or an array of todos')
+  }
+  // Exports name the list by id; CSV files and hand-written JSON may use its name instead.
+  return todos.map((todo) =>
+    todo && typeof todo === 'object' ? { ...todo, list: (todo as ImportRecord).listId ?? (todo as ImportRecord).list } : {},
+  )
+}
+
+/** Throws `ImportFormatError` when the file cannot be read as a todo export, a calendar or a CSV table. */
+export const parseImportFile = (text: string, fileName: string): ParsedImport => {
+  if (/\.ics$/i.test(fileName) || /^\uFEFF?\s*BEGIN:VCALENDAR/i.test(text)) {
+    return { format: 'ics', records: readCalendarRecords(text) }
+  }
+  const isJson = /\.json$/i.test(fileName) || (!/\.csv$/i.test(fileName) && /^\s*[[{]/.test(text))
+  if (isJson) {
+    return { format: 'json', records: readJsonImport(text) }
+  }
+
+  let table: string[][]
+  try {
+    table = parseCsv(text)
+  } catch (error) {
+    throw new ImportFormatError(error instanceof Error ? error.message : 'The file is not valid CSV')
+  }
+  if (table.length < 2) {
+    throw new ImportFormatError('The CSV file needs a header row and at least one todo')
+  }
+  const [headers, ...rows] = table
+  return { format: 'csv', headers: headers.map((header) => header.trim()), rows }
+}
+
+export const guessFieldMapping = (headers: string[]): FieldMapping => {
+  const normalized = headers.map((header) => header.toLowerCase().replace(/[^a-z]/g, ''))
+  const mapping = {} as FieldMapping
+  const taken = new Set<number>()
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const index = normalized.findIndex((header, column) => !taken.has(column) && FIELD_ALIASES[field].includes(header))
+    mapping[field] = index === -1 ? null : index
+    if (index !== -1) taken.add(index)
+  })
+  return mapping
+}
+
+export const applyFieldMapping = (rows: string[][], mapping: FieldMapping): ImportRecord[] =>
+  rows.map((row) =>
+    Object.fromEntries(
+      IMPORT_FIELDS.flatMap(({ field }) => {
+        const column = mapping[field]
+        return column === null || column >= row.length ? [] : [[field, row[column]]]
+      }),
+    ),
+  )
+
+const isBlank = (value: unknown) => value === undefined || value === null || (typeof value === 'string' && !value.trim())
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', 'done', 'completed']
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'open', 'active', 'todo']
+
+const parseCompleted = (value: unknown) => {
+  if (isBlank(value)) return false
+  if (typeof value !== 'string') return value
+  const normalized = value.trim().toLowerCase()
+  if (TRUE_VALUES.includes(normalized)) return true
+  if (FALSE_VALUES.includes(normalized)) return false
+  return value
+}
+
+// CSV checklists hold one item per line, ticked items written as `[x] title`.
+const parseChecklist = (value: unknown) => {
+  if (isBlank(value)) return []
+  if (typeof value !== 'string') return value
+  return value
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const match = /^\[( |x|X)?\]\s*(.*)$/.exec(line)
+      return match ? { title: match[2], completed: Boolean(match[1]?.trim()) } : { title: line, completed: false }
+    })
+}
+
+const optionalText = (value: unknown) =>
+  typeof value === 'string' || typeof value === 'number' ? String(value).trim() || undefined : undefined
+
+const importRecordSchema = z
+  .object({
+    id: z.preprocess(optionalText, z.string().optional()),
+    calendarUid: z.preprocess(optionalText, z.string().max(255, 'Calendar UID is too long').optional()),
+    list: z.preprocess(optionalText, z.string().optional()),
+    title: todoTitleRule,
+    description: z.preprocess((value) => (isBlank(value) ? '' : value), todoDescriptionRule),
+    dueDate: z.preprocess(
+      (value) => (isBlank(value) ? null : typeof value === 'string' ? value.trim() : value),
+      z.string().refine(isCalendarDate, 'Due date must be a yyyy-MM-dd date').nullable(),
+    ),
+    dueTime: z.preprocess((value) => (isBlank(value) ? undefined : value), dueTimeRule),
+    dueTimeZone: z.preprocess(
+      (value) => (isBlank(value) ? null : value),
+      z.string().refine(isValidTimeZone, 'Unknown time zone').nullable(),
+    ),
+    completed: z.preprocess(parseCompleted, z.boolean({ error: 'Completed must be true or false' })),
+    priority: z.preprocess(
+      (value) => (isBlank(value) ? 'none' : typeof value === 'string' ? value.trim().toLowerCase() : value),
+      z.enum(TODO_PRIORITIES, { error: `Priority must be one of ${TODO_PRIORITIES.join(', ')}` }),
+    ),
+    tags: z.preprocess(
+      (value) =>
+        isBlank(value)
+          ? []
+          : typeof value === 'string'
+            ? value
+                .split(/[;,]/)
+                .map((tag) => tag.trim())
+                .filter(Boolean)
+            : value,
+      todoTagsRule,
+    ),
+    checklist: z.preprocess(
+      parseChecklist,
+      limitChecklist(z.object({ title: checklistItemTitleRule, completed: z.boolean().default(false) })),
+    ),
+    autoCompleteChecklist: z.boolean().optional(),
+    recurrence: recurrenceRuleSchema.nullable().optional(),
+    reminders: limitReminders(reminderRuleSchema).optional(),
+  })
+  .refine((values) => !values.dueTime || values.dueDate, {
+    path: ['dueTime'],
+    message: 'Pick a due date before adding a time',
+  })
+
+const FIELD_LABELS = new Map<string, string>(IMPORT_FIELDS.map(({ field, label }) => [field, label]))
+
+export type ImportRow = {
+  /** 1-based position of the todo in the file, not counting the CSV header. */
+  row: number
+  /** `null` when the row failed validation; `errors` says why. */
+  input: CreateTodoInput | null
+  errors: string[]
+  warnings: string[]
+  /** Set when the todo already exists, or appears earlier in the same file. */
+  duplicate: 'id' | 'title' | null
+  /** The existing todo the row updates instead of creating a new one, matched by calendar UID. */
+  updateId: string | null
+}
+
+type ValidateImportOptions = {
+  existing: Todo[]
+  lists: TodoList[]
+  /** Where todos land whose list is missing or unknown. */
+  fallbackListId: string
+  /** The zone timed due dates without one of their own are read in. */
+  timeZone: string
+}
+
+const titleKey = (listId: string, title: string) => `${listId}\u0000${title.trim().toLowerCase()}`
+
+export const validateImport = (
+  records: ImportRecord[],
+  { existing, lists, fallbackListId, timeZone }: ValidateImportOptions,
+): ImportRow[] => {
+  const seenIds = new Set(existing.map((todo) => todo.id))
+  const seenTitles = new Set(existing.map((todo) => titleKey(todo.listId, todo.title)))
+  const existingByUid = new Map(existing.map((todo) => [calendarUidOf(todo), todo]))
+  const seenUids = new Set<string>()
+
+  return records.map((record, index) => {
+    const row = index + 1
+    const result = importRecordSchema.safeParse(record)
+    if (!result.success) {
+      const errors = result.error.issues.map((issue) => {
+        const field = String(issue.path[0] ?? '')
+        return field ? `${FIELD_LABELS.get(field) ?? field}: ${issue.message}` : issue.message
+      })
+      return { row, input: null, errors, warnings: [], duplicate: null, updateId: null }
+    }
+
+    const values = result.data
+    const warnings: string[] = []
+    const target = values.calendarUid ? existingByUid.get(values.calendarUid) : undefined
+    const list = values.list
+      ? lists.find(
+          (candidate) => candidate.id === values.list || candidate.name.toLowerCase() === values.list?.toLowerCase(),
+        )
+      : undefined
+    if (values.list && !list && !target) {
+      const fallbackName = lists.find((candidate) => candidate.id === fallbackListId)?.name ?? fallbackListId
+      warnings.push(`List "${values.list}" does not exist; the todo goes to ${fallbackName}`)
+    }
+    // An update leaves the todo in its list.
+    const listId = target?.listId ?? list?.id ?? fallbackListId
+    if (values.reminders?.length && !values.dueDate) {
+      warnings.push('Reminders need a due date and were dropped')
+    }
+
+    const duplicate =
+      values.calendarUid && seenUids.has(values.calendarUid)
+        ? 'id'
+        : target
+          ? null
+          : values.id && seenIds.has(values.id)
+            ? 'id'
+            : seenTitles.has(titleKey(listId, values.title))
+              ? 'title'
+              : null
+    if (values.id) seenIds.add(values.id)
+    if (values.calendarUid) seenUids.add(values.calendarUid)
+    seenTitles.add(titleKey(listId, values.title))
+
+    const input: CreateTodoInput = {
+      listId,
+      title: values.title,
+      description: values.description,
+      dueDate: values.dueDate,
+      dueTime: values.dueTime || null,
+      dueTimeZone: values.dueTime ? (values.dueTimeZone ?? timeZone) : null,
+      completed: values.completed,
+      priority: values.priority,
+      checklist: values.checklist,
+      autoCompleteChecklist: values.autoCompleteChecklist ?? false,
+      tags: values.tags,
+      recurrence: values.recurrence ?? null,
+      reminders: values.dueDate ? (values.reminders ?? []) : [],
+      calendarUid: values.calendarUid ?? null,
+    }
+    return { row, input, errors: [], warnings, duplicate, updateId: duplicate ? null : (target?.id ?? null) }
+  })
+}
+
+/**
+ * The changes a row makes to the todo it updates. List, checklist and reminders stay as they are, and so
+ * does the recurrence unless the row brings one (calendar files cannot express every rule).
+ */
+export const toImportUpdate = ({
+  title,
+  description,
+  dueDate,
+  dueTime,
+  dueTimeZone,
+  completed,
+  priority,
+  tags,
+  recurrence,
+}: CreateTodoInput): UpdateTodoInput => ({
+  title,
+  description,
+  dueDate,
+  dueTime,
+  dueTimeZone,
+  completed,
+  priority,
+  tags,
+  ...(recurrence ? { recurrence } : {}),
+})
@@ -0,0 +1,20 @@
+import type { TodoPriority } from './types'
+
+export const PRIORITY_LABELS: Record<TodoPriority, string> = {
+  none: 'No priority',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+}
+
+const PRIORITY_RANK: Record<TodoPriority, number> = {
+  none: 0,
+  low: 1,
+  medium: 2,
+  high: 3,
+  urgent: 4,
+}
+
+/** Sorts the most pressing priority first. */
+export const comparePriority = (a: TodoPriority, b: TodoPriority) => PRIORITY_RANK[b] - PRIORITY_RANK[a]
@@ -0,0 +1,18 @@
+import type { TodoQuery } from './api/repository'
+
+export const todoKeys = {
+  all: ['todos'],
+  /** Prefix of every `list` query. */
+  listQueries: ['todos', 'list'],
+  /** One entry per query, so every list, filter and sort combination is cached and paged on its own. */
+  list: (query: TodoQuery = {}) => ['todos', 'list', query] as const,
+  trash: ['todos', 'trash'],
+  /** Under `all`, so whatever refreshes the todos refreshes their history too. */
+  history: (id: string) => ['todos', 'history', id] as const,
+  tags: ['tags'],
+  lists: ['lists'],
+  views: ['views'],
+  comments: ['comments'],
+  attachments: ['attachments'],
+  attachmentContent: (id: string) => ['attachments', 'content', id] as const,
+} as const
@@ -0,0 +1,43 @@
+/**
+ * Manual order is kept as lexicographic rank strings over base-36 digits. A rank never ends in `0`, so there
+ * is always room to insert before or between existing ranks without renumbering their neighbours.
+ */
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz'
+const BASE = DIGITS.length
+
+export const RANK_PATTERN = /^[0-9a-z]*[1-9a-z]$/
+
+export const compareRanks = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0)
+
+/** Returns a rank sorting strictly between `before` and `after`; `null` leaves that side open. */
+export const rankBetween = (before: string | null, after: string | null): string => {
+  if (before !== null && after !== null && before >= after) {
+    throw new RangeError(`Cannot rank between "${before}" and "${after}"`)
+  }
+
+  let prefix = ''
+  let bounded = after !== null
+  for (let index = 0; ; index += 1) {
+    const low = before !== null && index < before.length ? DIGITS.indexOf(before[index]) : 0
+    const high = bounded && after !== null && index < after.length ? DIGITS.indexOf(after[index]) : BASE
+    if (high - low > 1) {
+      return prefix + DIGITS[Math.floor((low + high) / 2)]
+    }
+    prefix += DIGITS[low]
+    // Once the prefix sorts below `after`, later digits are free to go up to the top of the range.
+    if (low < high) bounded = false
+  }
+}
+
+/** Evenly spaced ranks for `count` items, used when an existing order is first given ranks. */
+export const createRankSequence = (count: number): string[] => {
+  const width = Math.max(1, Math.ceil(Math.log(count + 1) / Math.log(BASE)))
+  const step = Math.floor(BASE ** width / (count + 1))
+  return Array.from({ length: count }, (_, index) =>
+    ((index + 1) * step).toString(BASE).padStart(width, '0').replace(/0+$/, ''),
+  )
+}
+
+/** A rank placing a new item above everything in `ranks`. */
+export const rankBeforeAll = (ranks: string[]) =>
+  rankBetween(null, ranks.length > 0 ? ranks.reduce((lowest, rank) => (rank < lowest ? rank : lowest)) : null)
@@ -0,0 +1,69 @@
+import { addDays, addMonths, getDaysInMonth, parseISO, startOfMonth } from 'date-fns'
+
+import type { RecurrenceRule } from './types'
+import { toCalendarDate } from '../../utils/date'
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const
+
+const MAX_STEPS = 400
+
+const nextDueFromAnchor = (rule: Exclude<RecurrenceRule, { type: 'after-completion' }>, anchor: Date, floor: Date) => {
+  const isCandidate = (date: Date) => date > anchor && date >= floor
+
+  if (rule.type === 'monthly') {
+    for (let step = 0; step < MAX_STEPS; step += 1) {
+      const month = addMonths(startOfMonth(anchor), step)
+      // Day 31 falls on the last day of shorter months.
+      const candidate = new Date(month.getFullYear(), month.getMonth(), Math.min(rule.dayOfMonth, getDaysInMonth(month)))
+      if (isCandidate(candidate)) return candidate
+    }
+    return null
+  }
+
+  let candidate = addDays(anchor, 1)
+  for (let step = 0; step < MAX_STEPS * 7; step += 1) {
+    const matches = rule.type === 'daily' || rule.weekdays.includes(candidate.getDay())
+    if (matches && isCandidate(candidate)) return candidate
+    candidate = addDays(candidate, 1)
+  }
+  return null
+}
+
+/**
+ * Works out the calendar date the occurrence after `dueDate` falls due on; a due time carries over as is.
+ * Calendar rules advance from the current due date (or the completion day when there is none) and never
+ * land on or before the day the todo was completed, so finishing an overdue daily todo schedules
+ * tomorrow rather than a day that has already passed. The completion day is the one `completedAt` falls on
+ * in `timeZone`, whatever zone the code runs in.
+ */
+export const getNextDueDate = (
+  rule: RecurrenceRule,
+  dueDate: string | null,
+  completedAt: Date,
+  timeZone: string,
+): string | null => {
+  // From here on each day is a local midnight, so the zone the code runs in cannot shift it.
+  const completedOn = parseISO(toCalendarDate(completedAt, timeZone))
+  if (rule.type === 'after-completion') {
+    return toCalendarDate(addDays(completedOn, rule.days))
+  }
+
+  const anchor = dueDate ? parseISO(dueDate) : completedOn
+  const next = nextDueFromAnchor(rule, anchor, addDays(completedOn, 1))
+  return next ? toCalendarDate(next) : null
+}
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  switch (rule.type) {
+    case 'daily':
+      return 'Every day'
+    case 'weekly':
+      return rule.weekdays.length === 7
+        ? 'Every day of the week'
+        : `Weekly on ${[...rule.weekdays].sort((a, b) => a - b).map((day) => WEEKDAY_LABELS[day]).join(', ')}`
+    case 'monthly':
+      return `Monthly on day ${rule.dayOfMonth}`
+    case 'after-completion':
+      return rule.days === 1 ? '1 day after completion' : `${rule.days} days after completion`
+  }
+}
@@ -0,0 +1,38 @@
+const REMINDER_LOG_KEY = 'production-grade-todo::reminders'
+const RETENTION_MS = 1000 * 60 * 60 * 24 * 30
+
+export type ReminderLogEntry =
+  | { status: 'delivered' | 'dismissed'; fireAt: string }
+  | { status: 'snoozed'; fireAt: string; until: string }
+
+export type ReminderLog = Record<string, ReminderLogEntry>
+
+/**
+ * Delivery state lives on this device only: which reminders already fired, were dismissed or snoozed.
+ * Reading it back on start-up is what lets the scheduler pick up where it left off after a reload.
+ */
+export const readReminderLog = (): ReminderLog => {
+  try {
+    const raw = window.localStorage.getItem(REMINDER_LOG_KEY)
+    const parsed = raw ? JSON.parse(raw) : {}
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+export const writeReminderLog = (log: ReminderLog) => {
+  const cutoff = Date.now() - RETENTION_MS
+  const pruned = Object.fromEntries(
+    Object.entries(log).filter(([, entry]) => new Date(entry.fireAt).getTime() > cutoff),
+  )
+  try {
+    window.localStorage.setItem(REMINDER_LOG_KEY, JSON.stringify(pruned))
+  } catch {
+    // Without storage, reminders may fire again after a reload.
+  }
+}
+
+export const updateReminderLog = (key: string, entry: ReminderLogEntry) => {
+  writeReminderLog({ ...readReminderLog(), [key]: entry })
+}
@@ -0,0 +1,55 @@
+import { TZDate } from '@date-fns/tz'
+
+import type { ReminderRule, Todo } from './types'
+import { getDueInstant, toCalendarDate } from '../../utils/date'
+
+const MORNING_HOUR = 9
+
+export const REMINDER_PRESETS: { label: string; rule: ReminderRule }[] = [
+  { label: 'At due time', rule: { type: 'before-due', minutes: 0 } },
+  { label: '15 minutes before', rule: { type: 'before-due', minutes: 15 } },
+  { label: '1 hour before', rule: { type: 'before-due', minutes: 60 } },
+  { label: '1 day before', rule: { type: 'before-due', minutes: 60 * 24 } },
+  { label: 'Morning of', rule: { type: 'morning-of' } },
+]
+
+export const reminderKey = (rule: ReminderRule) =>
+  rule.type === 'before-due' ? `before-due:${rule.minutes}` : rule.type
+
+export const describeReminder = (rule: ReminderRule) =>
+  REMINDER_PRESETS.find((preset) => reminderKey(preset.rule) === reminderKey(rule))?.label ??
+  (rule.type === 'before-due' ? `${rule.minutes} minutes before` : 'Morning of')
+
+export const getReminderTime = (todo: Todo, rule: ReminderRule, timeZone: string): Date | null => {
+  const due = getDueInstant(todo, timeZone)
+  if (!due || !todo.dueDate) return null
+
+  if (rule.type === 'morning-of') {
+    const [year, month, day] = toCalendarDate(due, timeZone).split('-').map(Number)
+    return new TZDate(year, month - 1, day, MORNING_HOUR, 0, timeZone)
+  }
+  return new Date(due.getTime() - rule.minutes * 60 * 1000)
+}
+
+export type ScheduledReminder = {
+  /** Changes whenever the due date moves, so a rescheduled todo reminds again. */
+  key: string
+  todo: Todo
+  rule: ReminderRule
+  fireAt: Date
+}
+
+export const collectReminders = (todos: Todo[], timeZone: string): ScheduledReminder[] =>
+  todos.flatMap((todo) => {
+    if (todo.completed || todo.deletedAt) return []
+    return todo.reminders.flatMap((rule) => {
+      const fireAt = getReminderTime(todo, rule, timeZone)
+      return fireAt ? [{ key: `${todo.id}|${reminderKey(rule)}|${fireAt.toISOString()}`, todo, rule, fireAt }] : []
+    })
+  })
+
+export const parseReminderKey = (key: string): ReminderRule | null => {
+  if (key === 'morning-of') return { type: 'morning-of' }
+  const match = /^before-due:(\d+)$/.exec(key)
+  return match ? { type: 'before-due', minutes: Number(match[1]) } : null
+}
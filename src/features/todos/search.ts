@@ -0,0 +1,272 @@
+import { addDays, format, parseISO } from 'date-fns'
+
+import { TODO_PRIORITIES, type Todo, type TodoComment, type TodoPriority } from './types'
+import { SearchSyntaxError } from './api/errors'
+import { isSameTag } from './api/tagRegistry'
+import { getDueCalendarDate, isCalendarDate, isDueSoon, isOverdue, todayInTimeZone } from '../../utils/date'
+import { stripMarkdown } from '../../utils/markdown'
+
+/**
+ * Search syntax, combined with AND:
+ *   deploy            title, description or a comment contains "deploy"
+ *   "exact phrase"    the same, for a phrase with spaces
+ *   title:deploy      only the title (also `description:` / `desc:`, `comment:`)
+ *   tag:backend       carries the tag
+ *   priority:high     has the priority
+ *   due:<2026-11-01   due before a date (`<`, `<=`, `>`, `>=`, `=`; also `today`, `tomorrow`, `none`)
+ *   is:overdue        one of overdue, soon, done, open, recurring
+ *   -term             any of the above, negated
+ */
+
+const IS_VALUES = ['overdue', 'soon', 'done', 'open', 'recurring'] as const
+const DUE_OPERATORS = ['<=', '>=', '<', '>', '='] as const
+const RELATIVE_DATES = ['today', 'tomorrow'] as const
+
+type IsValue = (typeof IS_VALUES)[number]
+type DueOperator = (typeof DUE_OPERATORS)[number]
+type TextField = 'any' | 'title' | 'description' | 'comment'
+
+export type SearchTerm = { negated: boolean } & (
+  | { kind: 'text'; field: TextField; value: string }
+  | { kind: 'tag'; value: string }
+  | { kind: 'priority'; value: TodoPriority }
+  /** `date` is a calendar date, `today` or `tomorrow`; `null` matches todos without a due date. */
+  | { kind: 'due'; operator: DueOperator; date: string | null }
+  | { kind: 'is'; value: IsValue }
+)
+
+export type SearchQuery = {
+  terms: SearchTerm[]
+}
+
+type RawToken = {
+  negated: boolean
+  qualifier: string | null
+  value: string
+  position: number
+}
+
+const tokenize = (input: string): RawToken[] => {
+  const tokens: RawToken[] = []
+  let index = 0
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index += 1
+      continue
+    }
+
+    const position = index
+    const negated = input[index] === '-'
+    if (negated) index += 1
+
+    const qualifier = /^([a-z]+):/i.exec(input.slice(index))
+    if (qualifier) index += qualifier[0].length
+
+    let value: string
+    if (input[index] === '"') {
+      const end = input.indexOf('"', index + 1)
+      if (end === -1) {
+        throw new SearchSyntaxError('Missing closing quote', index)
+      }
+      value = input.slice(index + 1, end).trim()
+      if (!value) {
+        throw new SearchSyntaxError('Quotes must contain a phrase', index)
+      }
+      index = end + 1
+    } else {
+      const start = index
+      while (index < input.length && !/\s/.test(input[index])) index += 1
+      value = input.slice(start, index)
+    }
+
+    if (!value) {
+      throw new SearchSyntaxError(
+        qualifier ? `"${qualifier[0]}" needs a value` : 'A "-" must be followed by a term to exclude',
+        position,
+      )
+    }
+    tokens.push({ negated, qualifier: qualifier ? qualifier[1].toLowerCase() : null, value, position })
+  }
+
+  return tokens
+}
+
+const isOneOf = <T extends string>(values: readonly T[], value: string): value is T =>
+  (values as readonly string[]).includes(value)
+
+const toDueTerm = (value: string, position: number): Omit<Extract<SearchTerm, { kind: 'due' }>, 'negated'> => {
+  if (value.toLowerCase() === 'none') {
+    return { kind: 'due', operator: '=', date: null }
+  }
+  const operator = DUE_OPERATORS.find((candidate) => value.startsWith(candidate)) ?? '='
+  const date = value.slice(value.startsWith(operator) ? operator.length : 0).toLowerCase()
+  if (!isCalendarDate(date) && !isOneOf(RELATIVE_DATES, date)) {
+    throw new SearchSyntaxError(`"${value}" is not a date; use yyyy-MM-dd, today, tomorrow or none`, position)
+  }
+  return { kind: 'due', operator, date }
+}
+
+const toTerm = ({ negated, qualifier, value, position }: RawToken): SearchTerm => {
+  switch (qualifier) {
+    case null:
+      return { negated, kind: 'text', field: 'any', value: value.toLowerCase() }
+    case 'title':
+      return { negated, kind: 'text', field: 'title', value: value.toLowerCase() }
+    case 'description':
+    case 'desc':
+      return { negated, kind: 'text', field: 'description', value: value.toLowerCase() }
+    case 'comment':
+    case 'comments':
+      return { negated, kind: 'text', field: 'comment', value: value.toLowerCase() }
+    case 'tag':
+      return { negated, kind: 'tag', value }
+    case 'priority': {
+      const priority = value.toLowerCase()
+      if (!isOneOf(TODO_PRIORITIES, priority)) {
+        throw new SearchSyntaxError(`Unknown priority "${value}"; use ${TODO_PRIORITIES.join(', ')}`, position)
+      }
+      return { negated, kind: 'priority', value: priority }
+    }
+    case 'due':
+      return { negated, ...toDueTerm(value, position) }
+    case 'is': {
+      const state = value.toLowerCase()
+      if (!isOneOf(IS_VALUES, state)) {
+        throw new SearchSyntaxError(`Unknown "is:${value}"; use ${IS_VALUES.map((item) => `is:${item}`).join(', ')}`, position)
+      }
+      return { negated, kind: 'is', value: state }
+    }
+    default:
+      throw new SearchSyntaxError(`Unknown filter "${qualifier}:". Wrap it in quotes to search for the text`, position)
+  }
+}
+
+/** Throws `SearchSyntaxError` pointing at the offending token. */
+export const parseSearchQuery = (input: string): SearchQuery => ({ terms: tokenize(input).map(toTerm) })
+
+const resolveDate = (date: string, timeZone: string) => {
+  const today = todayInTimeZone(timeZone)
+  if (date === 'today') return today
+  if (date === 'tomorrow') return format(addDays(parseISO(today), 1), 'yyyy-MM-dd')
+  return date
+}
+
+const compareDates = (actual: string, operator: DueOperator, expected: string) => {
+  switch (operator) {
+    case '<':
+      return actual < expected
+    case '<=':
+      return actual <= expected
+    case '>':
+      return actual > expected
+    case '>=':
+      return actual >= expected
+    default:
+      return actual === expected
+  }
+}
+
+// Descriptions are searched as rendered, so `**` or a link's URL never produce a match.
+const descriptionText = (todo: Todo) => stripMarkdown(todo.description).toLowerCase()
+
+const inField = (field: TextField, target: Exclude<TextField, 'any'>) => field === 'any' || field === target
+
+/** The lower-cased text of each todo's comments, keyed by todo id, so searches read it once per query. */
+export const indexCommentText = (comments: TodoComment[]) => {
+  const index = new Map<string, string>()
+  comments.forEach((comment) => {
+    const text = comment.body.toLowerCase()
+    const existing = index.get(comment.todoId)
+    index.set(comment.todoId, existing === undefined ? text : `${existing}\n${text}`)
+  })
+  return index
+}
+
+const matchesText = (todo: Todo, field: TextField, value: string, commentText: string) =>
+  (inField(field, 'title') && todo.title.toLowerCase().includes(value)) ||
+  (inField(field, 'description') && descriptionText(todo).includes(value)) ||
+  (inField(field, 'comment') && commentText.includes(value))
+
+const matchesTerm = (todo: Todo, term: SearchTerm, timeZone: string, commentText: string): boolean => {
+  switch (term.kind) {
+    case 'text':
+      return matchesText(todo, term.field, term.value, commentText)
+    case 'tag':
+      return todo.tags.some((tag) => isSameTag(tag, term.value))
+    case 'priority':
+      return todo.priority === term.value
+    case 'due': {
+      const dueDate = getDueCalendarDate(todo, timeZone)
+      if (term.date === null) return dueDate === null
+      return dueDate !== null && compareDates(dueDate, term.operator, resolveDate(term.date, timeZone))
+    }
+    case 'is':
+      switch (term.value) {
+        case 'overdue':
+          return !todo.completed && isOverdue(todo, timeZone)
+        case 'soon':
+          return !todo.completed && isDueSoon(todo, timeZone)
+        case 'done':
+          return todo.completed
+        case 'open':
+          return !todo.completed
+        case 'recurring':
+          return todo.recurrence !== null
+      }
+  }
+}
+
+export const matchesSearch = (todo: Todo, query: SearchQuery, timeZone: string, commentText = '') =>
+  query.terms.every((term) => matchesTerm(todo, term, timeZone, commentText) !== term.negated)
+
+const positiveTextTerms = (query: SearchQuery) =>
+  query.terms.filter((term): term is Extract<SearchTerm, { kind: 'text' }> => term.kind === 'text' && !term.negated)
+
+/**
+ * Relevance for the "Best match" sort: each search word scores more in the title than the description or
+ * comments, and more again when it starts a word or is the whole title.
+ */
+export const scoreTodo = (todo: Todo, query: SearchQuery, commentText = '') => {
+  const title = todo.title.toLowerCase()
+  const description = descriptionText(todo)
+  return positiveTextTerms(query).reduce((score, { field, value }) => {
+    let next = score
+    if (inField(field, 'title') && title.includes(value)) {
+      next += 3
+      if (title === value) next += 5
+      else if (title.startsWith(value) || title.includes(` ${value}`)) next += 2
+    }
+    if (inField(field, 'description') && description.includes(value)) next += 1
+    if (inField(field, 'comment') && commentText.includes(value)) next += 1
+    return next
+  }, 0)
+}
+
+export const hasTextTerms = (query: SearchQuery) => positiveTextTerms(query).length > 0
+
+export type HighlightTerms = {
+  title: string[]
+  description: string[]
+  comment: string[]
+}
+
+export const getHighlightTerms = (query: SearchQuery): HighlightTerms => {
+  const terms = positiveTextTerms(query)
+  const termsFor = (target: Exclude<TextField, 'any'>) =>
+    terms.filter((term) => inField(term.field, target)).map((term) => term.value)
+  return { title: termsFor('title'), description: termsFor('description'), comment: termsFor('comment') }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/** Splits `text` into plain and matching segments; longer terms win where terms overlap. */
+export const splitHighlights = (text: string, terms: string[]) => {
+  const needles = [...new Set(terms.filter(Boolean))].sort((a, b) => b.length - a.length)
+  if (needles.length === 0) return [{ text, match: false }]
+  const pattern = new RegExp(`(${needles.map(escapeRegExp).join('|')})`, 'gi')
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: needles.includes(part.toLowerCase()) }))
+}
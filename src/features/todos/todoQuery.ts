@@ -0,0 +1,149 @@
+import { TODO_PRIORITIES, type Todo, type TodoComment, type TodoPriority } from './types'
+import { isSameTag } from './api/tagRegistry'
+import { comparePriority } from './priority'
+import { compareRanks } from './rank'
+import { indexCommentText, matchesSearch, parseSearchQuery, scoreTodo } from './search'
+import { getDueInstant, isDueSoon, isOverdue } from '../../utils/date'
+
+export const SORT_OPTIONS = [
+  { value: 'created-desc', label: 'Newest first' },
+  { value: 'created-asc', label: 'Oldest first' },
+  { value: 'due-asc', label: 'Due soon' },
+  { value: 'due-desc', label: 'Due latest' },
+  { value: 'title-asc', label: 'Title A-Z' },
+  { value: 'title-desc', label: 'Title Z-A' },
+  { value: 'priority-desc', label: 'Highest priority' },
+  { value: 'priority-due', label: 'Priority, then due date' },
+  { value: 'due-priority', label: 'Due date, then priority' },
+  { value: 'manual', label: 'Manual' },
+  { value: 'relevance', label: 'Best match' },
+] as const
+
+export const SORT_VALUES = SORT_OPTIONS.map((option) => option.value) as [SortOption, ...SortOption[]]
+
+export const STATUS_FILTERS = ['all', 'active', 'completed'] as const
+export const DUE_FILTERS = ['all', 'soon', 'overdue'] as const
+export const PRIORITY_FILTERS = ['all', ...TODO_PRIORITIES] as const
+
+export type SortOption = (typeof SORT_OPTIONS)[number]['value']
+export type StatusFilter = (typeof STATUS_FILTERS)[number]
+export type DueFilter = (typeof DUE_FILTERS)[number]
+export type PriorityFilter = 'all' | TodoPriority
+
+/** Filters and sort order shared by the repositories (which apply them to the whole store) and the page. */
+export type TodoFilters = {
+  status: StatusFilter
+  sort: SortOption
+  search: string
+  due: DueFilter
+  priority: PriorityFilter
+  tags: string[]
+}
+
+export const DEFAULT_TODO_FILTERS: TodoFilters = {
+  status: 'all',
+  sort: 'created-desc',
+  search: '',
+  due: 'all',
+  priority: 'all',
+  tags: [],
+}
+
+type TodoComparator = (a: Todo, b: Todo) => number
+
+const byCreatedAsc: TodoComparator = (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+const byCreatedDesc: TodoComparator = (a, b) => byCreatedAsc(b, a)
+
+// Todos without a due date always sort last, whichever direction is requested.
+const byDueDate =
+  (direction: 1 | -1, timeZone: string): TodoComparator =>
+  (a, b) => {
+    const dueA = getDueInstant(a, timeZone)
+    const dueB = getDueInstant(b, timeZone)
+    if (!dueA && !dueB) return 0
+    if (!dueA) return 1
+    if (!dueB) return -1
+    return direction * (dueA.getTime() - dueB.getTime())
+  }
+
+const byPriority: TodoComparator = (a, b) => comparePriority(a.priority, b.priority)
+
+const byRank: TodoComparator = (a, b) => compareRanks(a.rank, b.rank)
+
+const byScore =
+  (scores: Map<string, number>): TodoComparator =>
+  (a, b) =>
+    (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0)
+
+/**
+ * Comparators are applied in order; later ones only break ties left by earlier ones. `scores` holds search
+ * relevance per todo id and only matters for the "Best match" sort.
+ */
+const getSortComparators = (sort: SortOption, timeZone: string, scores?: Map<string, number>): TodoComparator[] => {
+  switch (sort) {
+    case 'created-asc':
+      return [byCreatedAsc]
+    case 'due-asc':
+      return [byDueDate(1, timeZone)]
+    case 'due-desc':
+      return [byDueDate(-1, timeZone)]
+    case 'title-asc':
+      return [(a, b) => a.title.localeCompare(b.title)]
+    case 'title-desc':
+      return [(a, b) => b.title.localeCompare(a.title)]
+    case 'priority-desc':
+      return [byPriority, byCreatedDesc]
+    case 'priority-due':
+      return [byPriority, byDueDate(1, timeZone), byCreatedDesc]
+    case 'due-priority':
+      return [byDueDate(1, timeZone), byPriority, byCreatedDesc]
+    case 'manual':
+      return [byRank]
+    case 'relevance':
+      return scores ? [byScore(scores), byCreatedDesc] : [byCreatedDesc]
+    case 'created-desc':
+    default:
+      return [byCreatedDesc]
+  }
+}
+
+export const applySort = (todos: Todo[], sort: SortOption, timeZone: string, scores?: Map<string, number>) => {
+  const comparators = getSortComparators(sort, timeZone, scores)
+  return [...todos].sort((a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b)
+      if (result !== 0) return result
+    }
+    return 0
+  })
+}
+
+/**
+ * Throws `SearchSyntaxError` when `filters.search` is not a valid query (see `search.ts`). `comments` are
+ * searched along with the todos they belong to.
+ */
+export const filterTodos = (todos: Todo[], filters: TodoFilters, timeZone: string, comments: TodoComment[] = []) => {
+  const query = parseSearchQuery(filters.search)
+  const commentText = indexCommentText(comments)
+
+  const filtered = todos.filter((todo) => {
+    if (filters.status === 'active' && todo.completed) return false
+    if (filters.status === 'completed' && !todo.completed) return false
+
+    if (filters.due === 'soon' && !isDueSoon(todo, timeZone)) return false
+    if (filters.due === 'overdue' && !isOverdue(todo, timeZone)) return false
+    if (filters.priority !== 'all' && todo.priority !== filters.priority) return false
+
+    if (filters.tags.length > 0 && !todo.tags.some((tag) => filters.tags.some((selected) => isSameTag(selected, tag)))) {
+      return false
+    }
+
+    return matchesSearch(todo, query, timeZone, commentText.get(todo.id))
+  })
+
+  const scores =
+    filters.sort === 'relevance'
+      ? new Map(filtered.map((todo) => [todo.id, scoreTodo(todo, query, commentText.get(todo.id))]))
+      : undefined
+  return applySort(filtered, filters.sort, timeZone, scores)
+}
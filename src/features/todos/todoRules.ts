@@ -0,0 +1,48 @@
+import { z } from 'zod'
+
+import { isTimeOfDay } from '../../utils/date'
+
+/* Field rules shared by the todo form and the importer, so both accept exactly the same todos. */
+
+export const todoTitleRule = z
+  .string({ error: 'Title is required' })
+  .trim()
+  .min(3, 'Title must be at least 3 characters long')
+  .max(120, 'Title must be 120 characters or fewer')
+
+export const todoDescriptionRule = z.string().trim().max(1000, 'Description cannot exceed 1000 characters')
+
+export const MAX_COMMENT_LENGTH = 2000
+export const MAX_AUTHOR_LENGTH = 60
+
+export const commentBodyRule = z
+  .string()
+  .trim()
+  .min(1, 'Write something first')
+  .max(MAX_COMMENT_LENGTH, `Comments cannot exceed ${MAX_COMMENT_LENGTH} characters`)
+
+export const commentAuthorRule = z
+  .string()
+  .trim()
+  .min(1, 'Add your name so others know who wrote this')
+  .max(MAX_AUTHOR_LENGTH, `Names cannot exceed ${MAX_AUTHOR_LENGTH} characters`)
+
+export const checklistItemTitleRule = z
+  .string()
+  .trim()
+  .min(1, 'Checklist items cannot be empty')
+  .max(200, 'Keep checklist items under 200 characters')
+
+export const limitChecklist = <T extends z.ZodType>(item: T) =>
+  z.array(item).max(50, 'A todo can have at most 50 checklist items')
+
+export const todoTagsRule = z.array(z.string().trim().min(1).max(32)).max(20, 'A todo can have at most 20 tags')
+
+export const limitReminders = <T extends z.ZodType>(reminder: T) =>
+  z.array(reminder).max(5, 'A todo can have at most 5 reminders')
+
+export const dueTimeRule = z
+  .string()
+  .optional()
+  .transform((value) => value?.trim() ?? '')
+  .refine((value) => !value || isTimeOfDay(value), 'Enter a valid time')
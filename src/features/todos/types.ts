@@ -1,23 +1,230 @@
+import type { TodoFilters } from './todoQuery'
+
+export type ChecklistItem = {
+  id: string
+  title: string
+  completed: boolean
+}
+
+export const TAG_COLORS = ['slate', 'blue', 'green', 'amber', 'red', 'purple', 'pink', 'teal'] as const
+
+export type TagColor = (typeof TAG_COLORS)[number]
+
+export type Tag = {
+  name: string
+  color: TagColor
+}
+
+export type TagSummary = Tag & {
+  count: number
+}
+
+export type UpdateTagInput = {
+  name?: string
+  color?: TagColor
+}
+
+export const TODO_PRIORITIES = ['none', 'low', 'medium', 'high', 'urgent'] as const
+
+export type TodoPriority = (typeof TODO_PRIORITIES)[number]
+
+export const RECURRENCE_TYPES = ['daily', 'weekly', 'monthly', 'after-completion'] as const
+
+export type RecurrenceType = (typeof RECURRENCE_TYPES)[number]
+
+/** Weekdays follow `Date#getDay`: 0 is Sunday. */
+export type RecurrenceRule =
+  | { type: 'daily' }
+  | { type: 'weekly'; weekdays: number[] }
+  | { type: 'monthly'; dayOfMonth: number }
+  | { type: 'after-completion'; days: number }
+
+export const INBOX_LIST_ID = 'inbox'
+
+export type TodoList = {
+  id: string
+  name: string
+  color: TagColor
+  createdAt: string
+}
+
+export type TodoListSummary = TodoList & {
+  activeCount: number
+  completedCount: number
+}
+
+export type CreateTodoListInput = {
+  name: string
+  color?: TagColor
+}
+
+export type UpdateTodoListInput = {
+  name?: string
+  color?: TagColor
+}
+
+/** `morning-of` fires at 09:00 on the due date in the viewer's time zone. */
+export type ReminderRule = { type: 'before-due'; minutes: number } | { type: 'morning-of' }
+
 export type Todo = {
   id: string
+  listId: string
   title: string
   description: string
+  /** `yyyy-MM-dd`; read together with `dueTime` and `dueTimeZone` (see `DueDateValue`). */
   dueDate: string | null
+  dueTime: string | null
+  dueTimeZone: string | null
   completed: boolean
+  priority: TodoPriority
+  checklist: ChecklistItem[]
+  autoCompleteChecklist: boolean
+  tags: string[]
+  recurrence: RecurrenceRule | null
+  nextOccurrenceId: string | null
+  reminders: ReminderRule[]
+  /** The UID of the calendar entry the todo was imported from; exports fall back to one derived from `id`. */
+  calendarUid: string | null
+  /** Position in the manual order; compared as a plain string (see `rank.ts`). */
+  rank: string
   createdAt: string
   updatedAt: string
+  deletedAt: string | null
+}
+
+export type ChecklistItemInput = {
+  id?: string
+  title: string
+  completed?: boolean
 }
 
 export type CreateTodoInput = {
   title: string
+  listId?: string
   description?: string
   dueDate?: string | null
+  dueTime?: string | null
+  dueTimeZone?: string | null
   completed?: boolean
+  priority?: TodoPriority
+  checklist?: ChecklistItemInput[]
+  autoCompleteChecklist?: boolean
+  tags?: string[]
+  recurrence?: RecurrenceRule | null
+  reminders?: ReminderRule[]
+  calendarUid?: string | null
 }
 
 export type UpdateTodoInput = {
   title?: string
+  listId?: string
   description?: string
   dueDate?: string | null
+  dueTime?: string | null
+  dueTimeZone?: string | null
   completed?: boolean
+  priority?: TodoPriority
+  checklist?: ChecklistItemInput[]
+  autoCompleteChecklist?: boolean
+  tags?: string[]
+  recurrence?: RecurrenceRule | null
+  reminders?: ReminderRule[]
 }
+
+/** The todo's neighbours in the manual order after the move; `null` means it moved to that end. */
+export type ReorderTodoInput = {
+  previousId: string | null
+  nextId: string | null
+}
+
+/** A named combination of list, filters, sort and search that can be reapplied from the views bar. */
+export type SavedView = {
+  id: string
+  name: string
+  listId: string
+  filters: TodoFilters
+  /** Pinned views are shown as shortcuts above the todo list. */
+  pinned: boolean
+  /** The default view is applied when the page opens without filters in the URL; at most one view has it. */
+  isDefault: boolean
+  createdAt: string
+}
+
+export type CreateSavedViewInput = {
+  name: string
+  listId: string
+  filters: TodoFilters
+  pinned?: boolean
+  isDefault?: boolean
+}
+
+export type UpdateSavedViewInput = {
+  name?: string
+  listId?: string
+  filters?: TodoFilters
+  pinned?: boolean
+  isDefault?: boolean
+}
+
+/** A file attached to a todo. Only this metadata is listed; the content is read on demand. */
+export type Attachment = {
+  id: string
+  todoId: string
+  name: string
+  /** MIME type as reported by the browser; `application/octet-stream` when it did not know. */
+  type: string
+  size: number
+  createdAt: string
+}
+
+export const TODO_HISTORY_FIELDS = ['title', 'description', 'dueDate', 'completed'] as const
+
+export type TodoHistoryField = (typeof TODO_HISTORY_FIELDS)[number]
+
+export type TodoFieldChange = { [F in TodoHistoryField]: { field: F; from: Todo[F]; to: Todo[F] } }[TodoHistoryField]
+
+export const TODO_HISTORY_ACTIONS = ['created', 'updated', 'deleted', 'restored'] as const
+
+export type TodoHistoryAction = (typeof TODO_HISTORY_ACTIONS)[number]
+
+/** Who made a change: the person using the app, or the app finishing a checklist or scheduling the next occurrence. */
+export const TODO_HISTORY_ACTORS = ['user', 'checklist', 'recurrence'] as const
+
+export type TodoHistoryActor = (typeof TODO_HISTORY_ACTORS)[number]
+
+/** One entry of a todo's change log. Entries are only ever appended; `changes` is empty unless fields changed. */
+export type TodoHistoryEntry = {
+  id: string
+  todoId: string
+  action: TodoHistoryAction
+  actor: TodoHistoryActor
+  changes: TodoFieldChange[]
+  at: string
+}
+
+/** A remark in a todo's discussion thread. `author` is the display name the writer chose; there are no accounts. */
+export type TodoComment = {
+  id: string
+  todoId: string
+  author: string
+  body: string
+  createdAt: string
+  /** Equal to `createdAt` until the comment is edited. */
+  updatedAt: string
+}
+
+export type CreateCommentInput = {
+  author: string
+  body: string
+}
+
+export type UpdateCommentInput = {
+  body: string
+}
+
+/** One change applied to every selected todo; shifting leaves todos without a due date untouched. */
+export type BulkTodoChange =
+  | { type: 'complete' }
+  | { type: 'reopen' }
+  | { type: 'set-due-date'; dueDate: string | null }
+  | { type: 'shift-due-date'; days: number }
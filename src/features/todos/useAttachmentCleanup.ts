@@ -0,0 +1,33 @@
+import { useEffect } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+
+import { todoApi } from './api/todoApi'
+import { todoKeys } from './queryKeys'
+
+/**
+ * Removes attachments whose todo no longer exists, once per visit. Purging a todo cleans up after itself,
+ * but todos that expire from the trash or are deleted from another device leave their files behind.
+ */
+export const useAttachmentCleanup = () => {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const prune = async () => {
+      const [{ items }, trash] = await Promise.all([
+        todoApi.list({}, { signal: controller.signal }),
+        todoApi.listTrash({ signal: controller.signal }),
+      ])
+      if (controller.signal.aborted) return
+      const removed = await todoApi.attachments.prune([...items, ...trash].map((todo) => todo.id))
+      if (removed > 0) {
+        queryClient.invalidateQueries({ queryKey: todoKeys.attachments })
+      }
+    }
+    prune().catch((error) => {
+      if (controller.signal.aborted) return
+      console.warn('[todoApi] Unable to clean up orphaned attachments', error)
+    })
+    return () => controller.abort()
+  }, [queryClient])
+}
@@ -0,0 +1,69 @@
+import { useState, type DragEvent, type KeyboardEvent } from 'react'
+
+export type DropPosition = 'before' | 'after'
+
+type DropTarget = {
+  id: string
+  position: DropPosition
+}
+
+type DragReorderOptions = {
+  onDrop: (id: string, targetId: string, position: DropPosition) => void
+  /** Keyboard moves: `offset` is -1 for one place up and 1 for one place down. */
+  onMove: (id: string, offset: number) => void
+}
+
+/**
+ * Native drag and drop for a vertical list. The handle starts the drag (and moves the item with the arrow
+ * keys); items are drop targets split at their vertical midpoint into "before" and "after".
+ */
+export const useDragReorder = ({ onDrop, onMove }: DragReorderOptions) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null)
+
+  const reset = () => {
+    setDraggingId(null)
+    setDropTarget(null)
+  }
+
+  const getHandleProps = (id: string) => ({
+    draggable: true,
+    onDragStart: (event: DragEvent<HTMLElement>) => {
+      event.dataTransfer.effectAllowed = 'move'
+      event.dataTransfer.setData('text/plain', id)
+      const item = event.currentTarget.closest('[data-reorder-item]')
+      if (item) event.dataTransfer.setDragImage(item, 24, 24)
+      setDraggingId(id)
+    },
+    onDragEnd: reset,
+    onKeyDown: (event: KeyboardEvent<HTMLElement>) => {
+      const offset = event.key === 'ArrowUp' ? -1 : event.key === 'ArrowDown' ? 1 : 0
+      if (!offset) return
+      event.preventDefault()
+      onMove(id, offset)
+    },
+  })
+
+  const getItemProps = (id: string) => ({
+    'data-reorder-item': id,
+    onDragOver: (event: DragEvent<HTMLElement>) => {
+      if (!draggingId) return
+      event.preventDefault()
+      event.dataTransfer.dropEffect = 'move'
+      const bounds = event.currentTarget.getBoundingClientRect()
+      const position: DropPosition = event.clientY < bounds.top + bounds.height / 2 ? 'before' : 'after'
+      if (dropTarget?.id !== id || dropTarget.position !== position) {
+        setDropTarget({ id, position })
+      }
+    },
+    onDrop: (event: DragEvent<HTMLElement>) => {
+      event.preventDefault()
+      if (draggingId && dropTarget && draggingId !== dropTarget.id) {
+        onDrop(draggingId, dropTarget.id, dropTarget.position)
+      }
+      reset()
+    },
+  })
+
+  return { draggingId, dropTarget, getHandleProps, getItemProps }
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+
+import { todoApi } from './api/todoApi'
+import { todoKeys } from './queryKeys'
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine
+
+/**
+ * Follows the queued todo changes and replays them: as soon as the browser reports it is back online, and
+ * otherwise when the oldest pending change is due for its next attempt.
+ */
+export const useOutbox = () => {
+  const queryClient = useQueryClient()
+  const entries = useSyncExternalStore(todoApi.outbox.subscribe, todoApi.outbox.getSnapshot)
+  const [online, setOnline] = useState(isOnline)
+  const [replaying, setReplaying] = useState(false)
+
+  const refreshTodos = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: todoKeys.all })
+    queryClient.invalidateQueries({ queryKey: todoKeys.lists })
+    queryClient.invalidateQueries({ queryKey: todoKeys.tags })
+  }, [queryClient])
+
+  const replay = useCallback(async () => {
+    setReplaying(true)
+    try {
+      const stored = await todoApi.outbox.replay()
+      if (stored.length > 0) refreshTodos()
+    } catch (error) {
+      console.warn('[todoApi] Unable to replay queued changes', error)
+    } finally {
+      setReplaying(false)
+    }
+  }, [refreshTodos])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true)
+      void replay()
+    }
+    const handleOffline = () => setOnline(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [replay])
+
+  const next = entries.find((entry) => entry.status === 'pending')
+  const nextAttemptAt = next ? (next.nextAttemptAt ?? next.queuedAt) : null
+
+  useEffect(() => {
+    if (!nextAttemptAt || !online || replaying) return
+    const timeoutId = window.setTimeout(() => void replay(), Math.max(0, Date.parse(nextAttemptAt) - Date.now()))
+    return () => window.clearTimeout(timeoutId)
+  }, [nextAttemptAt, online, replaying, replay])
+
+  const retry = useCallback((id: string) => todoApi.outbox.retry(id), [])
+
+  // A discarded change never reaches the backend, so its provisional todo gives way to the stored one.
+  const discard = useCallback(
+    async (id: string) => {
+      await todoApi.outbox.discard(id)
+      refreshTodos()
+    },
+    [refreshTodos],
+  )
+
+  return { entries, online, replaying, nextAttemptAt: online ? nextAttemptAt : null, replay, retry, discard }
+}
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+
+import type { Todo } from './types'
+import type { PaginatedTodos, TodoQuery } from './api/repository'
+import { todoApi } from './api/todoApi'
+import { todoKeys } from './queryKeys'
+import { collectReminders, type ScheduledReminder } from './reminders'
+import { readReminderLog, updateReminderLog } from './reminderLog'
+import { formatDueDateLabel } from '../../utils/date'
+import { useToast } from '../../components/toast/ToastProvider'
+import { usePreferences } from '../../components/preferences/preferencesContext'
+
+// Reminders missed while the app was closed still fire on the next visit, unless they are this stale.
+const GRACE_PERIOD_MS = 1000 * 60 * 60 * 12
+// Long timeouts drift while a laptop sleeps, so the schedule is re-evaluated at least this often.
+const MAX_WAIT_MS = 1000 * 60 * 15
+const SNOOZE_MS = 1000 * 60 * 10
+
+const canNotify = () => typeof Notification !== 'undefined' && Notification.permission === 'granted'
+
+const NO_TODOS: Todo[] = []
+
+// Completed todos never remind, and leaving out `limit` returns every match in one page.
+const REMINDER_QUERY: TodoQuery = { status: 'active' }
+const selectItems = (page: PaginatedTodos) => page.items
+
+/** Schedules reminders for every list, not just the one on screen. */
+export const useReminderScheduler = () => {
+  const { data: todos = NO_TODOS } = useQuery({
+    queryKey: todoKeys.list(REMINDER_QUERY),
+    queryFn: ({ signal }) => todoApi.list(REMINDER_QUERY, { signal }),
+    select: selectItems,
+  })
+  const toast = useToast()
+  const { timeZone } = usePreferences()
+  const [tick, setTick] = useState(0)
+
+  const deliver = useCallback(
+    (reminder: ScheduledReminder) => {
+      const { key, todo, fireAt } = reminder
+      const title = `Reminder: ${todo.title}`
+      const description = formatDueDateLabel(todo, timeZone)
+
+      // A background tab cannot show toasts, so it raises a system notification as well. The toast is
+      // still queued because it carries the snooze and dismiss actions.
+      if (canNotify() && document.visibilityState === 'hidden') {
+        const notification = new Notification(title, { body: description, tag: key })
+        notification.onclick = () => {
+          window.focus()
+          notification.close()
+        }
+      }
+
+      toast.push({
+        id: `reminder:${key}`,
+        intent: 'warning',
+        title,
+        description,
+        duration: Infinity,
+        actions: [
+          {
+            label: 'Snooze 10 min',
+            onClick: () => {
+              updateReminderLog(key, {
+                status: 'snoozed',
+                fireAt: fireAt.toISOString(),
+                until: new Date(Date.now() + SNOOZE_MS).toISOString(),
+              })
+              setTick((value) => value + 1)
+            },
+          },
+          {
+            label: 'Dismiss',
+            onClick: () => updateReminderLog(key, { status: 'dismissed', fireAt: fireAt.toISOString() }),
+          },
+        ],
+      })
+    },
+    [timeZone, toast],
+  )
+
+  useEffect(() => {
+    const now = Date.now()
+    const log = readReminderLog()
+    let nextAt = Infinity
+
+    collectReminders(todos, timeZone).forEach((reminder) => {
+      const entry = log[reminder.key]
+      if (entry && entry.status !== 'snoozed') return
+
+      const dueAt = entry?.status === 'snoozed' ? new Date(entry.until).getTime() : reminder.fireAt.getTime()
+      if (dueAt > now) {
+        nextAt = Math.min(nextAt, dueAt)
+        return
+      }
+      if (now - dueAt > GRACE_PERIOD_MS) return
+
+      // Logged before delivery so a re-render (or StrictMode's double effect) never repeats it.
+      updateReminderLog(reminder.key, { status: 'delivered', fireAt: reminder.fireAt.toISOString() })
+      deliver(reminder)
+    })
+
+    const timeoutId = setTimeout(() => setTick((value) => value + 1), Math.min(nextAt - now, MAX_WAIT_MS))
+    return () => clearTimeout(timeoutId)
+  }, [deliver, tick, timeZone, todos])
+}
@@ -0,0 +1,40 @@
+import { useCallback, useMemo, useState } from 'react'
+
+/**
+ * Checkbox selection over an ordered list. A shift-click applies the clicked item's new state to every item
+ * between it and the previous click. Ids that drop out of `orderedIds` (filtered out, deleted) are no longer
+ * reported as selected.
+ */
+export const useSelection = (orderedIds: string[]) => {
+  const [selected, setSelected] = useState<ReadonlySet<string>>(() => new Set())
+  const [anchorId, setAnchorId] = useState<string | null>(null)
+
+  const selectedIds = useMemo(() => orderedIds.filter((id) => selected.has(id)), [orderedIds, selected])
+
+  const toggle = (id: string, { range = false } = {}) => {
+    const index = orderedIds.indexOf(id)
+    const anchorIndex = anchorId ? orderedIds.indexOf(anchorId) : -1
+    const targets =
+      range && anchorIndex !== -1 && index !== -1
+        ? orderedIds.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        : [id]
+    setSelected((previous) => {
+      const next = new Set(previous)
+      const select = !previous.has(id)
+      targets.forEach((target) => (select ? next.add(target) : next.delete(target)))
+      return next
+    })
+    setAnchorId(id)
+  }
+
+  const selectAll = () => {
+    setSelected(new Set(orderedIds))
+  }
+
+  const clear = useCallback(() => {
+    setSelected(new Set())
+    setAnchorId(null)
+  }, [])
+
+  return { selectedIds, isSelected: (id: string) => selected.has(id), toggle, selectAll, clear }
+}
@@ -0,0 +1,77 @@
+import { useEffect } from 'react'
+import { useQueryClient, type InfiniteData, type QueryKey } from '@tanstack/react-query'
+
+import type { Todo } from './types'
+import type { PaginatedTodos } from './api/repository'
+import type { TodoSyncMessage, TodoSyncScope } from './api/tabSync'
+import { subscribeToOtherTabs } from './api/todoApi'
+import { todoKeys } from './queryKeys'
+
+type ListData = PaginatedTodos | InfiniteData<PaginatedTodos, string | null>
+
+const SCOPE_KEYS: Record<TodoSyncScope, QueryKey> = {
+  todos: todoKeys.all,
+  tags: todoKeys.tags,
+  lists: todoKeys.lists,
+  views: todoKeys.views,
+  comments: todoKeys.comments,
+  attachments: todoKeys.attachments,
+}
+
+// Saved todos that are now in the trash leave the lists; todos new to this tab wait for the refetch.
+const patchPage = (page: PaginatedTodos, saved: Map<string, Todo>, removed: Set<string>): PaginatedTodos => {
+  const items = page.items.flatMap((todo) => (removed.has(todo.id) ? [] : [saved.get(todo.id) ?? todo]))
+  return { ...page, items, totalCount: page.totalCount - (page.items.length - items.length) }
+}
+
+const patchList = (data: ListData | undefined, saved: Map<string, Todo>, removed: Set<string>) => {
+  if (!data) return data
+  if ('pages' in data) return { ...data, pages: data.pages.map((page) => patchPage(page, saved, removed)) }
+  return patchPage(data, saved, removed)
+}
+
+const patchTrash = (trash: Todo[] | undefined, saved: Todo[], purged: Set<string>) => {
+  if (!trash) return trash
+  const changed = new Set(saved.map((todo) => todo.id))
+  return [
+    ...saved.filter((todo) => todo.deletedAt),
+    ...trash.filter((todo) => !changed.has(todo.id) && !purged.has(todo.id)),
+  ].sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''))
+}
+
+const scopesOf = (message: TodoSyncMessage): TodoSyncScope[] => {
+  switch (message.type) {
+    case 'todos-saved':
+      return ['todos', 'tags', 'lists']
+    case 'todos-purged':
+      return ['todos', 'tags', 'lists', 'comments', 'attachments']
+    case 'changed':
+      return message.scopes
+  }
+}
+
+/**
+ * Keeps this tab in step with changes stored by the app's other tabs: saved and purged todos are patched
+ * into the cached lists and trash straight away, then everything the change touched is refetched.
+ */
+export const useTabSync = () => {
+  const queryClient = useQueryClient()
+
+  useEffect(
+    () =>
+      subscribeToOtherTabs((message) => {
+        if (message.type !== 'changed') {
+          const saved = message.type === 'todos-saved' ? message.todos : []
+          const purged = new Set(message.type === 'todos-purged' ? message.ids : [])
+          const removed = new Set([...purged, ...saved.filter((todo) => todo.deletedAt).map(({ id }) => id)])
+          const live = new Map(saved.filter((todo) => !todo.deletedAt).map((todo) => [todo.id, todo]))
+          queryClient.setQueriesData<ListData>({ queryKey: todoKeys.listQueries }, (data) =>
+            patchList(data, live, removed),
+          )
+          queryClient.setQueryData<Todo[]>(todoKeys.trash, (trash) => patchTrash(trash, saved, purged))
+        }
+        scopesOf(message).forEach((scope) => queryClient.invalidateQueries({ queryKey: SCOPE_KEYS[scope] }))
+      }),
+    [queryClient],
+  )
+}
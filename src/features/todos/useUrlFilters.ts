@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import { INBOX_LIST_ID } from './types'
+import {
+  DEFAULT_TODO_FILTERS,
+  DUE_FILTERS,
+  PRIORITY_FILTERS,
+  SORT_VALUES,
+  STATUS_FILTERS,
+  type StatusFilter,
+  type TodoFilters,
+} from './todoQuery'
+
+export type StatusView = StatusFilter | 'trash'
+
+export type FilterState = Omit<TodoFilters, 'status'> & {
+  status: StatusView
+}
+
+/** Everything the todo page encodes in its URL. */
+export type PageState = {
+  listId: string
+  filters: FilterState
+}
+
+type HistoryMode = 'push' | 'replace'
+
+const STATUS_VIEWS = [...STATUS_FILTERS, 'trash'] as const
+
+// Short, stable parameter names: these URLs get bookmarked and shared.
+const PARAMS = {
+  listId: 'list',
+  status: 'status',
+  due: 'due',
+  priority: 'priority',
+  tags: 'tag',
+  search: 'q',
+  sort: 'sort',
+} as const
+
+const pickValue = <T extends string>(values: readonly T[], value: string | null, fallback: T): T =>
+  value !== null && (values as readonly string[]).includes(value) ? (value as T) : fallback
+
+// Unknown or malformed values fall back to their defaults, so an outdated link still opens.
+export const readPageState = (search: string): PageState => {
+  const params = new URLSearchParams(search)
+  return {
+    listId: params.get(PARAMS.listId) || INBOX_LIST_ID,
+    filters: {
+      status: pickValue(STATUS_VIEWS, params.get(PARAMS.status), DEFAULT_TODO_FILTERS.status),
+      due: pickValue(DUE_FILTERS, params.get(PARAMS.due), DEFAULT_TODO_FILTERS.due),
+      priority: pickValue(PRIORITY_FILTERS, params.get(PARAMS.priority), DEFAULT_TODO_FILTERS.priority),
+      tags: [...new Set(params.getAll(PARAMS.tags).filter(Boolean))],
+      search: params.get(PARAMS.search) ?? DEFAULT_TODO_FILTERS.search,
+      sort: pickValue(SORT_VALUES, params.get(PARAMS.sort), DEFAULT_TODO_FILTERS.sort),
+    },
+  }
+}
+
+/** Only values that differ from the defaults are written, so the plain page keeps a clean URL. */
+export const writePageState = ({ listId, filters }: PageState) => {
+  const params = new URLSearchParams()
+  if (listId !== INBOX_LIST_ID) params.set(PARAMS.listId, listId)
+  if (filters.status !== DEFAULT_TODO_FILTERS.status) params.set(PARAMS.status, filters.status)
+  if (filters.due !== DEFAULT_TODO_FILTERS.due) params.set(PARAMS.due, filters.due)
+  if (filters.priority !== DEFAULT_TODO_FILTERS.priority) params.set(PARAMS.priority, filters.priority)
+  filters.tags.forEach((tag) => params.append(PARAMS.tags, tag))
+  if (filters.search) params.set(PARAMS.search, filters.search)
+  if (filters.sort !== DEFAULT_TODO_FILTERS.sort) params.set(PARAMS.sort, filters.sort)
+  return params.toString()
+}
+
+/** True when the URL carries any page state, i.e. it should win over the default saved view. */
+export const hasPageState = (search: string) =>
+  [...new URLSearchParams(search).keys()].some((key) => (Object.values(PARAMS) as string[]).includes(key))
+
+/**
+ * Keeps the page state in the query string. Each change becomes a history entry unless it is made with
+ * `replace` (used while typing a search), and back/forward restore the state of that entry.
+ */
+export const useUrlFilters = () => {
+  const [state, setState] = useState<PageState>(() => readPageState(window.location.search))
+  const stateRef = useRef(state)
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const next = readPageState(window.location.search)
+      stateRef.current = next
+      setState(next)
+    }
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  const update = useCallback((updater: (previous: PageState) => PageState, mode: HistoryMode = 'push') => {
+    const next = updater(stateRef.current)
+    stateRef.current = next
+    setState(next)
+
+    const search = writePageState(next)
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`
+    if (url === `${window.location.pathname}${window.location.search}${window.location.hash}`) return
+    if (mode === 'replace') {
+      window.history.replaceState(window.history.state, '', url)
+    } else {
+      window.history.pushState(window.history.state, '', url)
+    }
+  }, [])
+
+  return [state, update] as const
+}
@@ -2,16 +2,27 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
 import { useState, type ReactNode } from 'react'
 
+import { ApiError } from '../features/todos/api/errors'
+
+const MAX_RETRIES = 1
+
+const shouldRetry = (failureCount: number, error: unknown) => {
+  if (error instanceof ApiError && error.status >= 400 && error.status < 500) {
+    return false
+  }
+  return failureCount < MAX_RETRIES
+}
+
 const createClient = () =>
   new QueryClient({
     defaultOptions: {
       queries: {
-        retry: 1,
+        retry: shouldRetry,
         refetchOnWindowFocus: false,
         staleTime: 1000 * 30,
       },
       mutations: {
-        retry: 1,
+        retry: shouldRetry,
       },
     },
   })
@@ -0,0 +1,61 @@
+/** RFC 4180 CSV: comma separated, fields quoted with `"` when they contain a comma, quote or line break. */
+
+const needsQuoting = (value: string) => /[",\r\n]/.test(value) || value !== value.trim()
+
+const formatField = (value: string) => (needsQuoting(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+export const formatCsv = (rows: string[][]) => rows.map((row) => row.map(formatField).join(',')).join('\r\n')
+
+/**
+ * Parses CSV text into rows of fields. Accepts `\n` and `\r\n` line endings and a leading byte order mark;
+ * blank lines are skipped. Throws a `SyntaxError` naming the line of an unterminated quoted field.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let quoteLine = 1
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== '') rows.push(row)
+    row = []
+    field = ''
+  }
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index]
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line += 1
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+      quoteLine = line
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index += 1
+      line += 1
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    throw new SyntaxError(`Unterminated quoted field starting on line ${quoteLine}`)
+  }
+  if (field !== '' || row.length > 0) endRow()
+  return rows
+}
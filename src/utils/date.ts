@@ -1,62 +1,109 @@
-import {
-  differenceInCalendarDays,
-  format,
-  formatDistanceToNow,
-  isBefore,
-  isToday,
-  parseISO,
-} from 'date-fns'
-
-export const toDateInputValue = (iso: string | null | undefined): string => {
-  if (!iso) return ''
+import { TZDate } from '@date-fns/tz'
+import { differenceInCalendarDays, format, formatDistanceToNow, parseISO } from 'date-fns'
+
+/**
+ * All-day due dates are stored as a bare calendar date (`yyyy-MM-dd`) so they read the same in every
+ * time zone. Timed due dates add a wall-clock `HH:mm` and the IANA zone it was entered in.
+ */
+export type DueDateValue = {
+  dueDate: string | null
+  dueTime: string | null
+  dueTimeZone: string | null
+}
+
+const CALENDAR_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export const isCalendarDate = (value: string) =>
+  CALENDAR_DATE_PATTERN.test(value) && !Number.isNaN(parseISO(value).getTime())
+
+export const isTimeOfDay = (value: string) => TIME_PATTERN.test(value)
+
+export const isValidTimeZone = (value: string) => {
   try {
-    return format(parseISO(iso), 'yyyy-MM-dd')
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
   } catch {
-    return ''
+    return false
   }
 }
 
-export const formatDueDateLabel = (iso: string | null): string => {
-  if (!iso) return 'No due date'
-  try {
-    const date = parseISO(iso)
-    const calendarLabel = format(date, 'MMM d, yyyy')
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone
 
-    if (isToday(date)) {
-      return `Due today · ${calendarLabel}`
-    }
+export const listTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] }
+  return intl.supportedValuesOf?.('timeZone') ?? [getLocalTimeZone(), 'UTC']
+}
 
-    if (isBefore(date, new Date())) {
-      const relative = formatDistanceToNow(date, { addSuffix: true })
-      return `Overdue · ${calendarLabel} (${relative})`
-    }
+export const toCalendarDate = (date: Date, timeZone?: string) =>
+  format(timeZone ? new TZDate(date, timeZone) : date, 'yyyy-MM-dd')
 
-    const relative = formatDistanceToNow(date, { addSuffix: true })
-    return `Due ${relative} · ${calendarLabel}`
-  } catch {
-    return 'No due date'
+export const todayInTimeZone = (timeZone: string, now = new Date()) => toCalendarDate(now, timeZone)
+
+/** Timed due dates resolve to their exact instant; all-day ones to the start of that day in `timeZone`. */
+export const getDueInstant = (value: DueDateValue, timeZone: string): Date | null => {
+  if (!value.dueDate) return null
+  const [year, month, day] = value.dueDate.split('-').map(Number)
+  if (!value.dueTime) {
+    return new TZDate(year, month - 1, day, timeZone)
   }
+  const [hours, minutes] = value.dueTime.split(':').map(Number)
+  return new TZDate(year, month - 1, day, hours, minutes, value.dueTimeZone ?? timeZone)
 }
 
-export const isDueSoon = (iso: string | null, withinDays = 3): boolean => {
-  if (!iso) return false
-  try {
-    const date = parseISO(iso)
-    const today = new Date()
-    const diff = differenceInCalendarDays(date, today)
+/** The calendar date the todo is due on, as seen from `timeZone`. */
+export const getDueCalendarDate = (value: DueDateValue, timeZone: string): string | null => {
+  if (!value.dueDate || !value.dueTime) return value.dueDate
+  const instant = getDueInstant(value, timeZone)
+  return instant ? toCalendarDate(instant, timeZone) : null
+}
 
-    return diff >= 0 && diff <= withinDays
-  } catch {
-    return false
-  }
+/** Values for the date and time inputs, converted into the viewer's time zone. */
+export const toDueInputValues = (value: DueDateValue, timeZone: string) => {
+  if (!value.dueDate) return { date: '', time: '' }
+  if (!value.dueTime) return { date: value.dueDate, time: '' }
+  const zoned = new TZDate(getDueInstant(value, timeZone) ?? new Date(), timeZone)
+  return { date: format(zoned, 'yyyy-MM-dd'), time: format(zoned, 'HH:mm') }
 }
 
-export const isOverdue = (iso: string | null): boolean => {
-  if (!iso) return false
-  try {
-    const date = parseISO(iso)
-    return isBefore(date, new Date()) && !isToday(date)
-  } catch {
-    return false
+export const formatDueDate = (value: DueDateValue, timeZone: string): string => {
+  const instant = getDueInstant(value, timeZone)
+  if (!value.dueDate || !instant) return 'No due date'
+  if (!value.dueTime) return format(parseISO(value.dueDate), 'MMM d, yyyy')
+  return format(new TZDate(instant, timeZone), 'MMM d, yyyy, h:mm a (zzz)')
+}
+
+export const isOverdue = (value: DueDateValue, timeZone: string, now = new Date()): boolean => {
+  if (!value.dueDate) return false
+  if (!value.dueTime) return value.dueDate < todayInTimeZone(timeZone, now)
+  const instant = getDueInstant(value, timeZone)
+  return Boolean(instant && instant < now)
+}
+
+export const isDueSoon = (value: DueDateValue, timeZone: string, withinDays = 3, now = new Date()): boolean => {
+  const calendarDate = getDueCalendarDate(value, timeZone)
+  if (!calendarDate || isOverdue(value, timeZone, now)) return false
+  const diff = differenceInCalendarDays(parseISO(calendarDate), parseISO(todayInTimeZone(timeZone, now)))
+  return diff >= 0 && diff <= withinDays
+}
+
+export const formatDueDateLabel = (value: DueDateValue, timeZone: string): string => {
+  const instant = getDueInstant(value, timeZone)
+  if (!value.dueDate || !instant) return 'No due date'
+
+  const calendarDate = getDueCalendarDate(value, timeZone)
+  const zoned = new TZDate(instant, timeZone)
+  const timeLabel = value.dueTime ? ` at ${format(zoned, 'h:mm a')}` : ''
+  const calendarLabel = format(parseISO(calendarDate ?? value.dueDate), 'MMM d, yyyy')
+  const relative = formatDistanceToNow(instant, { addSuffix: true })
+
+  if (isOverdue(value, timeZone)) {
+    return `Overdue · ${calendarLabel}${timeLabel} (${relative})`
   }
+
+  if (calendarDate === todayInTimeZone(timeZone)) {
+    return `Due today${timeLabel} · ${calendarLabel}`
+  }
+
+  return `Due ${relative} · ${calendarLabel}${timeLabel}`
 }
@@ -0,0 +1,13 @@
+const UNITS = ['B', 'KB', 'MB', 'GB']
+
+/** `1536` → `1.5 KB`; whole numbers from 10 units up. */
+export const formatFileSize = (bytes: number) => {
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024
+    unit += 1
+  }
+  const rounded = unit === 0 || value >= 10 ? Math.round(value) : Math.round(value * 10) / 10
+  return `${rounded} ${UNITS[unit]}`
+}
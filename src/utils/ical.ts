@@ -0,0 +1,137 @@
+/** RFC 5545 iCalendar: content lines of `NAME;PARAM=value:value`, grouped by `BEGIN:`/`END:` into components. */
+
+export type ICalProperty = {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+export type ICalComponent = {
+  name: string
+  properties: ICalProperty[]
+  components: ICalComponent[]
+}
+
+const MAX_LINE_OCTETS = 75
+
+const encoder = new TextEncoder()
+
+export const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+export const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+
+/** Splits a list value such as `CATEGORIES` on the commas that are not escaped, unescaping each item. */
+export const splitTextList = (value: string) =>
+  (value.match(/(?:\\.|[^,\\])+/g) ?? [])
+    .map((item) => unescapeText(item).trim())
+    .filter(Boolean)
+
+// Lines longer than 75 octets continue on the next line after a single space, never splitting a character.
+const foldLine = (line: string) => {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+const formatParam = (value: string) => (/[;:,]/.test(value) ? `"${value.replace(/"/g, '')}"` : value)
+
+const formatProperty = ({ name, params, value }: ICalProperty) =>
+  foldLine(
+    [name, ...Object.entries(params).map(([key, param]) => `${key}=${formatParam(param)}`)].join(';') + `:${value}`,
+  )
+
+const formatLines = (component: ICalComponent): string[] => [
+  `BEGIN:${component.name}`,
+  ...component.properties.map(formatProperty),
+  ...component.components.flatMap(formatLines),
+  `END:${component.name}`,
+]
+
+/** Property values are written as given, so text values must already be passed through `escapeText`. */
+export const formatICal = (component: ICalComponent) => `${formatLines(component).join('\r\n')}\r\n`
+
+const parseLine = (line: string, lineNumber: number): ICalProperty => {
+  let index = 0
+  let quoted = false
+  // The value starts at the first colon outside a quoted parameter value.
+  while (index < line.length && (quoted || line[index] !== ':')) {
+    if (line[index] === '"') quoted = !quoted
+    index += 1
+  }
+  if (index === line.length) {
+    throw new SyntaxError(`Line ${lineNumber} is not a property: expected "NAME:value"`)
+  }
+
+  const [name, ...rawParams] = line.slice(0, index).match(/(?:[^;"]|"[^"]*")+/g) ?? []
+  const params: Record<string, string> = {}
+  rawParams.forEach((param) => {
+    const separator = param.indexOf('=')
+    if (separator === -1) return
+    params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '')
+  })
+  return { name: (name ?? '').toUpperCase(), params, value: line.slice(index + 1) }
+}
+
+/**
+ * Parses iCalendar text into its top-level components (usually a single `VCALENDAR`). Accepts `\n` and
+ * `\r\n` line endings and a leading byte order mark. Throws a `SyntaxError` naming the line of a malformed
+ * property or an unbalanced `BEGIN`/`END`.
+ */
+export const parseICal = (text: string): ICalComponent[] => {
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text
+  const lines: { text: string; number: number }[] = []
+  input.split(/\r?\n/).forEach((line, index) => {
+    if (/^[ \t]/.test(line) && lines.length > 0) {
+      lines[lines.length - 1].text += line.slice(1)
+    } else if (line.trim()) {
+      lines.push({ text: line, number: index + 1 })
+    }
+  })
+
+  const roots: ICalComponent[] = []
+  const stack: ICalComponent[] = []
+  lines.forEach(({ text: line, number }) => {
+    const property = parseLine(line, number)
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = { name: property.value.trim().toUpperCase(), properties: [], components: [] }
+      const parent = stack.length > 0 ? stack[stack.length - 1].components : roots
+      parent.push(component)
+      stack.push(component)
+    } else if (property.name === 'END') {
+      const component = stack.pop()
+      if (!component || component.name !== property.value.trim().toUpperCase()) {
+        throw new SyntaxError(`Line ${number} ends ${property.value} but ${component?.name ?? 'nothing'} is open`)
+      }
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property)
+    } else {
+      throw new SyntaxError(`Line ${number} is outside of any component`)
+    }
+  })
+
+  if (stack.length > 0) {
+    throw new SyntaxError(`${stack[stack.length - 1].name} is never closed`)
+  }
+  return roots
+}
+
+export const getProperty = (component: ICalComponent, name: string) =>
+  component.properties.find((property) => property.name === name)
+
+export const getProperties = (component: ICalComponent, name: string) =>
+  component.properties.filter((property) => property.name === name)
@@ -0,0 +1,375 @@
+/**
+ * A small Markdown dialect for todo descriptions: paragraphs, headings, bullet, numbered and task lists
+ * (nested by indentation), block quotes, fenced code, rules, and inline code, emphasis, strikethrough,
+ * links and bare URLs. Raw HTML is never interpreted; the parser returns a tree that is rendered as React
+ * elements, and link targets are limited to `http`, `https` and `mailto`.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strike'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' }
+
+export type MarkdownListItem = {
+  /** `null` for a plain item, otherwise the state of its task checkbox. */
+  checked: boolean | null
+  children: MarkdownBlock[]
+}
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'code'; language: string | null; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'rule' }
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:']
+
+/** The normalized URL when it is safe to link to, otherwise `null`. Bare `www.` hosts are read as https. */
+export const sanitizeUrl = (href: string): string | null => {
+  const candidate = href.trim()
+  try {
+    const url = new URL(/^www\./i.test(candidate) ? `https://${candidate}` : candidate)
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+// Inline parsing
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!~>|<]/
+const BARE_URL = /^(?:https?:\/\/|www\.)[^\s<]+/i
+// `(url)` or `(<url> "title")` after the link text; one level of parentheses may appear inside the URL.
+const LINK_TARGET = /^\(\s*<?([^\s()<>]*(?:\([^\s()]*\)[^\s()<>]*)*)>?(?:\s+"[^"]*")?\s*\)/
+const TRAILING_PUNCTUATION = /[.,;:!?'"*_~]+$/
+
+const isWordChar = (char: string | undefined) => Boolean(char && /[\p{L}\p{N}]/u.test(char))
+
+const pushText = (nodes: MarkdownInline[], text: string) => {
+  const last = nodes[nodes.length - 1]
+  if (last?.type === 'text') last.text += text
+  else if (text) nodes.push({ type: 'text', text })
+}
+
+// A closing parenthesis only belongs to a bare URL when the URL also opened one, as in Wikipedia links.
+const trimBareUrl = (url: string) => {
+  let trimmed = url.replace(TRAILING_PUNCTUATION, '')
+  while (trimmed.endsWith(')') && (trimmed.match(/\(/g)?.length ?? 0) < (trimmed.match(/\)/g)?.length ?? 0)) {
+    trimmed = trimmed.slice(0, -1).replace(TRAILING_PUNCTUATION, '')
+  }
+  return trimmed
+}
+
+const findClosingBracket = (text: string, from: number) => {
+  let depth = 0
+  for (let index = from; index < text.length; index += 1) {
+    const char = text[index]
+    if (char === '\\') index += 1
+    else if (char === '[') depth += 1
+    else if (char === ']') {
+      depth -= 1
+      if (depth === 0) return index
+    }
+  }
+  return -1
+}
+
+type Delimiter = { marker: string; type: 'strong' | 'emphasis' | 'strike' }
+
+const DELIMITERS: Delimiter[] = [
+  { marker: '**', type: 'strong' },
+  { marker: '__', type: 'strong' },
+  { marker: '~~', type: 'strike' },
+  { marker: '*', type: 'emphasis' },
+  { marker: '_', type: 'emphasis' },
+]
+
+// Underscores only delimit at word boundaries, so snake_case names stay intact.
+const findClosingDelimiter = (text: string, from: number, marker: string) => {
+  let index = text.indexOf(marker, from)
+  while (index !== -1) {
+    const flanked = !/\s/.test(text[index - 1] ?? ' ')
+    const boundary = !marker.startsWith('_') || !isWordChar(text[index + marker.length])
+    const doubled = marker.length === 1 && text[index + 1] === marker
+    if (index > from && flanked && boundary && !doubled) return index
+    index = text.indexOf(marker, index + (doubled ? 2 : 1))
+  }
+  return -1
+}
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = []
+  let index = 0
+
+  while (index < text.length) {
+    const char = text[index]
+    const rest = text.slice(index)
+
+    if (char === '\\' && text[index + 1] === '\n') {
+      nodes.push({ type: 'break' })
+      index += 2
+      continue
+    }
+    if (char === '\\' && ESCAPABLE.test(text[index + 1] ?? '')) {
+      pushText(nodes, text[index + 1])
+      index += 2
+      continue
+    }
+    if (char === '\n') {
+      nodes.push({ type: 'break' })
+      index += 1
+      continue
+    }
+
+    if (char === '`') {
+      const fence = /^`+/.exec(rest)![0]
+      const end = text.indexOf(fence, index + fence.length)
+      if (end !== -1) {
+        const code = text.slice(index + fence.length, end)
+        nodes.push({ type: 'code', text: /^ .* $/.test(code) ? code.slice(1, -1) : code })
+        index = end + fence.length
+        continue
+      }
+      pushText(nodes, fence)
+      index += fence.length
+      continue
+    }
+
+    if (char === '[') {
+      const close = findClosingBracket(text, index)
+      const target = close === -1 ? null : LINK_TARGET.exec(text.slice(close + 1))
+      const href = target ? sanitizeUrl(target[1]) : null
+      if (close !== -1 && target) {
+        const children = parseInline(text.slice(index + 1, close))
+        if (href) nodes.push({ type: 'link', href, children })
+        else children.forEach((child) => (child.type === 'text' ? pushText(nodes, child.text) : nodes.push(child)))
+        index = close + 1 + target[0].length
+        continue
+      }
+    }
+
+    if (char === '<') {
+      const autolink = /^<([^\s<>]+)>/.exec(rest)
+      const href = autolink ? sanitizeUrl(autolink[1]) : null
+      if (autolink && href) {
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: autolink[1] }] })
+        index += autolink[0].length
+        continue
+      }
+    }
+
+    if ((char === 'h' || char === 'H' || char === 'w' || char === 'W') && !isWordChar(text[index - 1])) {
+      const bare = BARE_URL.exec(rest)
+      const url = bare ? trimBareUrl(bare[0]) : ''
+      const href = url ? sanitizeUrl(url) : null
+      if (href) {
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: url }] })
+        index += url.length
+        continue
+      }
+    }
+
+    const delimiter = DELIMITERS.find(({ marker }) => rest.startsWith(marker))
+    if (delimiter && !/\s/.test(text[index + delimiter.marker.length] ?? ' ')) {
+      const opensWord = !delimiter.marker.startsWith('_') || !isWordChar(text[index - 1])
+      const end = opensWord ? findClosingDelimiter(text, index + delimiter.marker.length, delimiter.marker) : -1
+      if (end !== -1) {
+        nodes.push({ type: delimiter.type, children: parseInline(text.slice(index + delimiter.marker.length, end)) })
+        index = end + delimiter.marker.length
+        continue
+      }
+    }
+
+    pushText(nodes, char)
+    index += 1
+  }
+
+  return nodes
+}
+
+// Block parsing
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/
+const QUOTE = /^ {0,3}> ?/
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)/
+const TASK = /^\[([ xX])\](?:\s+|$)/
+
+const isBlank = (line: string) => !line.trim()
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line)
+
+const indentOf = (line: string) => line.length - line.trimStart().length
+
+const dedent = (line: string, width: number) => line.slice(Math.min(width, indentOf(line)))
+
+type ListMarker = { ordered: boolean; start: number; indent: number; contentIndent: number; content: string }
+
+const readListMarker = (line: string): ListMarker | null => {
+  const match = LIST_ITEM.exec(line.replace(/\t/g, '    '))
+  if (!match) return null
+  const [whole, indent, marker, spacing] = match
+  // A marker followed by five or more spaces starts indented code in CommonMark; here the extra space is content.
+  const contentIndent = indent.length + marker.length + (spacing.length > 4 || !spacing ? 1 : spacing.length)
+  return {
+    ordered: /\d/.test(marker),
+    start: /\d/.test(marker) ? Number.parseInt(marker, 10) : 1,
+    indent: indent.length,
+    contentIndent,
+    content: line.replace(/\t/g, '    ').slice(Math.min(contentIndent, whole.length)),
+  }
+}
+
+const parseList = (lines: string[], from: number): { block: MarkdownBlock; next: number } => {
+  const first = readListMarker(lines[from])!
+  const items: MarkdownListItem[] = []
+  let index = from
+
+  while (index < lines.length) {
+    const marker = readListMarker(lines[index])
+    if (!marker || marker.ordered !== first.ordered || marker.indent >= first.contentIndent) break
+
+    const itemLines = [marker.content]
+    index += 1
+    while (index < lines.length) {
+      const line = lines[index]
+      if (isBlank(line)) {
+        const following = lines.slice(index + 1).find((candidate) => !isBlank(candidate))
+        if (!following || indentOf(following) < marker.contentIndent) break
+        itemLines.push('')
+      } else if (indentOf(line) >= marker.contentIndent) {
+        itemLines.push(dedent(line, marker.contentIndent))
+      } else if (!startsBlock(line) && !isBlank(itemLines[itemLines.length - 1])) {
+        itemLines.push(line.trim())
+      } else {
+        break
+      }
+      index += 1
+    }
+
+    const task = TASK.exec(itemLines[0])
+    if (task) itemLines[0] = itemLines[0].slice(task[0].length)
+    items.push({ checked: task ? task[1] !== ' ' : null, children: parseBlocks(itemLines) })
+
+    // Blank lines between items of the same list are skipped; anything else ends the list.
+    let lookahead = index
+    while (lookahead < lines.length && isBlank(lines[lookahead])) lookahead += 1
+    const nextMarker = lookahead < lines.length ? readListMarker(lines[lookahead]) : null
+    if (!nextMarker || nextMarker.ordered !== first.ordered || nextMarker.indent >= first.contentIndent) break
+    index = lookahead
+  }
+
+  return { block: { type: 'list', ordered: first.ordered, start: first.start, items }, next: index }
+}
+
+const parseBlocks = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = []
+  let index = 0
+
+  while (index < lines.length) {
+    const line = lines[index]
+    if (isBlank(line)) {
+      index += 1
+      continue
+    }
+
+    const fence = FENCE.exec(line)
+    if (fence) {
+      const [, marker, language] = fence
+      const code: string[] = []
+      index += 1
+      while (index < lines.length && !lines[index].trim().startsWith(marker)) {
+        code.push(lines[index])
+        index += 1
+      }
+      blocks.push({ type: 'code', language: language || null, text: code.join('\n') })
+      index += 1
+      continue
+    }
+
+    const heading = HEADING.exec(line)
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] ?? '') })
+      index += 1
+      continue
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' })
+      index += 1
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(lines[index].replace(QUOTE, ''))
+        index += 1
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted) })
+      continue
+    }
+
+    if (readListMarker(line)) {
+      const { block, next } = parseList(lines, index)
+      blocks.push(block)
+      index = next
+      continue
+    }
+
+    const paragraph: string[] = []
+    while (index < lines.length && !isBlank(lines[index]) && (paragraph.length === 0 || !startsBlock(lines[index]))) {
+      paragraph.push(lines[index].trim())
+      index += 1
+    }
+    // Every line break inside a paragraph is kept, as descriptions are written like plain notes.
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) })
+  }
+
+  return blocks
+}
+
+export const parseMarkdown = (text: string): MarkdownBlock[] => parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'))
+
+const inlineText = (nodes: MarkdownInline[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text
+        case 'break':
+          return '\n'
+        default:
+          return inlineText(node.children)
+      }
+    })
+    .join('')
+
+const blockText = (blocks: MarkdownBlock[]): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'paragraph':
+        case 'heading':
+          return inlineText(block.children)
+        case 'code':
+          return block.text
+        case 'quote':
+          return blockText(block.children)
+        case 'list':
+          return block.items.map((item) => blockText(item.children)).join('\n')
+        case 'rule':
+          return ''
+      }
+    })
+    .join('\n')
+
+/** The text a reader sees once the Markdown is rendered, without its syntax; used for searching. */
+export const stripMarkdown = (text: string) => blockText(parseMarkdown(text))
@@ -0,0 +1,54 @@
+import { nanoid } from 'nanoid'
+
+/** Messages between open tabs of the app. A tab never receives its own messages. */
+export type TabChannel<T> = {
+  post: (message: T) => void
+  subscribe: (listener: (message: T) => void) => () => void
+}
+
+const createBroadcastChannel = <T,>(name: string): TabChannel<T> => {
+  const channel = new BroadcastChannel(name)
+  return {
+    post: (message) => channel.postMessage(message),
+    subscribe: (listener) => {
+      const handle = (event: MessageEvent) => listener(event.data as T)
+      channel.addEventListener('message', handle)
+      return () => channel.removeEventListener('message', handle)
+    },
+  }
+}
+
+// Other tabs see a localStorage write as a `storage` event, so the entry is written and removed straight away.
+const createStorageChannel = <T,>(name: string): TabChannel<T> => ({
+  post: (message) => {
+    try {
+      // The id makes every message a change, even when the same message is posted twice in a row.
+      window.localStorage.setItem(name, JSON.stringify({ id: nanoid(), message }))
+      window.localStorage.removeItem(name)
+    } catch {
+      // Without storage the other tabs catch up on their next refetch.
+    }
+  },
+  subscribe: (listener) => {
+    const handle = (event: StorageEvent) => {
+      if (event.key !== name || !event.newValue) return
+      try {
+        listener((JSON.parse(event.newValue) as { message: T }).message)
+      } catch {
+        // Not a message this channel posted.
+      }
+    }
+    window.addEventListener('storage', handle)
+    return () => window.removeEventListener('storage', handle)
+  },
+})
+
+/**
+ * Uses a `BroadcastChannel`, falling back to `storage` events where there is none (older Safari). Returns
+ * `null` outside a browser.
+ */
+export const createTabChannel = <T,>(name: string): TabChannel<T> | null => {
+  if (typeof window === 'undefined') return null
+  if (typeof BroadcastChannel !== 'undefined') return createBroadcastChannel<T>(name)
+  return typeof window.localStorage !== 'undefined' ? createStorageChannel<T>(name) : null
+}
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TODO_STORAGE?: 'local' | 'memory' | 'indexeddb' | 'http'
+  readonly VITE_TODO_API_URL?: string
+  readonly VITE_TODO_API_TIMEOUT_MS?: string
+  readonly VITE_TRASH_RETENTION_DAYS?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}